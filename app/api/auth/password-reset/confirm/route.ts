@@ -3,14 +3,19 @@
  * POST /api/auth/password-reset/confirm - Reset password with token
  */
 
-import { updateUser, getUserById, deleteUserSessions } from '@/lib/storage';
-import { hashPassword } from '@/lib/encryption';
+import {
+  updateUser,
+  getUserByEmail,
+  deleteUserSessions,
+  getPasswordResetToken,
+  consumePasswordResetToken,
+} from '@/lib/storage';
+import { hashPassword, hashToken } from '@/lib/encryption';
 import {
   PasswordResetSchema,
   validate,
   formatValidationErrors,
 } from '@/lib/validation';
-import { resetTokens } from '../route';
 
 export async function POST(req: Request) {
   try {
@@ -27,10 +32,10 @@ export async function POST(req: Request) {
 
     const { token, newPassword } = validation.data!;
 
-    // Verify reset token
-    const tokenData = resetTokens.get(token);
+    // Verify reset token (stored hashed)
+    const resetToken = await getPasswordResetToken(hashToken(token));
 
-    if (!tokenData) {
+    if (!resetToken || resetToken.usedAt) {
       return Response.json(
         { error: 'Invalid or expired reset token' },
         { status: 400 }
@@ -38,18 +43,25 @@ export async function POST(req: Request) {
     }
 
     // Check if token has expired
-    if (tokenData.expiresAt < new Date()) {
-      resetTokens.delete(token);
+    if (resetToken.expiresAt < new Date()) {
       return Response.json(
         { error: 'Reset token has expired' },
         { status: 400 }
       );
     }
 
+    // Tokens are single-use - claim it before changing anything
+    const consumed = await consumePasswordResetToken(resetToken.id);
+    if (!consumed) {
+      return Response.json(
+        { error: 'Invalid or expired reset token' },
+        { status: 400 }
+      );
+    }
+
     // Verify user exists
-    const user = await getUserById(tokenData.userId);
+    const user = await getUserByEmail(resetToken.email);
     if (!user) {
-      resetTokens.delete(token);
       return Response.json(
         { error: 'User not found' },
         { status: 404 }
@@ -65,9 +77,6 @@ export async function POST(req: Request) {
     // Invalidate all existing sessions for security
     await deleteUserSessions(user.id);
 
-    // Remove used token
-    resetTokens.delete(token);
-
     return Response.json({
       message: 'Password has been reset successfully. Please login with your new password.',
     });
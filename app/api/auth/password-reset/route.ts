@@ -3,17 +3,20 @@
  * POST /api/auth/password-reset - Request a password reset email
  */
 
-import { getUserByEmail, createSession, updateUser } from '@/lib/storage';
-import { generateToken } from '@/lib/encryption';
+import {
+  getUserByEmail,
+  createPasswordResetToken,
+  invalidatePasswordResetTokens,
+} from '@/lib/storage';
+import { generateToken, hashToken } from '@/lib/encryption';
+import { sendPasswordResetEmail } from '@/lib/mail';
 import {
   PasswordResetRequestSchema,
   validate,
   formatValidationErrors,
 } from '@/lib/validation';
 
-// In production, this would be stored in the database with expiry
-// For demo, we're using a simple in-memory store
-const resetTokens = new Map<string, { userId: string; expiresAt: Date }>();
+const RESET_TOKEN_TTL_MINUTES = 60;
 
 export async function POST(req: Request) {
   try {
@@ -33,29 +36,33 @@ export async function POST(req: Request) {
     // Find user by email
     const user = await getUserByEmail(email);
 
-    // Always return success to prevent email enumeration attacks
-    // In production, only send email if user exists
-    if (user) {
-      // Generate reset token
-      const resetToken = generateToken(32);
-      const expiresAt = new Date(Date.now() + 60 * 60 * 1000); // 1 hour expiry
+    // Links are only built from the configured origin - the request's Host
+    // header is client-controlled and would let a link point anywhere
+    const appUrl = process.env.APP_URL;
+    if (!appUrl) {
+      console.error('[Password Reset] APP_URL environment variable is not set - reset email not sent');
+    }
 
-      // Store reset token (in production, this would be in the database)
-      resetTokens.set(resetToken, { userId: user.id, expiresAt });
+    // Always return the same response to prevent email enumeration attacks
+    if (user && appUrl) {
+      // Only the latest link works
+      await invalidatePasswordResetTokens(user.email);
 
-      // In production, send email here with reset link:
-      // await sendPasswordResetEmail(user.email, resetToken);
+      // The raw token only leaves the server in the email; the database keeps its hash
+      const resetToken = generateToken(32);
+      await createPasswordResetToken({
+        email: user.email,
+        tokenHash: hashToken(resetToken),
+        expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+      });
 
-      console.log(`[Password Reset] Token generated for ${email}: ${resetToken}`);
+      const resetUrl = `${appUrl.replace(/\/+$/, '')}/reset-password?token=${resetToken}`;
 
-      // For demo purposes, we'll include the token in the response
-      // NEVER do this in production - token should only be sent via email
-      if (process.env.NODE_ENV === 'development') {
-        return Response.json({
-          message: 'Password reset instructions sent to your email',
-          // DEV ONLY: Include token for testing
-          _devToken: resetToken,
-        });
+      try {
+        await sendPasswordResetEmail(user.email, resetUrl, RESET_TOKEN_TTL_MINUTES);
+      } catch (error) {
+        // Don't reveal delivery failures to the caller - that would leak account existence
+        console.error('[Password Reset] Failed to send reset email:', error);
       }
     }
 
@@ -70,6 +77,3 @@ export async function POST(req: Request) {
     );
   }
 }
-
-// Export for use in confirm route
-export { resetTokens };
@@ -1,35 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { streamText, convertToModelMessages, stepCountIs, createUIMessageStream, createUIMessageStreamResponse } from 'ai';
-import { anthropic, forwardAnthropicContainerIdFromLastStep } from '@/lib/anthropic';
-import { addMessage } from '@/lib/storage';
-import { loadActiveMcpToolsWithDescriptions } from '@/lib/mcp-client';
+import { streamText, convertToModelMessages, stepCountIs, createUIMessageStream, createUIMessageStreamResponse, type UIMessageStreamWriter } from 'ai';
+import type { AnthropicProvider } from '@ai-sdk/anthropic';
+import { getAnthropicProvider, forwardAnthropicContainerIdFromLastStep, MissingAnthropicKeyError } from '@/lib/anthropic';
+import {
+  addMessage,
+  getMessage,
+  isConversationOwner,
+  recordFiles,
+  getFileByFileId,
+  saveContinuedMessage,
+  getUserMcpConnections,
+  setConversationMcpIds,
+} from '@/lib/storage';
+import { loadActiveMcpToolsWithDescriptions, type McpToolSource } from '@/lib/mcp-client';
 import { requireAuth } from '@/lib/auth-middleware';
-import { getAnthropicFilesClient } from '@/lib/anthropic-files';
+import { getAnthropicFilesClient, cacheFile } from '@/lib/anthropic-files';
 import { buildSystemPromptWithTools } from '@/lib/system-prompts';
 import { fitMessagesToContextWindow } from '@/lib/context-window';
+import { MODELS, DEFAULT_MODEL_ID, CONTEXT_1M_BETA, getModelCapabilities, getModelRequestLimits } from '@/lib/models';
+import { createTokenCounter, getToolDefinitions } from '@/lib/token-counting';
+import { createHistorySummarizer } from '@/lib/history-summary';
+import { cacheSystemPrompt, cacheTools, cacheHistory, toPromptCacheUsage } from '@/lib/prompt-caching';
+import { prepareAttachmentsForModel, getAttachmentNames, getClientMessageParts, findUnsupportedAttachment, storeAttachments } from '@/lib/attachments';
 import { validate, ChatRequestSchema, formatValidationErrors } from '@/lib/validation';
 
 export const maxDuration = 300;
 
-// Models that support adaptive thinking (type: "adaptive" + effort)
-const ADAPTIVE_THINKING_MODELS = [
-  'claude-opus-4-6',
-  'claude-sonnet-4-6',
-];
-
-// Models that support manual thinking (type: "enabled" + budgetTokens)
-const MANUAL_THINKING_MODELS = [
-  'claude-sonnet-4-5-20250929',
-  'claude-haiku-4-5-20251001',
-  'claude-opus-4-5-20251101',
-  'claude-sonnet-4-20250514',
-  'claude-opus-4-20250514',
-];
-
-function getThinkingMode(modelId: string): 'adaptive' | 'manual' | 'none' {
-  if (ADAPTIVE_THINKING_MODELS.includes(modelId)) return 'adaptive';
-  if (MANUAL_THINKING_MODELS.includes(modelId)) return 'manual';
-  return 'none';
+// Approval requests the user moved on from without answering count as denied -
+// otherwise the model would see a tool call without a result
+function denyUnansweredApprovals<T extends { parts?: unknown[] }>(message: T): T {
+  const isPending = (part: unknown) => (part as { state?: string }).state === 'approval-requested';
+  if (!message.parts?.some(isPending)) return message;
+  return {
+    ...message,
+    parts: message.parts.map((part) => {
+      if (!isPending(part)) return part;
+      const toolPart = part as { approval: { id: string } };
+      return {
+        ...toolPart,
+        state: 'output-denied',
+        approval: { id: toolPart.approval.id, approved: false, reason: 'The user did not respond to the approval request.' },
+      };
+    }),
+  };
 }
 
 export async function POST(req: NextRequest) {
@@ -56,15 +69,48 @@ export async function POST(req: NextRequest) {
       activeMcpIds = [],
     } = validation.data!;
 
+    // Messages are only saved to the user's own conversation
+    if (conversationId && !(await isConversationOwner(conversationId, user.id))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const unsupportedAttachment = findUnsupportedAttachment(uiMessages);
+    if (unsupportedAttachment) {
+      return NextResponse.json(
+        { error: `Attachment "${unsupportedAttachment}" must be sent inline` },
+        { status: 400 }
+      );
+    }
+
+    // Bill the request to the user's own key (server key only if policy allows)
+    let anthropic: AnthropicProvider;
+    try {
+      anthropic = getAnthropicProvider(user);
+    } catch (error) {
+      if (error instanceof MissingAnthropicKeyError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
     // Use the model ID directly (frontend sends full Bedrock model IDs)
-    const modelId = requestedModel || 'claude-sonnet-4-5-20250929';
+    const modelId = requestedModel || DEFAULT_MODEL_ID;
+    const modelCapabilities = getModelCapabilities(modelId);
+    const modelLimits = getModelRequestLimits(modelId);
 
     // Check if reasoning should be enabled for this model
-    const thinkingMode = enableReasoning ? getThinkingMode(modelId) : 'none';
+    const thinkingMode = enableReasoning ? modelCapabilities?.thinking ?? 'none' : 'none';
 
     // Get the last user message to save to database
     const lastUserMessage = uiMessages[uiMessages.length - 1];
 
+    // The last message is the assistant's when the user answered its tool approval
+    // requests - the same turn resumes and is saved over that message
+    const isApprovalContinuation = lastUserMessage?.role === 'assistant';
+
     // Save user message to database if we have a conversation
     if (conversationId && lastUserMessage?.role === 'user') {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -73,12 +119,51 @@ export async function POST(req: NextRequest) {
         ?.filter((p: { type: string }) => p.type === 'text')
         .map((p: { text?: string }) => p.text || '')
         .join('') || lastUserMessage.content || '';
+      const attachmentNames = getAttachmentNames(parts);
+
+      // Resending an existing message (retry) reuses it - the new reply becomes a sibling
+      const alreadySaved = !!lastUserMessage.id && !!(await getMessage(lastUserMessage.id, conversationId));
+
+      // An MCP prompt expands into several messages; the ones before this
+      // message arrive unsaved, marked with metadata.mcpPrompt
+      if (!alreadySaved) {
+        const promptMessages: typeof uiMessages = [];
+        for (let i = uiMessages.length - 2; i >= 0; i--) {
+          const candidate = uiMessages[i];
+          if (!candidate.id || typeof candidate.metadata?.mcpPrompt !== 'string') break;
+          if (await getMessage(candidate.id, conversationId)) break;
+          promptMessages.unshift(candidate);
+        }
+        for (const promptMessage of promptMessages) {
+          const index = uiMessages.indexOf(promptMessage);
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const promptParts = promptMessage.parts as any[] | undefined;
+          const promptText = promptParts
+            ?.filter((p: { type: string }) => p.type === 'text')
+            .map((p: { text?: string }) => p.text || '')
+            .join('') || '';
+          await addMessage(conversationId, {
+            id: promptMessage.id,
+            parentId: index > 0 ? uiMessages[index - 1].id : null,
+            role: promptMessage.role === 'assistant' ? 'assistant' : 'user',
+            content: promptText || getAttachmentNames(promptParts).map((name) => `[${name}]`).join(' '),
+            parts: await storeAttachments(getClientMessageParts(promptMessage.parts), { userId: user.id, conversationId }),
+            metadata: { mcpPrompt: promptMessage.metadata!.mcpPrompt },
+          });
+        }
+      }
 
-      if (userContent) {
+      // Attachment-only messages are saved with the file names as their content
+      if (!alreadySaved && (userContent || attachmentNames.length > 0)) {
+        // The client's history is the branch being continued - an edit forks from
+        // the message before the edited one
+        const previousMessage = uiMessages[uiMessages.length - 2];
         await addMessage(conversationId, {
+          id: lastUserMessage.id,
+          parentId: previousMessage ? previousMessage.id : null,
           role: 'user',
-          content: userContent,
-          parts: lastUserMessage.parts,
+          content: userContent || attachmentNames.map((name) => `[${name}]`).join(' '),
+          parts: await storeAttachments(getClientMessageParts(lastUserMessage.parts), { userId: user.id, conversationId }),
         });
       }
     }
@@ -100,19 +185,44 @@ export async function POST(req: NextRequest) {
 
     // Track MCP tool descriptions for system prompt
     let mcpToolDescriptions: { name: string; description: string }[] = [];
+    // Which server and tool each namespaced MCP tool name refers to
+    let mcpToolSources: Record<string, McpToolSource> = {};
+
+    // Set once the response stream starts; MCP progress is written to it as it arrives
+    let streamWriter: UIMessageStreamWriter | null = null;
 
     // DEBUG: Log the activeMcpIds received from frontend
     console.log(`[Chat] activeMcpIds from request:`, JSON.stringify(activeMcpIds));
 
+    // Only the user's own connections - ids of deleted ones are dropped
+    const userMcpConnections = activeMcpIds.length > 0 ? await getUserMcpConnections(user.id) : [];
+    const mcpConnections = userMcpConnections
+      .filter((conn) => activeMcpIds.includes(conn.id))
+      .map((conn) => ({ id: conn.id, name: conn.name }));
+    const mcpIds = mcpConnections.map((conn) => conn.id);
+
+    // Reopening the conversation restores the connectors it used last
+    if (conversationId) {
+      await setConversationMcpIds(conversationId, user.id, mcpIds);
+    }
+
     // Load MCP tools if any connections are active
-    if (activeMcpIds && activeMcpIds.length > 0) {
-      console.log(`[Chat] Attempting to load MCP tools from ${activeMcpIds.length} connections:`, activeMcpIds);
+    if (mcpIds.length > 0) {
+      console.log(`[Chat] Attempting to load MCP tools from ${mcpIds.length} connections:`, mcpIds);
       try {
-        const { tools: mcpTools, descriptions } = await loadActiveMcpToolsWithDescriptions(activeMcpIds);
+        const { tools: mcpTools, descriptions, sources } = await loadActiveMcpToolsWithDescriptions(mcpIds, {
+          // Stopping generation disconnects the client, which cancels running MCP requests
+          signal: req.signal,
+          // Updates replace each other on the client since they share the tool call id
+          onProgress: (toolCallId, progress) => {
+            streamWriter?.write({ type: 'data-mcpProgress', id: toolCallId, data: { toolCallId, ...progress } });
+          },
+        });
         const mcpToolCount = Object.keys(mcpTools).length;
         if (mcpToolCount > 0) {
           Object.assign(tools, mcpTools);
           mcpToolDescriptions = descriptions;
+          mcpToolSources = sources;
           console.log(`[Chat] Successfully loaded ${mcpToolCount} MCP tools:`, Object.keys(mcpTools));
           console.log(`[Chat] MCP tool descriptions for prompt:`, descriptions.map(d => d.name));
         } else {
@@ -123,9 +233,13 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    // Convert UI messages to model messages format
+    // Convert attachments to formats the model can read, then to model messages format
+    const modelUiMessages = await prepareAttachmentsForModel(
+      uiMessages.map((message, index) => (index < uiMessages.length - 1 ? denyUnansweredApprovals(message) : message)),
+      user
+    );
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const messages = await convertToModelMessages(uiMessages as any);
+    const messages = await convertToModelMessages(modelUiMessages as any);
 
     // Log available tools
     const toolNames = Object.keys(tools);
@@ -133,19 +247,26 @@ export async function POST(req: NextRequest) {
     console.log(`[Chat] Available tools (${toolNames.length}):`, toolNames);
 
     // Build dynamic system prompt with available tools
-    const systemPrompt = buildSystemPromptWithTools(toolNames, mcpToolDescriptions);
+    const systemPrompt = buildSystemPromptWithTools(toolNames, mcpToolDescriptions, user.customInstructions);
     console.log(`[Chat] System prompt includes ${mcpToolDescriptions.length} MCP tool descriptions`);
 
-    // Fit messages within the context window (trim tool results + drop old groups)
-    const fittedMessages = fitMessagesToContextWindow(messages, systemPrompt);
+    // Fit messages within the context window (trim tool results + summarize old groups),
+    // counted by the count-tokens endpoint with the user's key
+    const { messages: fittedMessages, usage: contextUsage } = await fitMessagesToContextWindow(messages, systemPrompt, {
+      modelId,
+      tools: await getToolDefinitions(tools),
+      tokenCounter: createTokenCounter(user, modelId),
+      summarizeDropped: conversationId ? createHistorySummarizer(conversationId, user.id, anthropic) : undefined,
+    });
 
-    // Build streamText configuration
+    // Build streamText configuration - the system prompt and history carry prompt cache breakpoints
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const streamConfig: Record<string, any> = {
       model: anthropic(modelId),
-      system: systemPrompt,
-      messages: fittedMessages,
-      maxTokens: 65536,
+      system: cacheSystemPrompt(systemPrompt),
+      messages: cacheHistory(fittedMessages),
+      maxOutputTokens: modelLimits.maxOutputTokens,
+      ...(modelLimits.uses1mContext ? { headers: { 'anthropic-beta': CONTEXT_1M_BETA } } : {}),
       ...(thinkingMode !== 'none' ? {} : { temperature: 0.7 }),
       // Log tool calls for debugging - this is called after each step (including tool executions)
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -194,7 +315,7 @@ export async function POST(req: NextRequest) {
 
     // Add tools if any are defined
     if (hasTools) {
-      streamConfig.tools = tools;
+      streamConfig.tools = cacheTools(tools);
       // Enable multi-step tool calls - model continues after tool results until done
       streamConfig.stopWhen = stepCountIs(20);
       console.log(`[Chat] Tools attached to model config:`, Object.keys(tools));
@@ -206,8 +327,8 @@ export async function POST(req: NextRequest) {
 
     if (thinkingMode === 'adaptive') {
       anthropicOptions.thinking = { type: 'adaptive' };
-      // For Opus 4.6 use 'max', for Sonnet 4.6 use 'high' (max is Opus-only)
-      const effort = modelId === 'claude-opus-4-6' ? 'max' : 'high';
+      // The highest effort the model takes ('max' is Opus-only)
+      const effort = modelCapabilities?.maxEffort ?? 'high';
       anthropicOptions.effort = effort;
       console.log(`[Chat] Adaptive thinking enabled (effort: ${effort})`);
     } else if (thinkingMode === 'manual') {
@@ -246,9 +367,30 @@ export async function POST(req: NextRequest) {
     const fileDownloadParts: Array<Record<string, unknown>> = [];
 
     const stream = createUIMessageStream({
+      // Lets the response extend the message being resumed instead of starting a new one
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      originalMessages: isApprovalContinuation ? (uiMessages as any) : undefined,
       execute: async ({ writer }) => {
+        streamWriter = writer;
+        // Where the context window went this turn, for the usage meter by the input
+        writer.write({ type: 'data-contextUsage', id: 'context-usage', data: contextUsage });
+
         // 1. Merge AI stream (tokens flow to client in real-time)
-        writer.merge(result.toUIMessageStream({ sendReasoning: true, sendSources: true }));
+        writer.merge(result.toUIMessageStream({
+          sendReasoning: true,
+          sendSources: true,
+          // Tag the message with its model (shown on alternate versions), and each MCP
+          // tool call with its server as the call starts - the client merges these updates
+          messageMetadata: ({ part }) => {
+            if (part.type === 'start') {
+              return { model: modelId, ...(mcpConnections.length > 0 && { mcpConnections }) };
+            }
+            if (part.type === 'tool-input-start' && mcpToolSources[part.toolName]) {
+              return { mcpTools: { [part.toolName]: mcpToolSources[part.toolName] } };
+            }
+            return undefined;
+          },
+        }));
 
         // 2. Wait for completion
         const [, , steps] = await Promise.all([
@@ -313,7 +455,7 @@ export async function POST(req: NextRequest) {
           // Enrich with metadata from Files API and write data chunks to stream
           for (const file of uniqueFiles) {
             try {
-              const client = getAnthropicFilesClient();
+              const client = getAnthropicFilesClient(user);
               const metadata = await client.beta.files.retrieveMetadata(file.fileId);
               if (metadata.filename) file.filename = metadata.filename;
               if (metadata.mime_type) file.mimeType = metadata.mime_type;
@@ -379,6 +521,7 @@ export async function POST(req: NextRequest) {
                 input: part.input ?? part.args ?? {},
                 output: part.output ?? part.result ?? undefined,
                 state: part.state || 'output-available',
+                ...(part.approval ? { approval: part.approval } : {}),
               };
             }
 
@@ -390,11 +533,12 @@ export async function POST(req: NextRequest) {
                 input: part.input ?? part.args ?? {},
                 output: part.output ?? part.result ?? undefined,
                 state: part.state || 'output-available',
+                ...(part.approval ? { approval: part.approval } : {}),
               };
             }
 
             if (partType?.startsWith('data-')) {
-              // data-fileDownload parts are handled separately
+              // data-fileDownload parts are handled separately, contextUsage is kept in metadata
               return null;
             }
 
@@ -409,22 +553,79 @@ export async function POST(req: NextRequest) {
           const text = await result.text;
           const reasoning = await result.reasoning;
           const steps = await result.steps;
+          const promptCache = toPromptCacheUsage(await result.totalUsage);
+          console.log(`[Chat] Prompt cache: ${promptCache.cacheReadTokens} read, ${promptCache.cacheWriteTokens} written, ${promptCache.inputTokens} uncached input tokens`);
 
           // Ensure we have at least one part
           if (dbParts.length === 0 && text) {
             dbParts.push({ type: 'text', text });
           }
 
-          const message = await addMessage(conversationId, {
-            role: 'assistant',
-            content: text || '',
-            parts: dbParts.length > 0 ? dbParts : [{ type: 'text', text: text || '' }],
-            metadata: {
-              reasoning: reasoning || null,
-              stepsCount: steps?.length || 0,
-              model: modelId,
-            },
-          });
+          // Keep the server mapping for the MCP tools this message called
+          const mcpTools = Object.fromEntries(
+            dbParts
+              .map((part) => part.toolName as string | undefined)
+              .filter((name): name is string => !!name && !!mcpToolSources[name])
+              .map((name) => [name, mcpToolSources[name]])
+          );
+
+          const metadata = {
+            reasoning: reasoning || null,
+            stepsCount: steps?.length || 0,
+            model: modelId,
+            contextUsage,
+            // Input and output tokens over all steps, with what the prompt cache saved
+            usage: promptCache,
+            // Connectors active for this turn, named as they were at the time
+            ...(mcpConnections.length > 0 && { mcpConnections }),
+            ...(Object.keys(mcpTools).length > 0 && { mcpTools }),
+          };
+
+          let message;
+          if (isApprovalContinuation) {
+            // responseMessage holds the whole turn, from before and after the approvals
+            const existing = await getMessage(responseMessage.id, conversationId);
+            if (!existing) return;
+            message = await saveContinuedMessage(existing.id, {
+              content: dbParts
+                .filter((part) => part.type === 'text')
+                .map((part) => part.text as string)
+                .join('\n\n'),
+              parts: dbParts,
+              metadata,
+            });
+          } else {
+            message = await addMessage(conversationId, {
+              id: responseMessage.id || undefined,
+              parentId: lastUserMessage?.role === 'user' ? lastUserMessage.id : undefined,
+              role: 'assistant',
+              content: text || '',
+              parts: dbParts.length > 0 ? dbParts : [{ type: 'text', text: text || '' }],
+              metadata,
+            });
+          }
+
+          // Generated files belong to this user - the file routes check ownership
+          await recordFiles(
+            fileDownloadParts.map((part) => ({
+              fileId: part.fileId as string,
+              filename: part.filename as string,
+              mimeType: part.mimeType as string,
+              sizeBytes: part.sizeBytes as number,
+            })),
+            { userId: user.id, conversationId, messageId: message?.id }
+          );
+
+          // Keep our own copy so the files outlive the Files API's 30-day expiry
+          for (const part of fileDownloadParts) {
+            const file = await getFileByFileId(part.fileId as string);
+            if (!file || file.userId !== user.id || file.storageKey) continue;
+            try {
+              await cacheFile(user, file);
+            } catch (error) {
+              console.error(`[Chat] Failed to cache file ${file.fileId}:`, error);
+            }
+          }
 
         } catch (error) {
           console.error('[Chat] Error persisting message:', error);
@@ -464,53 +665,23 @@ export async function POST(req: NextRequest) {
 
 // GET endpoint to return available models
 export async function GET() {
-  const models = [
-    {
-      id: 'claude-opus-4-6',
-      name: 'Claude 4.6 Opus',
-      description: 'Most powerful model with adaptive thinking',
-      supportsReasoning: true,
-    },
-    {
-      id: 'claude-sonnet-4-6',
-      name: 'Claude 4.6 Sonnet',
-      description: 'Fast and intelligent with adaptive thinking',
-      supportsReasoning: true,
-    },
-    {
-      id: 'claude-sonnet-4-5-20250929',
-      name: 'Claude 4.5 Sonnet',
-      description: 'Most intelligent, best for complex tasks with extended thinking',
-      supportsReasoning: true,
-    },
-    {
-      id: 'claude-haiku-4-5-20251001',
-      name: 'Claude 4.5 Haiku',
-      description: 'Fast and efficient with thinking capabilities',
-      supportsReasoning: true,
-    },
-    {
-      id: 'claude-opus-4-5-20251101',
-      name: 'Claude 4.5 Opus',
-      description: 'Most capable model for complex reasoning and analysis',
-      supportsReasoning: true,
-    },
-    {
-      id: 'claude-opus-4-20250514',
-      name: 'Claude 4 Opus',
-      description: 'Advanced reasoning and deep analysis',
-      supportsReasoning: true,
-    },
-    {
-      id: 'claude-sonnet-4-20250514',
-      name: 'Claude 4 Sonnet',
-      description: 'Balanced performance with reasoning support',
-      supportsReasoning: true,
-    },
-  ];
+  const models = MODELS.map((model) => {
+    // What a chat request to the model gets, not the model's own maximums
+    const limits = getModelRequestLimits(model.id);
+    return {
+      id: model.id,
+      name: model.name,
+      description: model.description,
+      supportsReasoning: model.thinking !== 'none',
+      contextWindowTokens: limits.contextWindowTokens,
+      maxOutputTokens: limits.maxOutputTokens,
+      supportsVision: model.vision,
+      pricing: model.pricing,
+    };
+  });
 
   return Response.json({
     models,
-    defaultModel: 'claude-sonnet-4-5-20250929'
+    defaultModel: DEFAULT_MODEL_ID
   });
 }
@@ -0,0 +1,108 @@
+/**
+ * Conversation Branches API
+ * GET /api/conversations/[id]/branch - Sibling versions of messages on the active branch
+ * POST /api/conversations/[id]/branch - Switch to the branch through a message
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getConversation,
+  getMessageBranches,
+  switchBranch,
+  toUIMessage,
+} from '@/lib/storage';
+import { requireAuth } from '@/lib/auth-middleware';
+import { validate, SwitchBranchSchema, formatValidationErrors } from '@/lib/validation';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
+
+  try {
+    const { id } = await params;
+
+    const conversation = await getConversation(id);
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+    if (conversation.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Not authorized to access this conversation' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      branches: await getMessageBranches(id, conversation.messages),
+    });
+  } catch (error) {
+    console.error('Error fetching branches:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch branches' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
+
+  try {
+    const { id } = await params;
+
+    const existing = await getConversation(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+    if (existing.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Not authorized to update this conversation' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const validation = validate(SwitchBranchSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: formatValidationErrors(validation.errors!) },
+        { status: 400 }
+      );
+    }
+
+    const switched = await switchBranch(id, validation.data!.messageId);
+    if (!switched) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
+    const conversation = await getConversation(id);
+    const messages = conversation?.messages ?? [];
+
+    return NextResponse.json({
+      messages: messages.map(toUIMessage),
+      branches: await getMessageBranches(id, messages),
+    });
+  } catch (error) {
+    console.error('Error switching branch:', error);
+    return NextResponse.json(
+      { error: 'Failed to switch branch' },
+      { status: 500 }
+    );
+  }
+}
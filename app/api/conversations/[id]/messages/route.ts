@@ -7,6 +7,7 @@ import {
   clearMessages,
   toUIMessage,
 } from '@/lib/storage';
+import { getClientMessageParts, findUnsupportedAttachment, storeAttachments } from '@/lib/attachments';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -85,7 +86,27 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const message = await addMessage(id, { role, content, parts });
+    if (role !== 'user' && role !== 'assistant') {
+      return NextResponse.json(
+        { error: 'Role must be user or assistant' },
+        { status: 400 }
+      );
+    }
+
+    const unsupportedAttachment = findUnsupportedAttachment([{ parts }]);
+    if (unsupportedAttachment) {
+      return NextResponse.json(
+        { error: `Attachment "${unsupportedAttachment}" must be sent inline` },
+        { status: 400 }
+      );
+    }
+
+    // Server-recorded parts (file downloads, tool calls) can't be written from here
+    const message = await addMessage(id, {
+      role,
+      content,
+      parts: await storeAttachments(getClientMessageParts(parts), { userId: user.id, conversationId: id }),
+    });
 
     if (!message) {
       return NextResponse.json(
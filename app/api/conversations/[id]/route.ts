@@ -5,6 +5,8 @@ import {
   deleteConversation,
   toConversationResponse,
   toUIMessage,
+  getMessageBranches,
+  getUserMcpConnections,
 } from '@/lib/storage';
 import { requireAuth } from '@/lib/auth-middleware';
 
@@ -37,9 +39,28 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Connectors used here that have since been deleted, named from the turns that used them
+    const existingMcpIds = new Set((await getUserMcpConnections(user.id)).map((conn) => conn.id));
+    const usedMcpConnections = new Map<string, string>();
+    for (const message of conversation.messages) {
+      const metadata = message.metadata as { mcpConnections?: { id: string; name: string }[] } | null;
+      for (const conn of metadata?.mcpConnections || []) {
+        usedMcpConnections.set(conn.id, conn.name);
+      }
+    }
+    const savedMcpIds = (conversation.activeMcpIds as string[] | null) || [];
+    for (const connId of savedMcpIds) {
+      if (!usedMcpConnections.has(connId)) usedMcpConnections.set(connId, 'Unknown connector');
+    }
+
     return NextResponse.json({
       ...toConversationResponse(conversation),
+      activeMcpIds: savedMcpIds.filter((connId) => existingMcpIds.has(connId)),
+      deletedMcpConnections: [...usedMcpConnections]
+        .filter(([connId]) => !existingMcpIds.has(connId))
+        .map(([connId, name]) => ({ id: connId, name })),
       messages: conversation.messages.map(toUIMessage),
+      branches: await getMessageBranches(id, conversation.messages),
     });
   } catch (error) {
     console.error('Error fetching conversation:', error);
@@ -82,6 +103,8 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       isPinned,
       isShared,
       model,
+      // Unsharing revokes the public link
+      ...(isShared === false ? { shareToken: null, shareExpiresAt: null } : {}),
     });
 
     if (!conversation) {
@@ -0,0 +1,127 @@
+/**
+ * Conversation Sharing API
+ * POST /api/conversations/[id]/share - Create (or refresh) a public share link
+ * DELETE /api/conversations/[id]/share - Revoke the share link
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversation, updateConversation } from '@/lib/storage';
+import { requireAuth } from '@/lib/auth-middleware';
+import { generateToken } from '@/lib/encryption';
+import { validate, ShareConversationSchema, formatValidationErrors } from '@/lib/validation';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
+
+  try {
+    const { id } = await params;
+
+    const existing = await getConversation(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+    if (existing.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Not authorized to share this conversation' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const validation = validate(ShareConversationSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: formatValidationErrors(validation.errors!) },
+        { status: 400 }
+      );
+    }
+    const { expiresInDays } = validation.data!;
+
+    // Keep the existing link stable while it is still valid; issue a new one otherwise
+    const hasValidToken = existing.shareToken &&
+      (!existing.shareExpiresAt || existing.shareExpiresAt > new Date());
+    const shareToken = hasValidToken ? existing.shareToken! : generateToken(32);
+    const shareExpiresAt = expiresInDays
+      ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    const conversation = await updateConversation(id, {
+      isShared: true,
+      shareToken,
+      shareExpiresAt,
+    });
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Failed to share conversation' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      shareToken,
+      sharePath: `/share/${shareToken}`,
+      expiresAt: shareExpiresAt?.toISOString() || null,
+    });
+  } catch (error) {
+    console.error('Error sharing conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to share conversation' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
+
+  try {
+    const { id } = await params;
+
+    const existing = await getConversation(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+    if (existing.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Not authorized to update this conversation' },
+        { status: 403 }
+      );
+    }
+
+    const conversation = await updateConversation(id, {
+      isShared: false,
+      shareToken: null,
+      shareExpiresAt: null,
+    });
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Failed to revoke share link' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,7 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getConversation, updateConversation } from '@/lib/storage';
 import { requireAuth } from '@/lib/auth-middleware';
-import { anthropic } from '@/lib/anthropic';
+import { getAnthropicProvider, MissingAnthropicKeyError } from '@/lib/anthropic';
 import { generateText } from 'ai';
 
 // Generate a concise title for a conversation based on messages
@@ -67,7 +67,8 @@ export async function POST(
 
     const assistantContent = firstAssistantMessage.content?.slice(0, 500) || '';
 
-    // Generate title using Claude (use fast model)
+    // Generate title using Claude (use fast model) on the user's own key
+    const anthropic = getAnthropicProvider(user);
     const { text: generatedTitle } = await generateText({
       model: anthropic('claude-haiku-4-5-20251001'),
       system: 'Generate a concise, descriptive title (3-6 words) for the conversation. The title should capture the main topic or intent. Do not use quotes or punctuation at the end. Only output the title, nothing else.',
@@ -107,6 +108,9 @@ Generate a title:`,
       conversationId: id,
     });
   } catch (error) {
+    if (error instanceof MissingAnthropicKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('Title generation error:', error);
     return NextResponse.json(
       { error: 'Failed to generate title' },
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAuth } from '@/lib/auth-middleware';
-import { getAnthropicFilesClient, inferMimeType } from '@/lib/anthropic-files';
+import { requireAuth, requireFileOwnership } from '@/lib/auth-middleware';
+import { MissingAnthropicKeyError } from '@/lib/anthropic';
+import { readFileContent } from '@/lib/anthropic-files';
 
 export async function GET(
   req: NextRequest,
@@ -8,6 +9,7 @@ export async function GET(
 ) {
   const auth = await requireAuth(req);
   if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
 
   const { fileId } = await params;
 
@@ -16,27 +18,11 @@ export async function GET(
   }
 
   try {
-    const client = getAnthropicFilesClient();
+    const ownership = await requireFileOwnership(user, fileId);
+    if (ownership instanceof NextResponse) return ownership;
 
-    // Get metadata for filename and mime type
-    let filename = 'download';
-    let mimeType = 'application/octet-stream';
-
-    try {
-      const metadata = await client.beta.files.retrieveMetadata(fileId);
-      filename = metadata.filename || 'download';
-      mimeType = metadata.mime_type || inferMimeType(filename);
-    } catch {
-      // If metadata fails, continue with defaults - download may still work
-      console.warn('[Files] Could not fetch metadata for', fileId);
-    }
-
-    // Download the file content
-    const response = await client.beta.files.download(fileId);
-
-    // Get the response as an ArrayBuffer
-    const arrayBuffer = await response.arrayBuffer();
-    const body = Buffer.from(arrayBuffer);
+    // Served from our storage when cached, otherwise from the Files API
+    const { body, filename, mimeType } = await readFileContent(user, ownership.file);
 
     const headers = new Headers({
       'Content-Type': mimeType,
@@ -46,8 +32,11 @@ export async function GET(
       'Content-Length': String(body.byteLength),
     });
 
-    return new Response(body, { status: 200, headers });
+    return new Response(new Uint8Array(body), { status: 200, headers });
   } catch (error: unknown) {
+    if (error instanceof MissingAnthropicKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('[Files] Download error:', error);
     const status = (error as { status?: number })?.status;
     if (status === 404) {
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAuth } from '@/lib/auth-middleware';
-import { getAnthropicFilesClient } from '@/lib/anthropic-files';
+import { requireAuth, requireFileOwnership } from '@/lib/auth-middleware';
 
 export async function GET(
   req: NextRequest,
@@ -8,6 +7,7 @@ export async function GET(
 ) {
   const auth = await requireAuth(req);
   if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
 
   const { fileId } = await params;
 
@@ -16,24 +16,19 @@ export async function GET(
   }
 
   try {
-    const client = getAnthropicFilesClient();
-    const metadata = await client.beta.files.retrieveMetadata(fileId);
+    const ownership = await requireFileOwnership(user, fileId);
+    if (ownership instanceof NextResponse) return ownership;
+    const { file } = ownership;
 
     return NextResponse.json({
-      id: metadata.id,
-      filename: metadata.filename,
-      mime_type: metadata.mime_type,
-      size_bytes: metadata.size_bytes,
+      id: file.fileId,
+      filename: file.filename,
+      mime_type: file.mimeType,
+      size_bytes: file.sizeBytes,
+      cached: !!file.storageKey,
     });
-  } catch (error: unknown) {
+  } catch (error) {
     console.error('[Files] Metadata error:', error);
-    const status = (error as { status?: number })?.status;
-    if (status === 404) {
-      return NextResponse.json({ error: 'File not found' }, { status: 404 });
-    }
-    if (status === 410) {
-      return NextResponse.json({ error: 'File has expired' }, { status: 410 });
-    }
     return NextResponse.json({ error: 'Failed to retrieve file metadata' }, { status: 500 });
   }
 }
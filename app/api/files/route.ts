@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-middleware';
+import { getUserFiles } from '@/lib/storage';
+
+// GET /api/files - List the user's files across all conversations
+export async function GET(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
+
+  try {
+    const files = await getUserFiles(user.id);
+
+    return NextResponse.json(files.map((f) => ({
+      fileId: f.fileId,
+      filename: f.filename,
+      mimeType: f.mimeType,
+      sizeBytes: f.sizeBytes,
+      source: f.source,
+      cached: !!f.storageKey,
+      conversationId: f.conversation?.id || null,
+      conversationTitle: f.conversation?.title || null,
+      createdAt: f.createdAt.toISOString(),
+    })));
+  } catch (error) {
+    console.error('[Files] List error:', error);
+    return NextResponse.json({ error: 'Failed to fetch files' }, { status: 500 });
+  }
+}
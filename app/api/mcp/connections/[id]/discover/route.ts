@@ -1,13 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth-middleware';
-import { getMcpConnection, updateMcpConnection } from '@/lib/storage';
-import { decrypt } from '@/lib/encryption';
-
-interface McpTool {
-  name: string;
-  description?: string;
-  inputSchema?: Record<string, unknown>;
-}
+import { getMcpConnection } from '@/lib/storage';
+import { refreshMcpTools } from '@/lib/mcp-client';
+import { McpAuthorizationError } from '@/lib/mcp-oauth';
 
 // POST /api/mcp/connections/[id]/discover - Discover available tools from MCP server
 export async function POST(
@@ -45,107 +40,8 @@ export async function POST(
       );
     }
 
-    // Prepare headers for authentication
-    // MCP servers require Accept header for both JSON and SSE (Server-Sent Events)
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json, text/event-stream',
-    };
-
-    if (connection.authCredentialsEncrypted) {
-      try {
-        const credentials = JSON.parse(decrypt(connection.authCredentialsEncrypted));
-
-        if (connection.authType === 'api_key' && credentials.apiKey) {
-          headers['Authorization'] = `Bearer ${credentials.apiKey}`;
-        }
-      } catch (decryptError) {
-        console.error('Error decrypting credentials:', decryptError);
-      }
-    }
-
-    // Helper function to parse SSE or JSON response
-    const parseResponse = async (response: Response): Promise<unknown> => {
-      const contentType = response.headers.get('content-type') || '';
-
-      if (contentType.includes('application/json')) {
-        return response.json();
-      }
-
-      if (contentType.includes('text/event-stream')) {
-        const text = await response.text();
-        const lines = text.split('\n');
-        let lastData: unknown = null;
-
-        for (const line of lines) {
-          if (line.startsWith('data:')) {
-            const jsonStr = line.slice(5).trim();
-            if (jsonStr && jsonStr !== '[DONE]') {
-              try {
-                lastData = JSON.parse(jsonStr);
-              } catch {
-                // Skip non-JSON data lines
-              }
-            }
-          }
-        }
-
-        if (lastData) return lastData;
-        throw new Error('No valid JSON-RPC response in SSE stream');
-      }
-
-      return response.json();
-    };
-
     try {
-      // Add session ID to headers if available (required for stateful MCP servers)
-      if (connection.sessionId) {
-        headers['Mcp-Session-Id'] = connection.sessionId;
-        console.log('[MCP Discover] Using session ID:', connection.sessionId);
-      }
-
-      // Send tools/list request via JSON-RPC
-      const response = await fetch(connection.serverUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: 2,
-          method: 'tools/list',
-          params: {},
-        }),
-        signal: AbortSignal.timeout(10000),
-      });
-
-      if (!response.ok) {
-        return NextResponse.json({
-          success: false,
-          error: `Server returned ${response.status}`,
-        });
-      }
-
-      const result = await parseResponse(response) as { error?: { message?: string }; result?: { tools?: McpTool[] } };
-
-      if (result.error) {
-        return NextResponse.json({
-          success: false,
-          error: result.error.message || 'Failed to list tools',
-        });
-      }
-
-      // Extract tools from response
-      const tools: McpTool[] = result.result?.tools || [];
-
-      // Store discovered tools with full schema for AI SDK conversion
-      const toolsWithSchema = tools.map((tool) => ({
-        name: tool.name,
-        description: tool.description || '',
-        inputSchema: tool.inputSchema || { type: 'object', properties: {} },
-      }));
-
-      await updateMcpConnection(id, {
-        availableTools: toolsWithSchema,
-      });
+      const tools = await refreshMcpTools(id);
 
       return NextResponse.json({
         success: true,
@@ -154,12 +50,17 @@ export async function POST(
           description: tool.description,
         })),
       });
-    } catch (fetchError) {
-      const errorMessage = fetchError instanceof Error ? fetchError.message : 'Discovery failed';
+    } catch (discoverError) {
+      if (discoverError instanceof McpAuthorizationError) {
+        return NextResponse.json(
+          { error: discoverError.message, status: 'needs_auth' },
+          { status: 401 }
+        );
+      }
 
       return NextResponse.json({
         success: false,
-        error: errorMessage,
+        error: discoverError instanceof Error ? discoverError.message : 'Discovery failed',
       });
     }
   } catch (error) {
@@ -0,0 +1,103 @@
+/**
+ * MCP Connection Health API
+ * GET /api/mcp/connections/[id]/health - Recent health checks, newest first
+ * POST /api/mcp/connections/[id]/health - Run a health check now
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-middleware';
+import { getMcpConnection, getMcpHealthChecks, type McpHealthCheck } from '@/lib/storage';
+import { checkMcpConnection } from '@/lib/mcp-health';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+function toHealthCheckResponse(check: McpHealthCheck) {
+  return {
+    id: check.id,
+    status: check.status,
+    latencyMs: check.latencyMs,
+    error: check.error,
+    toolCount: check.toolCount,
+    toolsChanged: check.toolsChanged,
+    checkedAt: check.checkedAt.toISOString(),
+  };
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
+
+  try {
+    const { id } = await params;
+    const connection = await getMcpConnection(id);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'MCP connection not found' },
+        { status: 404 }
+      );
+    }
+
+    if (connection.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Not authorized to access this MCP connection' },
+        { status: 403 }
+      );
+    }
+
+    const checks = await getMcpHealthChecks(id);
+    return NextResponse.json({ checks: checks.map(toHealthCheckResponse) });
+  } catch (error) {
+    console.error('Error fetching MCP health checks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch health checks' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
+
+  try {
+    const { id } = await params;
+    const connection = await getMcpConnection(id);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'MCP connection not found' },
+        { status: 404 }
+      );
+    }
+
+    if (connection.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Not authorized to access this MCP connection' },
+        { status: 403 }
+      );
+    }
+
+    // Disconnected connections were turned off on purpose; OAuth ones need the user first
+    if (connection.status !== 'connected' && connection.status !== 'error') {
+      return NextResponse.json(
+        { error: 'Connect this connection before checking its health' },
+        { status: 400 }
+      );
+    }
+
+    await checkMcpConnection(connection);
+    const checks = await getMcpHealthChecks(id);
+    return NextResponse.json({ checks: checks.map(toHealthCheckResponse) });
+  } catch (error) {
+    console.error('Error checking MCP connection health:', error);
+    return NextResponse.json(
+      { error: 'Failed to check connection health' },
+      { status: 500 }
+    );
+  }
+}
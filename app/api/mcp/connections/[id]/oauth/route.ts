@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-middleware';
+import { getMcpConnection } from '@/lib/storage';
+import { startMcpAuthorization, getMcpOAuthRedirectUri } from '@/lib/mcp-oauth';
+
+// POST /api/mcp/connections/[id]/oauth - Start the OAuth authorization flow for a connection
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Require authentication
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
+
+  try {
+    const { id } = await params;
+    const connection = await getMcpConnection(id);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'MCP connection not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify ownership
+    if (connection.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Not authorized to access this MCP connection' },
+        { status: 403 }
+      );
+    }
+
+    if (connection.authType !== 'oauth') {
+      return NextResponse.json(
+        { error: 'This connection does not use OAuth' },
+        { status: 400 }
+      );
+    }
+
+    const authorizationUrl = await startMcpAuthorization(connection, getMcpOAuthRedirectUri(req.url));
+
+    return NextResponse.json({ authorizationUrl });
+  } catch (error) {
+    console.error('Error starting MCP authorization:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start authorization' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * MCP Connection Prompts API
+ * GET /api/mcp/connections/[id]/prompts - List the server's prompts
+ * POST /api/mcp/connections/[id]/prompts - Get a prompt, expanded into chat messages
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-middleware';
+import { getMcpConnection } from '@/lib/storage';
+import { McpClient, McpRequestError, type McpPromptMessage } from '@/lib/mcp-client';
+import { validate, GetMcpPromptSchema, formatValidationErrors } from '@/lib/validation';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+function resourceFilename(uri: string): string {
+  return uri.split(/[/\\]/).filter(Boolean).pop() || 'resource';
+}
+
+/**
+ * Convert MCP prompt content into UIMessage parts - text stays text,
+ * binary and embedded resources become inline file attachments
+ */
+function toMessageParts(content: McpPromptMessage['content']) {
+  switch (content.type) {
+    case 'text':
+      return [{ type: 'text', text: content.text }];
+    case 'image':
+    case 'audio':
+      return [{
+        type: 'file',
+        mediaType: content.mimeType,
+        url: `data:${content.mimeType};base64,${content.data}`,
+      }];
+    case 'resource': {
+      const { uri, mimeType, text, blob } = content.resource;
+      const mediaType = mimeType || 'text/plain';
+      const data = blob ?? Buffer.from(text || '', 'utf-8').toString('base64');
+      return [{
+        type: 'file',
+        mediaType,
+        filename: resourceFilename(uri),
+        url: `data:${mediaType};base64,${data}`,
+      }];
+    }
+    case 'resource_link':
+      return [{ type: 'text', text: `[${content.name || content.uri}](${content.uri})` }];
+    default:
+      return [];
+  }
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
+
+  try {
+    const { id } = await params;
+    const connection = await getMcpConnection(id);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'MCP connection not found' },
+        { status: 404 }
+      );
+    }
+
+    if (connection.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Not authorized to access this MCP connection' },
+        { status: 403 }
+      );
+    }
+
+    const client = await McpClient.forConnection(id);
+    return NextResponse.json({
+      connection: { id: connection.id, name: connection.name },
+      prompts: await client.listPrompts(),
+    });
+  } catch (error) {
+    console.error('Error listing MCP prompts:', error);
+    return NextResponse.json(
+      { error: error instanceof McpRequestError ? error.message : 'Failed to list prompts' },
+      { status: error instanceof McpRequestError ? 502 : 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
+
+  try {
+    const { id } = await params;
+    const connection = await getMcpConnection(id);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'MCP connection not found' },
+        { status: 404 }
+      );
+    }
+
+    if (connection.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Not authorized to access this MCP connection' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const validation = validate(GetMcpPromptSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: formatValidationErrors(validation.errors!) },
+        { status: 400 }
+      );
+    }
+
+    const { name, arguments: args = {} } = validation.data!;
+    const client = await McpClient.forConnection(id);
+    const prompt = await client.getPrompt(name, args);
+
+    // Consecutive messages from the same role are merged, so the chat alternates as the model expects
+    const messages: { role: 'user' | 'assistant'; parts: unknown[] }[] = [];
+    for (const message of prompt.messages) {
+      const parts = toMessageParts(message.content);
+      const previous = messages[messages.length - 1];
+      if (previous?.role === message.role) {
+        previous.parts.push(...parts);
+      } else {
+        messages.push({ role: message.role, parts });
+      }
+    }
+
+    return NextResponse.json({ description: prompt.description, messages });
+  } catch (error) {
+    console.error('Error getting MCP prompt:', error);
+    return NextResponse.json(
+      { error: error instanceof McpRequestError ? error.message : 'Failed to get prompt' },
+      { status: error instanceof McpRequestError ? 502 : 500 }
+    );
+  }
+}
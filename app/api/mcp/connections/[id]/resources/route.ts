@@ -0,0 +1,94 @@
+/**
+ * MCP Connection Resources API
+ * GET /api/mcp/connections/[id]/resources - List resources and resource templates
+ * POST /api/mcp/connections/[id]/resources - Read a resource by URI
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-middleware';
+import { getMcpConnection } from '@/lib/storage';
+import { McpClient, McpRequestError } from '@/lib/mcp-client';
+import { validate, ReadMcpResourceSchema, formatValidationErrors } from '@/lib/validation';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
+
+  try {
+    const { id } = await params;
+    const connection = await getMcpConnection(id);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'MCP connection not found' },
+        { status: 404 }
+      );
+    }
+
+    if (connection.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Not authorized to access this MCP connection' },
+        { status: 403 }
+      );
+    }
+
+    const client = await McpClient.forConnection(id);
+    return NextResponse.json(await client.listResources());
+  } catch (error) {
+    console.error('Error listing MCP resources:', error);
+    return NextResponse.json(
+      { error: error instanceof McpRequestError ? error.message : 'Failed to list resources' },
+      { status: error instanceof McpRequestError ? 502 : 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
+
+  try {
+    const { id } = await params;
+    const connection = await getMcpConnection(id);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'MCP connection not found' },
+        { status: 404 }
+      );
+    }
+
+    if (connection.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Not authorized to access this MCP connection' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const validation = validate(ReadMcpResourceSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: formatValidationErrors(validation.errors!) },
+        { status: 400 }
+      );
+    }
+
+    const client = await McpClient.forConnection(id);
+    const contents = await client.readResource(validation.data!.uri);
+
+    return NextResponse.json({ contents });
+  } catch (error) {
+    console.error('Error reading MCP resource:', error);
+    return NextResponse.json(
+      { error: error instanceof McpRequestError ? error.message : 'Failed to read resource' },
+      { status: error instanceof McpRequestError ? 502 : 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth-middleware';
 import { getMcpConnection, updateMcpConnection, deleteMcpConnection } from '@/lib/storage';
+import { clearedOAuthState } from '@/lib/mcp-oauth';
+import { McpTimeoutSecondsSchema, McpToolPoliciesSchema } from '@/lib/validation';
 
 // GET /api/mcp/connections/[id] - Get a single MCP connection
 export async function GET(
@@ -35,12 +37,15 @@ export async function GET(
       id: connection.id,
       name: connection.name,
       serverUrl: connection.serverUrl,
+      transport: connection.transport,
       authType: connection.authType,
       status: connection.status,
       lastError: connection.lastError,
       isActive: connection.isActive,
       availableTools: connection.availableTools,
       lastConnectedAt: connection.lastConnectedAt?.toISOString() || null,
+      timeoutSeconds: connection.timeoutSeconds,
+      toolPolicies: connection.toolPolicies,
     });
   } catch (error) {
     console.error('Error fetching MCP connection:', error);
@@ -82,7 +87,7 @@ export async function PATCH(
     }
 
     // Filter allowed update fields
-    const allowedFields = ['name', 'serverUrl', 'status', 'isActive', 'lastError', 'availableTools', 'lastConnectedAt'];
+    const allowedFields = ['name', 'serverUrl', 'status', 'isActive', 'lastError', 'availableTools', 'lastConnectedAt', 'timeoutSeconds', 'toolPolicies'];
     const updateData: Record<string, unknown> = {};
 
     for (const field of allowedFields) {
@@ -91,6 +96,36 @@ export async function PATCH(
       }
     }
 
+    if (
+      updateData.timeoutSeconds !== undefined &&
+      !McpTimeoutSecondsSchema.nullable().safeParse(updateData.timeoutSeconds).success
+    ) {
+      return NextResponse.json(
+        { error: 'Timeout must be a whole number of seconds between 5 and 600' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      updateData.toolPolicies !== undefined &&
+      !McpToolPoliciesSchema.safeParse(updateData.toolPolicies).success
+    ) {
+      return NextResponse.json(
+        { error: 'Tool policies must map tool names to allow, ask or never' },
+        { status: 400 }
+      );
+    }
+
+    // Local servers are defined by the admin, not by their URL
+    if (connection.transport === 'stdio') {
+      delete updateData.serverUrl;
+    }
+
+    // OAuth tokens are bound to the server they were issued for
+    if (updateData.serverUrl !== undefined && updateData.serverUrl !== connection.serverUrl) {
+      Object.assign(updateData, clearedOAuthState());
+    }
+
     const updated = await updateMcpConnection(id, updateData);
 
     if (!updated) {
@@ -104,12 +139,15 @@ export async function PATCH(
       id: updated.id,
       name: updated.name,
       serverUrl: updated.serverUrl,
+      transport: updated.transport,
       authType: updated.authType,
       status: updated.status,
       lastError: updated.lastError,
       isActive: updated.isActive,
       availableTools: updated.availableTools,
       lastConnectedAt: updated.lastConnectedAt?.toISOString() || null,
+      timeoutSeconds: updated.timeoutSeconds,
+      toolPolicies: updated.toolPolicies,
     });
   } catch (error) {
     console.error('Error updating MCP connection:', error);
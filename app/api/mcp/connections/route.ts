@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createMcpConnection, getUserMcpConnections } from '@/lib/storage';
 import { encrypt } from '@/lib/encryption';
 import { requireAuth } from '@/lib/auth-middleware';
+import { McpTimeoutSecondsSchema } from '@/lib/validation';
+import { getStdioMcpServer } from '@/lib/mcp-stdio';
 
 // GET /api/mcp/connections - List all MCP connections for user
 export async function GET(req: NextRequest) {
@@ -17,12 +19,15 @@ export async function GET(req: NextRequest) {
       id: conn.id,
       name: conn.name,
       serverUrl: conn.serverUrl,
+      transport: conn.transport,
       authType: conn.authType,
       status: conn.status,
       lastError: conn.lastError,
       isActive: conn.isActive,
       availableTools: conn.availableTools,
       lastConnectedAt: conn.lastConnectedAt?.toISOString() || null,
+      timeoutSeconds: conn.timeoutSeconds,
+      toolPolicies: conn.toolPolicies,
     }));
 
     return NextResponse.json(response);
@@ -43,7 +48,47 @@ export async function POST(req: NextRequest) {
 
   try {
     const body = await req.json();
-    const { name, serverUrl, authType, oauthClientId, oauthClientSecret, apiKey } = body;
+    const { name, serverUrl, authType, oauthClientId, oauthClientSecret, apiKey, timeoutSeconds, stdioServer } = body;
+
+    // Enable one of the admin-defined local servers for this user
+    if (stdioServer !== undefined) {
+      const server = typeof stdioServer === 'string' ? getStdioMcpServer(stdioServer) : undefined;
+      if (!server) {
+        return NextResponse.json(
+          { error: 'Unknown local MCP server' },
+          { status: 400 }
+        );
+      }
+
+      const existing = await getUserMcpConnections(user.id);
+      if (existing.some((conn) => conn.stdioServer === server.id)) {
+        return NextResponse.json(
+          { error: 'This server is already enabled' },
+          { status: 409 }
+        );
+      }
+
+      const connection = await createMcpConnection({
+        userId: user.id,
+        name: server.name,
+        serverUrl: `stdio://${server.id}`,
+        transport: 'stdio',
+        stdioServer: server.id,
+        timeoutSeconds: server.timeoutSeconds,
+      });
+
+      return NextResponse.json({
+        id: connection.id,
+        name: connection.name,
+        serverUrl: connection.serverUrl,
+        transport: connection.transport,
+        authType: connection.authType,
+        status: connection.status,
+        isActive: connection.isActive,
+        timeoutSeconds: connection.timeoutSeconds,
+        toolPolicies: connection.toolPolicies,
+      }, { status: 201 });
+    }
 
     // Validate required fields
     if (!name || !serverUrl) {
@@ -63,6 +108,13 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (timeoutSeconds !== undefined && !McpTimeoutSecondsSchema.safeParse(timeoutSeconds).success) {
+      return NextResponse.json(
+        { error: 'Timeout must be a whole number of seconds between 5 and 600' },
+        { status: 400 }
+      );
+    }
+
     // Encrypt credentials if provided
     let encryptedCredentials: string | undefined;
     if (authType === 'oauth' && oauthClientId && oauthClientSecret) {
@@ -80,15 +132,19 @@ export async function POST(req: NextRequest) {
       serverUrl,
       authType: authType || 'none',
       authCredentialsEncrypted: encryptedCredentials,
+      timeoutSeconds,
     });
 
     return NextResponse.json({
       id: connection.id,
       name: connection.name,
       serverUrl: connection.serverUrl,
+      transport: connection.transport,
       authType: connection.authType,
       status: connection.status,
       isActive: connection.isActive,
+      timeoutSeconds: connection.timeoutSeconds,
+      toolPolicies: connection.toolPolicies,
     }, { status: 201 });
   } catch (error) {
     console.error('Error creating MCP connection:', error);
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { completeMcpAuthorization } from '@/lib/mcp-oauth';
+
+/**
+ * Page returned to the authorization popup: reports the result to the
+ * settings window that opened it, or falls back to the chat page
+ */
+function callbackPage(result: { success: boolean; connectionId?: string; error?: string }) {
+  // Escape "<" so values can't close the script tag
+  const payload = JSON.stringify({ type: 'mcp-oauth', ...result }).replace(/</g, '\\u003c');
+  const html = `<!DOCTYPE html>
+<html>
+<head><title>${result.success ? 'Connected' : 'Authorization failed'}</title></head>
+<body>
+<p>${result.success ? 'Authorization complete. You can close this window.' : 'Authorization failed. You can close this window and try again.'}</p>
+<script>
+  var result = ${payload};
+  if (window.opener) {
+    window.opener.postMessage(result, window.location.origin);
+    window.close();
+  } else {
+    window.location.replace('/chat');
+  }
+</script>
+</body>
+</html>`;
+  return new NextResponse(html, {
+    status: result.success ? 200 : 400,
+    headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' },
+  });
+}
+
+// GET /api/mcp/oauth/callback - Redirect target of the MCP OAuth authorization flow
+// Public: the state parameter identifies the connection and is verified against the pending authorization
+export async function GET(req: NextRequest) {
+  const code = req.nextUrl.searchParams.get('code');
+  const state = req.nextUrl.searchParams.get('state');
+  const oauthError = req.nextUrl.searchParams.get('error');
+
+  if (oauthError) {
+    const description = req.nextUrl.searchParams.get('error_description');
+    return callbackPage({ success: false, error: description || oauthError });
+  }
+
+  if (!code || !state) {
+    return callbackPage({ success: false, error: 'Missing authorization code' });
+  }
+
+  try {
+    const connectionId = await completeMcpAuthorization(state, code);
+    return callbackPage({ success: true, connectionId });
+  } catch (error) {
+    console.error('[MCP OAuth] Callback error:', error);
+    return callbackPage({
+      success: false,
+      error: error instanceof Error ? error.message : 'Authorization failed',
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-middleware';
+import { getUserMcpConnections } from '@/lib/storage';
+import { getStdioMcpServers } from '@/lib/mcp-stdio';
+
+// GET /api/mcp/stdio-servers - Local MCP servers the admin made available, and which ones the user enabled
+export async function GET(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
+
+  try {
+    const connections = await getUserMcpConnections(user.id);
+
+    // Commands and environment stay on the server
+    const response = getStdioMcpServers().map((server) => ({
+      id: server.id,
+      name: server.name,
+      description: server.description || null,
+      connectionId: connections.find((conn) => conn.stdioServer === server.id)?.id || null,
+    }));
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching local MCP servers:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch local MCP servers' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-middleware';
+import { searchConversations } from '@/lib/storage';
+import { validate, SearchQuerySchema, formatValidationErrors } from '@/lib/validation';
+
+// GET /api/search?q=... - Full-text search over the user's conversations and messages
+// Optional filters: model, from, to (ISO dates), hasArtifacts, hasFiles, limit
+export async function GET(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return auth;
+  const { user } = auth;
+
+  try {
+    const params = Object.fromEntries(
+      [...req.nextUrl.searchParams.entries()].filter(([, value]) => value !== '')
+    );
+    const validation = validate(SearchQuerySchema, params);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: formatValidationErrors(validation.errors!) },
+        { status: 400 }
+      );
+    }
+
+    const { q, ...filters } = validation.data!;
+    const results = await searchConversations(user.id, q, filters);
+
+    return NextResponse.json({
+      results: results.map((r) => ({
+        ...r,
+        rank: Number(r.rank),
+        createdAt: r.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('[Search] Error:', error);
+    return NextResponse.json({ error: 'Search failed' }, { status: 500 });
+  }
+}
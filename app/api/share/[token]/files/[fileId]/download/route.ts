@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversationByShareToken, getFileByFileId } from '@/lib/storage';
+import { MissingAnthropicKeyError } from '@/lib/anthropic';
+import {
+  getAnthropicFilesClient,
+  inferMimeType,
+  readFileContent,
+  type FileContent,
+} from '@/lib/anthropic-files';
+import type { User } from '@/lib/storage';
+
+// Files generated before ownership was recorded only exist in the Files API
+async function downloadFromFilesApi(
+  owner: User,
+  fileId: string,
+  filePart: Record<string, unknown>
+): Promise<FileContent> {
+  const filename = (filePart.filename as string) || 'download';
+  const response = await getAnthropicFilesClient(owner).beta.files.download(fileId);
+  return {
+    body: Buffer.from(await response.arrayBuffer()),
+    filename,
+    mimeType: (filePart.mimeType as string) || inferMimeType(filename),
+  };
+}
+
+// GET /api/share/[token]/files/[fileId]/download - Download a generated file from a shared conversation (no auth)
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ token: string; fileId: string }> }
+) {
+  const { token, fileId } = await params;
+
+  if (!fileId || !/^[a-zA-Z0-9_-]+$/.test(fileId)) {
+    return NextResponse.json({ error: 'Invalid file ID format' }, { status: 400 });
+  }
+
+  try {
+    const conversation = await getConversationByShareToken(token);
+
+    if (!conversation || !conversation.isShared) {
+      return NextResponse.json({ error: 'Shared conversation not found' }, { status: 404 });
+    }
+    if (conversation.shareExpiresAt && conversation.shareExpiresAt < new Date()) {
+      return NextResponse.json({ error: 'This share link has expired' }, { status: 410 });
+    }
+
+    // Only files that were delivered in this conversation can be downloaded through the link
+    const filePart = conversation.messages
+      .filter((m) => m.role === 'assistant')
+      .flatMap((m) => (Array.isArray(m.parts) ? m.parts as Array<Record<string, unknown>> : []))
+      .find((p) => p?.type === 'file-download' && p.fileId === fileId);
+
+    if (!filePart) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    // Files belong to the owner - read our copy, or the owner's API workspace
+    const file = await getFileByFileId(fileId);
+    const { body, filename, mimeType } = file && file.userId === conversation.userId
+      ? await readFileContent(conversation.user, file)
+      : await downloadFromFilesApi(conversation.user, fileId, filePart);
+
+    const headers = new Headers({
+      'Content-Type': mimeType,
+      'Content-Disposition': /^[\x20-\x7E]+$/.test(filename)
+        ? `attachment; filename="${filename.replace(/"/g, '\\"')}"`
+        : `attachment; filename="${filename.replace(/"/g, '\\"')}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      'Content-Length': String(body.byteLength),
+    });
+
+    return new Response(new Uint8Array(body), { status: 200, headers });
+  } catch (error: unknown) {
+    if (error instanceof MissingAnthropicKeyError) {
+      return NextResponse.json({ error: 'File is no longer available' }, { status: 404 });
+    }
+    console.error('[Share] Download error:', error);
+    const status = (error as { status?: number })?.status;
+    if (status === 404) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    if (status === 410) {
+      return NextResponse.json({ error: 'File has expired. Files are only available for 30 days after creation.' }, { status: 410 });
+    }
+    return NextResponse.json({ error: 'Failed to download file' }, { status: 500 });
+  }
+}
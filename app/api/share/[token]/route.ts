@@ -0,0 +1,63 @@
+/**
+ * Public Shared Conversation API
+ * GET /api/share/[token] - Read-only view of a shared conversation (no auth)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversationByShareToken, toUIMessage } from '@/lib/storage';
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+// Connector ids and names stay private - shared messages only keep their model
+function toSharedMessage(message: Parameters<typeof toUIMessage>[0]) {
+  const uiMessage = toUIMessage(message);
+  const model = uiMessage.metadata?.model;
+  return { ...uiMessage, metadata: typeof model === 'string' ? { model } : undefined };
+}
+
+export async function GET(_req: NextRequest, { params }: RouteParams) {
+  try {
+    const { token } = await params;
+
+    if (!token || !/^[a-f0-9]{64}$/.test(token)) {
+      return NextResponse.json(
+        { error: 'Shared conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const conversation = await getConversationByShareToken(token);
+
+    if (!conversation || !conversation.isShared) {
+      return NextResponse.json(
+        { error: 'Shared conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    if (conversation.shareExpiresAt && conversation.shareExpiresAt < new Date()) {
+      return NextResponse.json(
+        { error: 'This share link has expired' },
+        { status: 410 }
+      );
+    }
+
+    // Only expose what the read-only view needs - no ids tied to the owner's account
+    return NextResponse.json({
+      title: conversation.title,
+      model: conversation.model,
+      sharedBy: conversation.user.name || null,
+      createdAt: conversation.createdAt.toISOString(),
+      expiresAt: conversation.shareExpiresAt?.toISOString() || null,
+      messages: conversation.messages.map(toSharedMessage),
+    });
+  } catch (error) {
+    console.error('Error fetching shared conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch shared conversation' },
+      { status: 500 }
+    );
+  }
+}
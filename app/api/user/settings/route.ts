@@ -1,5 +1,6 @@
 import { getSessionByToken, updateUser } from '@/lib/storage';
 import { encrypt } from '@/lib/encryption';
+import { validate, CustomInstructionsSchema, formatValidationErrors } from '@/lib/validation';
 
 // Helper to get user from request
 async function getUserFromRequest(req: Request) {
@@ -35,6 +36,7 @@ export async function GET(req: Request) {
       avatarUrl: user.avatarUrl,
       hasAnthropicApiKey: !!user.anthropicApiKeyEncrypted,
       preferences: user.preferences,
+      customInstructions: user.customInstructions || '',
     });
   } catch (error) {
     console.error('Get settings error:', error);
@@ -57,7 +59,7 @@ export async function PATCH(req: Request) {
     }
 
     const body = await req.json();
-    const { name, avatarUrl, anthropicApiKey, preferences } = body;
+    const { name, avatarUrl, anthropicApiKey, preferences, customInstructions } = body;
 
     // Build update object
     const updates: Record<string, unknown> = {};
@@ -66,6 +68,17 @@ export async function PATCH(req: Request) {
     if (avatarUrl !== undefined) updates.avatarUrl = avatarUrl;
     if (preferences !== undefined) updates.preferences = preferences;
 
+    if (customInstructions !== undefined) {
+      const validation = validate(CustomInstructionsSchema, customInstructions ?? '');
+      if (!validation.success) {
+        return Response.json(
+          { error: formatValidationErrors(validation.errors!) },
+          { status: 400 }
+        );
+      }
+      updates.customInstructions = validation.data!.trim() || null;
+    }
+
     // Encrypt Anthropic API key if provided
     if (anthropicApiKey !== undefined) {
       updates.anthropicApiKeyEncrypted = anthropicApiKey ? encrypt(anthropicApiKey) : null;
@@ -86,6 +99,7 @@ export async function PATCH(req: Request) {
       avatarUrl: updatedUser.avatarUrl,
       hasAnthropicApiKey: !!updatedUser.anthropicApiKeyEncrypted,
       preferences: updatedUser.preferences,
+      customInstructions: updatedUser.customInstructions || '',
     });
   } catch (error) {
     console.error('Update settings error:', error);
@@ -0,0 +1,11 @@
+import { Suspense } from "react"
+import { ResetPasswordPage } from "@/components/reset-password-page"
+
+export default function Page() {
+  // useSearchParams needs a Suspense boundary to prerender
+  return (
+    <Suspense>
+      <ResetPasswordPage />
+    </Suspense>
+  )
+}
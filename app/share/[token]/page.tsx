@@ -0,0 +1,10 @@
+import { SharedConversation } from "@/components/shared-conversation"
+
+export default async function SharedConversationPage({
+  params,
+}: {
+  params: Promise<{ token: string }>
+}) {
+  const { token } = await params
+  return <SharedConversation token={token} />
+}
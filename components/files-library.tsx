@@ -0,0 +1,136 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, Files, MessageSquare, Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { FileCard } from "@/components/prompt-kit/file-card"
+import { ConversationListSkeleton } from "@/components/ui/skeleton-loaders"
+
+const AUTH_TOKEN_KEY = "llmatscale_auth_token"
+
+interface LibraryFile {
+  fileId: string
+  filename: string
+  mimeType: string | null
+  sizeBytes: number | null
+  source: string
+  cached: boolean
+  conversationId: string | null
+  conversationTitle: string | null
+  createdAt: string
+}
+
+/**
+ * Per-user list of every file generated or uploaded across conversations
+ */
+export function FilesLibrary() {
+  const router = useRouter()
+  const [files, setFiles] = useState<LibraryFile[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [query, setQuery] = useState("")
+
+  useEffect(() => {
+    async function loadFiles() {
+      try {
+        const token = localStorage.getItem(AUTH_TOKEN_KEY) || ""
+        const response = await fetch("/api/files", {
+          headers: { Authorization: `Bearer ${token}` },
+        })
+        if (response.status === 401) {
+          window.location.href = "/"
+          return
+        }
+        if (!response.ok) {
+          setError("Failed to load files")
+          return
+        }
+        setFiles(await response.json())
+      } catch (err) {
+        console.error("Error loading files:", err)
+        setError("Failed to load files")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    loadFiles()
+  }, [])
+
+  const filteredFiles = useMemo(() => {
+    const q = query.trim().toLowerCase()
+    if (!q) return files
+    return files.filter((f) =>
+      f.filename.toLowerCase().includes(q) ||
+      f.conversationTitle?.toLowerCase().includes(q)
+    )
+  }, [files, query])
+
+  return (
+    <div className="h-svh overflow-y-auto">
+      <div className="mx-auto w-full max-w-3xl px-6 py-10">
+        <div className="mb-6 flex items-center gap-3">
+          <Button variant="ghost" size="icon" className="size-8" onClick={() => router.push("/chat")}>
+            <ArrowLeft className="size-4" />
+            <span className="sr-only">Back to chat</span>
+          </Button>
+          <h1 className="text-xl font-medium">Files</h1>
+        </div>
+
+        <div className="relative mb-6">
+          <Search className="absolute left-3 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search files"
+            className="pl-9"
+          />
+        </div>
+
+        {isLoading ? (
+          <ConversationListSkeleton count={6} />
+        ) : error ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">{error}</p>
+        ) : filteredFiles.length === 0 ? (
+          <div className="flex flex-col items-center gap-3 py-16 text-center text-muted-foreground">
+            <Files className="size-8" />
+            <p className="text-sm">
+              {files.length === 0 ? "Files Claude creates in your chats will appear here" : "No files match your search"}
+            </p>
+          </div>
+        ) : (
+          <ul className="space-y-1">
+            {filteredFiles.map((file) => (
+              <li key={file.fileId}>
+                <FileCard
+                  fileId={file.fileId}
+                  filename={file.filename}
+                  mimeType={file.mimeType || undefined}
+                  sizeBytes={file.sizeBytes || undefined}
+                  className="my-0 max-w-none"
+                />
+                <div className="flex items-center gap-2 px-1 pb-3 pt-1 text-xs text-muted-foreground">
+                  <span>{new Date(file.createdAt).toLocaleDateString()}</span>
+                  {file.conversationId && (
+                    <>
+                      <span className="opacity-50">·</span>
+                      <button
+                        type="button"
+                        className="flex min-w-0 items-center gap-1 hover:text-foreground transition-colors"
+                        onClick={() => router.push(`/chat?conversation=${file.conversationId}`)}
+                      >
+                        <MessageSquare className="size-3 shrink-0" />
+                        <span className="truncate">{file.conversationTitle || "Untitled conversation"}</span>
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -18,6 +18,9 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 // Tooltip imports removed - now handled by ClaudeChatInput
@@ -40,22 +43,29 @@ import {
 } from "@/components/ui/sidebar"
 import { cn } from "@/lib/utils"
 import { useChat } from "@ai-sdk/react"
-import { type UIMessage, DefaultChatTransport } from "ai"
+import { type FileUIPart, type UIMessage, DefaultChatTransport, generateId, lastAssistantMessageIsCompleteWithApprovalResponses } from "ai"
 import {
   BookOpen,
+  ChevronLeft,
+  ChevronRight,
   ChevronUp,
   Code2,
   Copy,
+  Files,
   FolderOpen,
   Home,
+  Link2Off,
   LogOut,
   MessageSquare,
   MoreHorizontal,
+  Paperclip,
   Pencil,
   Pin,
   PinOff,
   Plug,
   Plus,
+  RotateCcw,
+  Search,
   Settings,
   Share2,
   ThumbsDown,
@@ -87,8 +97,13 @@ import { StreamingText } from "@/components/prompt-kit/streaming-text"
 import { Markdown } from "@/components/prompt-kit/markdown"
 import { ToolTimeline } from "@/components/prompt-kit/tool-timeline"
 import { FileCard } from "@/components/prompt-kit/file-card"
-import { ClaudeChatInput, type ClaudeChatInputHandle } from "@/components/ui/claude-style-chat-input"
+import { ClaudeChatInput, type ClaudeChatInputHandle, type AttachedFile, type SlashCommand } from "@/components/ui/claude-style-chat-input"
+import { inferMimeType } from "@/lib/file-utils"
+import type { ContextWindowUsage } from "@/lib/context-window"
+import { getOrderedMessageSegments, groupConsecutiveTools, getReasoningParts } from "@/lib/message-segments"
 import { SettingsModal } from "@/components/settings-modal"
+import { SearchDialog, type SearchResult } from "@/components/search-dialog"
+import { McpResourcePicker } from "@/components/mcp/mcp-resource-picker"
 // Image import removed - welcome state no longer uses logo
 
 // Time-based greeting helper
@@ -144,12 +159,21 @@ interface Conversation {
   title: string
   isPinned: boolean
   isShared: boolean
+  shareToken?: string | null
+  shareExpiresAt?: string | null
   model: string
   createdAt: string
   updatedAt: string
   lastMessage: string | null
 }
 
+// Prompt offered by an MCP server
+interface McpPromptInfo {
+  name: string
+  description?: string
+  arguments?: { name: string; description?: string; required?: boolean }[]
+}
+
 const AUTH_SESSION_KEY = "llmatscale_auth_session"
 const AUTH_TOKEN_KEY = "llmatscale_auth_token"
 
@@ -192,6 +216,59 @@ function getUserEmailFromSession(): string {
   return ""
 }
 
+// Read an attachment into an inline data URL
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+// Convert chat input attachments into UIMessage file parts
+async function toFileParts(attachments: AttachedFile[]): Promise<FileUIPart[]> {
+  return Promise.all(
+    attachments.map(async (attachment) => ({
+      type: "file" as const,
+      mediaType: attachment.file.type || inferMimeType(attachment.file.name),
+      filename: attachment.file.name,
+      url: await readFileAsDataUrl(attachment.file),
+    }))
+  )
+}
+
+// Get file parts (user attachments) from a message
+function getFileParts(message: UIMessage): FileUIPart[] {
+  const parts = Array.isArray(message.parts) ? message.parts : []
+  return parts.filter((part): part is FileUIPart => part.type === "file")
+}
+
+// Saved attachments live in file storage and are referenced by id; ones still
+// being sent are inline data URLs
+function getStoredFileId(part: FileUIPart): string | undefined {
+  const fileId = (part as FileUIPart & { fileId?: unknown }).fileId
+  return typeof fileId === "string" ? fileId : undefined
+}
+
+// Display name of the model that produced a response (set in message metadata by /api/chat)
+function getMessageModelName(message: UIMessage): string | null {
+  const modelId = (message.metadata as { model?: string } | undefined)?.model
+  if (!modelId) return null
+  return CLAUDE_MODELS.find((m) => m.id === modelId)?.name ?? modelId
+}
+
+// Connectors that were active when a response was generated (set in message metadata by /api/chat)
+function getMessageMcpConnections(message: UIMessage): { id: string; name: string }[] {
+  return (message.metadata as { mcpConnections?: { id: string; name: string }[] } | undefined)?.mcpConnections ?? []
+}
+
+// How a response's turn used the context window - streamed as a data part, saved in metadata
+function getMessageContextUsage(message: UIMessage): ContextWindowUsage | null {
+  const part = message.parts.find((p) => p.type === "data-contextUsage") as { data?: ContextWindowUsage } | undefined
+  return part?.data ?? (message.metadata as { contextUsage?: ContextWindowUsage } | undefined)?.contextUsage ?? null
+}
+
 
 // Badge colors for MCP connection initials
 const MCP_BADGE_COLORS = [
@@ -208,10 +285,12 @@ function McpConnectionsSubmenu({
   activeMcpIds,
   onToggle,
   onManageConnectors,
+  onAttachFiles,
 }: {
   activeMcpIds: string[]
   onToggle: (connectionId: string, isActive: boolean) => void
   onManageConnectors?: () => void
+  onAttachFiles?: (files: File[]) => void
 }) {
   const [connections, setConnections] = useState<{
     id: string
@@ -220,6 +299,7 @@ function McpConnectionsSubmenu({
     availableTools?: { name: string }[]
   }[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [browsingId, setBrowsingId] = useState<string | null>(null) // Connection whose resources are expanded
 
   useEffect(() => {
     const fetchConnections = async () => {
@@ -301,29 +381,45 @@ function McpConnectionsSubmenu({
         const badgeColor = MCP_BADGE_COLORS[idx % MCP_BADGE_COLORS.length]
 
         return (
-          <div
-            key={connection.id}
-            className="flex items-center gap-3 px-3 py-2 mx-1 rounded-lg hover:bg-bg-hover dark:hover:bg-bg-hover transition-colors"
-          >
-            {/* Initial badge */}
-            <div className={`flex-shrink-0 w-7 h-7 rounded-lg flex items-center justify-center text-xs font-bold ${badgeColor}`}>
-              {initial}
+          <Fragment key={connection.id}>
+            <div className="flex items-center gap-3 px-3 py-2 mx-1 rounded-lg hover:bg-bg-hover dark:hover:bg-bg-hover transition-colors">
+              {/* Initial badge */}
+              <div className={`flex-shrink-0 w-7 h-7 rounded-lg flex items-center justify-center text-xs font-bold ${badgeColor}`}>
+                {initial}
+              </div>
+              {/* Name */}
+              <span
+                className="flex-1 text-[14px] text-text-200 dark:text-foreground truncate cursor-default"
+                title={connection.name}
+              >
+                {connection.name}
+              </span>
+              {/* Browse resources */}
+              {onAttachFiles && (
+                <button
+                  type="button"
+                  onClick={() => setBrowsingId(browsingId === connection.id ? null : connection.id)}
+                  className={cn(
+                    "shrink-0 rounded-md p-1 transition-colors hover:text-text-200",
+                    browsingId === connection.id ? "text-accent" : "text-text-500"
+                  )}
+                  title="Attach a resource"
+                >
+                  <Paperclip className="h-4 w-4" />
+                </button>
+              )}
+              {/* Toggle */}
+              <Switch
+                id={`mcp-plus-${connection.id}`}
+                checked={isActive}
+                onCheckedChange={(checked) => onToggle(connection.id, checked)}
+                className="shrink-0"
+              />
             </div>
-            {/* Name */}
-            <span
-              className="flex-1 text-[14px] text-text-200 dark:text-foreground truncate cursor-default"
-              title={connection.name}
-            >
-              {connection.name}
-            </span>
-            {/* Toggle */}
-            <Switch
-              id={`mcp-plus-${connection.id}`}
-              checked={isActive}
-              onCheckedChange={(checked) => onToggle(connection.id, checked)}
-              className="shrink-0"
-            />
-          </div>
+            {onAttachFiles && browsingId === connection.id && (
+              <McpResourcePicker connectionId={connection.id} onAttach={onAttachFiles} />
+            )}
+          </Fragment>
         )
       })}
       <div className="my-1 border-t border-border dark:border-sidebar-border" />
@@ -339,6 +435,94 @@ function McpConnectionsSubmenu({
   )
 }
 
+// Alternate versions of a message (edits / regenerations) - from /api/conversations/[id]/branch
+type MessageBranches = Record<string, { siblingIds: string[]; index: number }>
+
+// "< 2 / 3 >" control for switching between sibling versions of a message
+function BranchSwitcher({
+  branch,
+  disabled,
+  onSwitch,
+}: {
+  branch: { siblingIds: string[]; index: number }
+  disabled?: boolean
+  onSwitch: (messageId: string) => void
+}) {
+  const { siblingIds, index } = branch
+  return (
+    <div className="flex items-center text-xs text-muted-foreground">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-6 rounded-none border-0 bg-transparent p-0 hover:bg-transparent"
+        disabled={disabled || index === 0}
+        onClick={() => onSwitch(siblingIds[index - 1])}
+      >
+        <ChevronLeft />
+        <span className="sr-only">Previous version</span>
+      </Button>
+      <span className="tabular-nums">{index + 1} / {siblingIds.length}</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-6 rounded-none border-0 bg-transparent p-0 hover:bg-transparent"
+        disabled={disabled || index === siblingIds.length - 1}
+        onClick={() => onSwitch(siblingIds[index + 1])}
+      >
+        <ChevronRight />
+        <span className="sr-only">Next version</span>
+      </Button>
+    </div>
+  )
+}
+
+// Expiry choices offered when creating a share link (null = never expires)
+const SHARE_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "No expiry", days: null },
+  { label: "Expires in 1 day", days: 1 },
+  { label: "Expires in 7 days", days: 7 },
+  { label: "Expires in 30 days", days: 30 },
+]
+
+// Share submenu for a conversation's dropdown - copy a link or stop sharing
+function ShareSubmenu({
+  conversation,
+  onShareConversation,
+  onUnshareConversation,
+}: {
+  conversation: Conversation
+  onShareConversation: (id: string, expiresInDays: number | null) => void
+  onUnshareConversation: (id: string) => void
+}) {
+  return (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>
+        <Share2 className="mr-2 size-4" />
+        <span>Share</span>
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent className="w-44">
+        {SHARE_EXPIRY_OPTIONS.map((option) => (
+          <DropdownMenuItem
+            key={option.label}
+            onClick={() => onShareConversation(conversation.id, option.days)}
+          >
+            <span>{option.label}</span>
+          </DropdownMenuItem>
+        ))}
+        {conversation.isShared && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => onUnshareConversation(conversation.id)}>
+              <Link2Off className="mr-2 size-4" />
+              <span>Stop sharing</span>
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  )
+}
+
 function ChatSidebar({
   conversations,
   selectedId,
@@ -347,9 +531,11 @@ function ChatSidebar({
   onDeleteConversation,
   onPinConversation,
   onShareConversation,
+  onUnshareConversation,
   userName,
   userEmail,
   onOpenSettings,
+  onOpenSearch,
 }: {
   conversations: Conversation[]
   selectedId: string | null
@@ -357,10 +543,12 @@ function ChatSidebar({
   onNewChat: () => void
   onDeleteConversation: (id: string) => void
   onPinConversation: (id: string, isPinned: boolean) => void
-  onShareConversation: (id: string) => void
+  onShareConversation: (id: string, expiresInDays: number | null) => void
+  onUnshareConversation: (id: string) => void
   userName: string
   userEmail: string
   onOpenSettings: () => void
+  onOpenSearch: () => void
 }) {
   const router = useRouter()
 
@@ -438,12 +626,24 @@ function ChatSidebar({
                 <span>New chat</span>
               </SidebarMenuButton>
             </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton tooltip="Search" onClick={onOpenSearch}>
+                <Search className="size-4" />
+                <span>Search</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
             <SidebarMenuItem>
               <SidebarMenuButton tooltip="Projects">
                 <FolderOpen className="size-4" />
                 <span>Projects</span>
               </SidebarMenuButton>
             </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton tooltip="Files" onClick={() => router.push("/files")}>
+                <Files className="size-4" />
+                <span>Files</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
           </SidebarMenu>
         </SidebarGroup>
 
@@ -488,10 +688,11 @@ function ChatSidebar({
                         <PinOff className="mr-2 size-4" />
                         <span>Unpin</span>
                       </DropdownMenuItem>
-                      <DropdownMenuItem onClick={() => onShareConversation(conversation.id)}>
-                        <Share2 className="mr-2 size-4" />
-                        <span>Share</span>
-                      </DropdownMenuItem>
+                      <ShareSubmenu
+                        conversation={conversation}
+                        onShareConversation={onShareConversation}
+                        onUnshareConversation={onUnshareConversation}
+                      />
                       <DropdownMenuSeparator />
                       <DropdownMenuItem
                         className="text-destructive focus:text-destructive"
@@ -560,10 +761,11 @@ function ChatSidebar({
                             <Pin className="mr-2 size-4" />
                             <span>Pin</span>
                           </DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => onShareConversation(conversation.id)}>
-                            <Share2 className="mr-2 size-4" />
-                            <span>Share</span>
-                          </DropdownMenuItem>
+                          <ShareSubmenu
+                            conversation={conversation}
+                            onShareConversation={onShareConversation}
+                            onUnshareConversation={onUnshareConversation}
+                          />
                           <DropdownMenuSeparator />
                           <DropdownMenuItem
                             className="text-destructive focus:text-destructive"
@@ -635,6 +837,7 @@ function ChatContent({
   onConversationCreated,
   userName,
   onOpenMcpSettings,
+  focusMessage,
 }: {
   conversationId: string | null
   selectedModel: ClaudeModelId
@@ -642,11 +845,15 @@ function ChatContent({
   onConversationCreated: (id: string) => void
   userName: string
   onOpenMcpSettings: () => void
+  focusMessage: { id: string } | null // A new object each time, so the same message can be focused again
 }) {
   const [webSearchEnabled, setWebSearchEnabled] = useState(false)
   const [thinkingEnabled, setThinkingEnabled] = useState(false)
   const [activeMcpIds, setActiveMcpIds] = useState<string[]>([])
   const mcpLoadedRef = useRef(false) // Track if MCP connections have been loaded
+  const mcpRestoredRef = useRef(false) // A loaded conversation's connectors win over the defaults
+  const [deletedMcpConnections, setDeletedMcpConnections] = useState<{ id: string; name: string }[]>([])
+  const [deletedMcpWarningDismissed, setDeletedMcpWarningDismissed] = useState(false)
 
   // Load connected MCP connections and enable them by default
   useEffect(() => {
@@ -664,7 +871,7 @@ function ChatContent({
           const connectedIds = connections
             .filter((c: { status: string }) => c.status === "connected")
             .map((c: { id: string }) => c.id)
-          if (connectedIds.length > 0) {
+          if (connectedIds.length > 0 && !mcpRestoredRef.current) {
             setActiveMcpIds(connectedIds)
           }
         }
@@ -675,12 +882,49 @@ function ChatContent({
     loadConnectedMcps()
   }, [])
 
+  // Prompts of the active MCP connections, offered as slash commands
+  const [mcpPrompts, setMcpPrompts] = useState<{ connectionId: string; connectionName: string; prompt: McpPromptInfo }[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    const loadPrompts = async () => {
+      const results = await Promise.all(activeMcpIds.map(async (connectionId) => {
+        try {
+          const res = await fetch(`/api/mcp/connections/${connectionId}/prompts`, {
+            headers: getAuthHeaders(),
+          })
+          if (!res.ok) return []
+          const data: { connection: { id: string; name: string }; prompts: McpPromptInfo[] } = await res.json()
+          return data.prompts.map((prompt) => ({ connectionId, connectionName: data.connection.name, prompt }))
+        } catch {
+          return [] // Prompts are optional - a failing server just offers none
+        }
+      }))
+      if (!cancelled) setMcpPrompts(results.flat())
+    }
+    loadPrompts()
+    return () => {
+      cancelled = true
+    }
+  }, [activeMcpIds])
+
+  const slashCommands = useMemo<SlashCommand[]>(() => mcpPrompts.map(({ connectionId, connectionName, prompt }) => ({
+    id: `${connectionId}/${prompt.name}`,
+    name: prompt.name,
+    description: prompt.description,
+    source: connectionName,
+    arguments: prompt.arguments,
+  })), [mcpPrompts])
+
   const [initialMessages, setInitialMessages] = useState<UIMessage[]>([])
+  const [branches, setBranches] = useState<MessageBranches>({})
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
+  const [editText, setEditText] = useState("")
   const [isLoadingMessages, setIsLoadingMessages] = useState(!!conversationId)
   const [waitingForResponse, setWaitingForResponse] = useState(false)
   const [input, setInput] = useState("")
   const chatInputRef = useRef<ClaudeChatInputHandle>(null)
-  const pendingMessageRef = useRef<{ text: string; messageId: string } | null>(null)
+  const pendingMessageRef = useRef<{ text: string; files: FileUIPart[]; messageId: string } | null>(null)
   const currentConversationRef = useRef<string | null>(null)
   const isNewConversationRef = useRef(false) // Track if we just created a new conversation
   const optimisticMessageCounterRef = useRef(0)
@@ -704,7 +948,7 @@ function ChatContent({
   const [modelJustChanged, setModelJustChanged] = useState(false)
   type TransitionPhase = 'idle' | 'exiting-welcome' | 'entering-chat'
   const [transitionPhase, setTransitionPhase] = useState<TransitionPhase>('idle')
-  const pendingSendDataRef = useRef<{ message: string; files: unknown[]; pastedContent: unknown[]; model: string; isThinkingEnabled: boolean } | null>(null)
+  const pendingSendDataRef = useRef<{ message: string; files: AttachedFile[]; pastedContent: AttachedFile[]; model: string; isThinkingEnabled: boolean } | null>(null)
   const prevModelRef = useRef<string>(selectedModel)
 
   // Keep ref in sync with state and manage panel mount lifecycle
@@ -732,21 +976,6 @@ function ChatContent({
 
   // Suggestions replaced by inline welcome chips in the greeting state
 
-  // Helper to extract reasoning parts from message
-  // AI SDK sends reasoning with { type: 'reasoning', text: '...' }
-  const getReasoningParts = (message: UIMessage): string[] => {
-    const parts = Array.isArray(message.parts) ? message.parts : []
-    return parts
-      .filter((part) => part.type === "reasoning")
-      .map((part) => {
-        // AI SDK uses 'text' property for reasoning content
-        if ("text" in part && part.text) return part.text as string
-        // Fallback for 'reasoning' property (legacy)
-        if ("reasoning" in part && part.reasoning) return part.reasoning as string
-        return ""
-      })
-      .filter(Boolean)
-  }
 
   // Extract file artifacts from message parts (file-download and data-fileDownload)
   const getFileArtifactsFromMessage = useCallback((message: UIMessage): Artifact[] => {
@@ -885,35 +1114,114 @@ function ChatContent({
     stop,
     setMessages,
     sendMessage,
+    regenerate,
+    addToolApprovalResponse,
     error,
   } = useChat({
     transport,
     messages: initialMessages,
     experimental_throttle: 50,
+    // Resume the turn once every MCP tool call waiting for approval has an answer
+    sendAutomaticallyWhen: lastAssistantMessageIsCompleteWithApprovalResponses,
     // Auto-scroll handled by use-stick-to-bottom
     onError: (err) => {
       console.error('[useChat] Error:', err)
     },
   })
 
-  // Retry function - resends the last user message
-  const retryLastMessage = useCallback(() => {
-    if (messages.length < 2) return
+  // Regenerate a response (the last one by default), optionally with another model.
+  // The new answer is saved as another version of that turn; the old one stays switchable.
+  const regenerateResponse = useCallback((messageId?: string, model?: string) => {
+    if (messages.length === 0) return
     isLoadedConversationRef.current = false
-    // Find the last user message
-    const lastUserMsg = [...messages].reverse().find(m => m.role === 'user')
-    if (lastUserMsg) {
-      const text = lastUserMsg.parts
-        .filter(p => p.type === 'text')
-        .map(p => ('text' in p ? p.text : ''))
-        .join('')
-      if (text) {
-        // Remove the last assistant message and resend
-        setMessages(messages.slice(0, -1))
-        sendMessage({ text }, { body: requestBody })
+    regenerate({
+      ...(messageId ? { messageId } : {}),
+      body: { ...requestBody, ...(model ? { model } : {}) },
+    })
+  }, [messages.length, regenerate, requestBody])
+
+  // Edit a past user message - the edited text forks a new branch from the message before it
+  const submitEdit = useCallback((message: UIMessage) => {
+    const text = editText.trim()
+    const files = getFileParts(message)
+    setEditingMessageId(null)
+    if (!text && files.length === 0) return
+    const index = messages.findIndex((m) => m.id === message.id)
+    if (index === -1) return
+    isLoadedConversationRef.current = false
+    setMessages(messages.slice(0, index))
+    sendMessage({ ...(text ? { text } : {}), files }, { body: requestBody })
+  }, [editText, messages, setMessages, sendMessage, requestBody])
+
+  // Refresh sibling info once a response has been saved (edits add new branches)
+  const refreshBranches = useCallback(async () => {
+    if (!conversationId) return
+    try {
+      const res = await fetch(`/api/conversations/${conversationId}/branch`, {
+        headers: getAuthHeaders(),
+      })
+      if (!res.ok) return
+      const data = await res.json()
+      if (currentConversationRef.current === conversationId) {
+        setBranches(data.branches || {})
+      }
+    } catch (error) {
+      console.error("Error loading branches:", error)
+    }
+  }, [conversationId])
+
+  // Show another version of a message and everything that followed it
+  const switchToBranch = useCallback(async (messageId: string) => {
+    if (!conversationId) return
+    try {
+      const res = await fetch(`/api/conversations/${conversationId}/branch`, {
+        method: "POST",
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ messageId }),
+      })
+      if (!res.ok) {
+        throw new Error(`HTTP ${res.status}`)
+      }
+      const data = await res.json()
+      isLoadedConversationRef.current = true
+      setEditingMessageId(null)
+      setMessages(data.messages)
+      setBranches(data.branches || {})
+    } catch (error) {
+      console.error("Error switching branch:", error)
+    }
+  }, [conversationId, setMessages])
+
+  // Jump to a message picked from search: switch to its branch if needed, then scroll to it
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
+  const focusHandledRef = useRef<{ id: string } | null>(null)
+  const focusBranchSwitchRef = useRef<{ id: string } | null>(null)
+
+  useEffect(() => {
+    if (!focusMessage || focusHandledRef.current === focusMessage) return
+    if (isLoadingMessages || messages.length === 0) return
+
+    if (!messages.some((m) => m.id === focusMessage.id)) {
+      if (focusBranchSwitchRef.current !== focusMessage) {
+        focusBranchSwitchRef.current = focusMessage
+        switchToBranch(focusMessage.id)
       }
+      return
     }
-  }, [messages, setMessages, sendMessage, requestBody])
+
+    focusHandledRef.current = focusMessage
+    setHighlightedMessageId(focusMessage.id)
+    // Wait for the message list to render (and the initial scroll-to-bottom to settle)
+    setTimeout(() => {
+      document.getElementById(`message-${focusMessage.id}`)?.scrollIntoView({ behavior: "smooth", block: "center" })
+    }, 300)
+  }, [focusMessage, isLoadingMessages, messages, switchToBranch])
+
+  useEffect(() => {
+    if (!highlightedMessageId) return
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500)
+    return () => clearTimeout(timer)
+  }, [highlightedMessageId])
 
   // Auto-generate conversation title after first exchange
   const generateTitle = useCallback(async (convId: string) => {
@@ -971,7 +1279,7 @@ function ChatContent({
       },
       {
         ...CHAT_SHORTCUTS.regenerate,
-        action: retryLastMessage,
+        action: () => regenerateResponse(),
       },
     ],
   })
@@ -987,8 +1295,25 @@ function ChatContent({
   }, [messages])
 
   const isLoading = status === "submitted" || status === "streaming"
+
+  // Context usage of the latest turn, for the meter by the input
+  const contextUsage = useMemo(() => {
+    const lastAssistant = [...messages].reverse().find((m) => m.role === "assistant")
+    return lastAssistant ? getMessageContextUsage(lastAssistant) : null
+  }, [messages])
+
   const isWelcomeVisible = messages.length === 0 && transitionPhase === 'idle' && !isLoadingMessages
 
+  // Pick up new branches once a response finishes streaming
+  const prevStatusRef = useRef(status)
+  useEffect(() => {
+    const wasLoading = prevStatusRef.current === "streaming" || prevStatusRef.current === "submitted"
+    prevStatusRef.current = status
+    if (wasLoading && status === "ready") {
+      refreshBranches()
+    }
+  }, [status, refreshBranches])
+
   // Clear waitingForResponse once the AI SDK picks up the request
   useEffect(() => {
     if (status === "streaming" || status === "submitted") {
@@ -1010,7 +1335,7 @@ function ChatContent({
 
     // Small delay to ensure React state is fully updated and transport is recreated
     const timeoutId = setTimeout(() => {
-      sendMessage({ text: pending.text, messageId: pending.messageId }, { body: requestBody })
+      sendMessage({ ...(pending.text ? { text: pending.text } : {}), files: pending.files, messageId: pending.messageId }, { body: requestBody })
       // Clear the new conversation flag after message is sent
       isNewConversationRef.current = false
     }, 50)
@@ -1046,6 +1371,17 @@ function ChatContent({
             return
           }
 
+          setBranches(data.branches || {})
+
+          // Restore the connectors this conversation used last, if it ever used any
+          const usedMcp = (data.messages || []).some((m: UIMessage) => getMessageMcpConnections(m).length > 0)
+          if (data.activeMcpIds?.length > 0 || usedMcp) {
+            mcpRestoredRef.current = true
+            setActiveMcpIds(data.activeMcpIds || [])
+          }
+          setDeletedMcpConnections(data.deletedMcpConnections || [])
+          setDeletedMcpWarningDismissed(false)
+
           if (data.messages && Array.isArray(data.messages) && data.messages.length > 0) {
             // API now returns UIMessage format directly - no transformation needed
             const loadedMessages: UIMessage[] = data.messages
@@ -1083,6 +1419,8 @@ function ChatContent({
     } else {
       // No conversation selected - clear everything
       currentConversationRef.current = null
+      setBranches({})
+      setDeletedMcpConnections([])
       setInitialMessages([])
       setMessages([])
       setInput("")
@@ -1168,17 +1506,15 @@ function ChatContent({
 
   const selectedModelInfo = CLAUDE_MODELS.find((m) => m.id === selectedModel)
 
-  const createOptimisticUserMessage = (text: string) => {
+  const createOptimisticUserMessage = (text: string, files: FileUIPart[] = []) => {
     const nextId = optimisticMessageCounterRef.current++
     const messageId = `user-${Date.now()}-${nextId}`
     const optimisticMessage: UIMessage = {
       id: messageId,
       role: "user",
       parts: [
-        {
-          type: "text",
-          text,
-        },
+        ...files,
+        ...(text || files.length === 0 ? [{ type: "text" as const, text }] : []),
       ],
     }
 
@@ -1213,117 +1549,6 @@ function ChatContent({
     return extractToolParts(parts)
   }
 
-  // Segment message parts into ordered sections for proper rendering
-  // Returns array of { type: 'text' | 'tool' | 'file', content: string | ToolPart }
-  type MessageSegment =
-    | { type: 'text'; content: string }
-    | { type: 'tool'; content: ToolPart }
-    | { type: 'tool-group'; content: ToolPart[] }
-    | { type: 'file'; content: { fileId: string; filename: string; mimeType?: string; sizeBytes?: number } }
-
-  const getOrderedMessageSegments = (message: UIMessage): MessageSegment[] => {
-    const parts = Array.isArray(message.parts) ? message.parts : []
-    const segments: MessageSegment[] = []
-    let currentText = ''
-
-    for (const part of parts) {
-      if (typeof part !== 'object' || part === null) continue
-
-      const p = part as Record<string, unknown>
-      const partType = p.type as string
-
-      if (!partType) continue
-
-      // Check if this is a tool part
-      const isToolPart = partType.startsWith('tool-') ||
-                         partType === 'tool-invocation' ||
-                         partType === 'tool-call' ||
-                         partType === 'tool-result'
-
-      if (partType === 'step-start') {
-        // Step boundary - flush accumulated text to preserve step interleaving
-        if (currentText.trim()) {
-          segments.push({ type: 'text', content: currentText.trim() })
-          currentText = ''
-        }
-      } else if (partType === 'text' && typeof p.text === 'string') {
-        // Accumulate text
-        currentText += (currentText ? '\n\n' : '') + p.text
-      } else if (partType === 'file-download') {
-        // File download part from DB-loaded messages
-        segments.push({
-          type: 'file',
-          content: {
-            fileId: p.fileId as string,
-            filename: p.filename as string || 'download',
-            mimeType: p.mimeType as string | undefined,
-            sizeBytes: p.sizeBytes as number | undefined,
-          },
-        })
-      } else if (partType === 'data-fileDownload') {
-        // File download part from SSE stream (AI SDK data chunk)
-        const fileData = p.data as Record<string, unknown> | undefined
-        if (fileData) {
-          segments.push({
-            type: 'file',
-            content: {
-              fileId: fileData.fileId as string,
-              filename: fileData.filename as string || 'download',
-              mimeType: fileData.mimeType as string | undefined,
-              sizeBytes: fileData.sizeBytes as number | undefined,
-            },
-          })
-        }
-      } else if (isToolPart) {
-        // Flush any accumulated text before tool
-        if (currentText.trim()) {
-          segments.push({ type: 'text', content: currentText.trim() })
-          currentText = ''
-        }
-        // Add tool segment
-        const toolParts = extractToolParts([part])
-        if (toolParts.length > 0) {
-          segments.push({ type: 'tool', content: toolParts[0] })
-        }
-      }
-      // Skip reasoning parts - they're handled separately
-    }
-
-    // Flush any remaining text
-    if (currentText.trim()) {
-      segments.push({ type: 'text', content: currentText.trim() })
-    }
-
-    // Move file segments to the end so FileCards appear after all text content
-    const fileSegments = segments.filter(s => s.type === 'file')
-    const nonFileSegments = segments.filter(s => s.type !== 'file')
-    return [...nonFileSegments, ...fileSegments]
-  }
-
-  // Group consecutive tool segments into tool-group segments for compact rendering
-  const groupConsecutiveTools = (segments: MessageSegment[]): MessageSegment[] => {
-    const result: MessageSegment[] = []
-    let toolBuffer: ToolPart[] = []
-
-    const flushTools = () => {
-      if (toolBuffer.length > 0) {
-        result.push({ type: 'tool-group', content: [...toolBuffer] })
-      }
-      toolBuffer = []
-    }
-
-    for (const segment of segments) {
-      if (segment.type === 'tool') {
-        toolBuffer.push(segment.content as ToolPart)
-      } else {
-        flushTools()
-        result.push(segment)
-      }
-    }
-
-    flushTools()
-    return result
-  }
 
   const onSubmit = async (e?: React.FormEvent) => {
     e?.preventDefault()
@@ -1361,7 +1586,7 @@ function ChatContent({
           throw new Error("Invalid conversation response - no ID")
         }
         onConversationCreated(newConversation.id)
-        pendingMessageRef.current = { text, messageId: optimisticMessageId }
+        pendingMessageRef.current = { text, files: [], messageId: optimisticMessageId }
       } catch (error) {
         isNewConversationRef.current = false
         console.error("Error creating conversation:", error)
@@ -1381,11 +1606,51 @@ function ChatContent({
     }
   }
 
+  // Show a user message and send it, creating the conversation first if needed.
+  // History messages (e.g. from an MCP prompt) are added before it and saved with it.
+  const submitUserMessage = useCallback(async (text: string, files: FileUIPart[], model: string, history: UIMessage[] = []) => {
+    if (history.length > 0) setMessages((prev) => [...prev, ...history])
+    const optimisticMessageId = createOptimisticUserMessage(text, files)
+    const rolledBackIds = new Set([optimisticMessageId, ...history.map((m) => m.id)])
+    const title = text || files.map((f) => f.filename).filter(Boolean).join(", ") || "New chat"
+
+    if (!conversationId) {
+      try {
+        isNewConversationRef.current = true
+        const response = await fetch("/api/conversations", {
+          method: "POST",
+          headers: getAuthHeaders(),
+          body: JSON.stringify({
+            title: title.slice(0, 50) + (title.length > 50 ? "..." : ""),
+            model,
+          }),
+        })
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.error || `HTTP ${response.status}`)
+        }
+        const newConversation = await response.json()
+        if (!newConversation.id) throw new Error("Invalid conversation response - no ID")
+        onConversationCreated(newConversation.id)
+        pendingMessageRef.current = { text, files, messageId: optimisticMessageId }
+      } catch (error) {
+        isNewConversationRef.current = false
+        console.error("Error creating conversation:", error)
+        setMessages((prev) => prev.filter((m) => !rolledBackIds.has(m.id)))
+      }
+    } else {
+      sendMessage({ ...(text ? { text } : {}), files, messageId: optimisticMessageId }, { body: requestBody }).catch((error) => {
+        console.error("Error sending message:", error)
+        setMessages((prev) => prev.filter((m) => !rolledBackIds.has(m.id)))
+      })
+    }
+  }, [conversationId, onConversationCreated, sendMessage, requestBody, setMessages, createOptimisticUserMessage])
+
   // Core send logic - extracted so it can be called directly or after transition delay
-  const executeSend = useCallback((data: {
+  const executeSend = useCallback(async (data: {
     message: string;
-    files: unknown[];
-    pastedContent: unknown[];
+    files: AttachedFile[];
+    pastedContent: AttachedFile[];
     model: string;
     isThinkingEnabled: boolean;
   }) => {
@@ -1395,48 +1660,70 @@ function ChatContent({
     setWaitingForResponse(true)
     userClosedArtifactRef.current = false
     isLoadedConversationRef.current = false
-    const optimisticMessageId = createOptimisticUserMessage(text)
 
-    if (!conversationId) {
-      ;(async () => {
-        try {
-          isNewConversationRef.current = true
-          const response = await fetch("/api/conversations", {
-            method: "POST",
-            headers: getAuthHeaders(),
-            body: JSON.stringify({
-              title: text.slice(0, 50) + (text.length > 50 ? "..." : ""),
-              model: data.model,
-            }),
-          })
-          if (!response.ok) {
-            const errorData = await response.json()
-            throw new Error(errorData.error || `HTTP ${response.status}`)
-          }
-          const newConversation = await response.json()
-          if (!newConversation.id) throw new Error("Invalid conversation response - no ID")
-          onConversationCreated(newConversation.id)
-          pendingMessageRef.current = { text, messageId: optimisticMessageId }
-        } catch (error) {
-          isNewConversationRef.current = false
-          console.error("Error creating conversation:", error)
-          setMessages((prev) => prev.filter((m) => m.id !== optimisticMessageId))
-        }
-      })()
-    } else {
-      sendMessage({ text, messageId: optimisticMessageId }, { body: requestBody }).catch((error) => {
-        console.error("Error sending message:", error)
-        setMessages((prev) => prev.filter((m) => m.id !== optimisticMessageId))
+    // Attachments are sent inline as file parts (pasted text becomes a text/plain file)
+    let files: FileUIPart[] = []
+    try {
+      files = await toFileParts([...data.files, ...data.pastedContent])
+    } catch (error) {
+      console.error("Error reading attachments:", error)
+      setWaitingForResponse(false)
+      return
+    }
+
+    submitUserMessage(text, files, data.model)
+  }, [submitUserMessage])
+
+  // Expand an MCP prompt and send its messages - the last user message is what gets answered
+  const runMcpPrompt = useCallback(async (command: SlashCommand, args: Record<string, string>) => {
+    const entry = mcpPrompts.find((p) => `${p.connectionId}/${p.prompt.name}` === command.id)
+    if (!entry) return
+
+    setWaitingForResponse(true)
+    let promptMessages: Pick<UIMessage, "role" | "parts">[]
+    try {
+      const res = await fetch(`/api/mcp/connections/${entry.connectionId}/prompts`, {
+        method: "POST",
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ name: entry.prompt.name, arguments: args }),
       })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`)
+      promptMessages = data.messages || []
+    } catch (error) {
+      console.error("Error getting MCP prompt:", error)
+      setWaitingForResponse(false)
+      alert(`Failed to run /${command.name}: ${(error as Error).message}`)
+      return
     }
-  }, [conversationId, onConversationCreated, sendMessage, requestBody, setMessages, createOptimisticUserMessage])
+
+    const last = promptMessages[promptMessages.length - 1]
+    if (!last) {
+      setWaitingForResponse(false)
+      return
+    }
+    // A prompt ending in an assistant message is sent as one user message
+    const toSend = last.role === "user" ? last : { role: "user" as const, parts: promptMessages.flatMap((m) => m.parts) }
+    const history: UIMessage[] = last.role === "user"
+      ? promptMessages.slice(0, -1).map((m) => ({ ...m, id: generateId(), metadata: { mcpPrompt: entry.prompt.name } }))
+      : []
+    const text = toSend.parts
+      .filter((part) => part.type === "text")
+      .map((part) => ("text" in part ? part.text : ""))
+      .join("\n\n")
+    const files = toSend.parts.filter((part): part is FileUIPart => part.type === "file")
+
+    userClosedArtifactRef.current = false
+    isLoadedConversationRef.current = false
+    submitUserMessage(text, files, selectedModel, history)
+  }, [mcpPrompts, submitUserMessage, selectedModel])
 
   // Bridge from ClaudeChatInput's onSendMessage to existing chat flow
   // When sending from welcome state, triggers transition animation first
   const handleSendMessage = useCallback((data: {
     message: string;
-    files: unknown[];
-    pastedContent: unknown[];
+    files: AttachedFile[];
+    pastedContent: AttachedFile[];
     model: string;
     isThinkingEnabled: boolean;
   }) => {
@@ -1514,7 +1801,7 @@ function ChatContent({
                     >
                       <SystemMessage
                         variant="error"
-                        cta={{ label: "Retry", onClick: retryLastMessage }}
+                        cta={{ label: "Retry", onClick: () => regenerateResponse() }}
                         dismissible
                       >
                         {error.message || "Something went wrong. Please try again."}
@@ -1522,6 +1809,15 @@ function ChatContent({
                     </motion.div>
                   )}
 
+                  {/* Connectors this conversation used that no longer exist */}
+                  {deletedMcpConnections.length > 0 && !deletedMcpWarningDismissed && (
+                    <SystemMessage variant="warning" dismissible onDismiss={() => setDeletedMcpWarningDismissed(true)}>
+                      {deletedMcpConnections.length === 1 ? "A connector" : "Connectors"} used in this conversation{" "}
+                      {deletedMcpConnections.length === 1 ? "was" : "were"} deleted:{" "}
+                      {deletedMcpConnections.map((conn) => conn.name).join(", ")}. Their tools are no longer available.
+                    </SystemMessage>
+                  )}
+
                   {/* Model Change Notification */}
                   {modelJustChanged && (
                     <SystemMessage variant="action" dismissible onDismiss={() => setModelJustChanged(false)}>
@@ -1567,6 +1863,8 @@ function ChatContent({
                             onWebSearchChange={setWebSearchEnabled}
                             isThinkingEnabled={thinkingEnabled}
                             onThinkingChange={setThinkingEnabled}
+                            slashCommands={slashCommands}
+                            onSlashCommand={runMcpPrompt}
                             activeMcpIds={activeMcpIds}
                             onMcpToggle={(connectionId, isActive) => {
                               setActiveMcpIds((prev) =>
@@ -1627,6 +1925,11 @@ function ChatContent({
                       return (
                         <motion.div
                           key={message.id}
+                          id={`message-${message.id}`}
+                          className={cn(
+                            "scroll-mt-24 rounded-xl transition-colors duration-700",
+                            highlightedMessageId === message.id && "bg-accent/60"
+                          )}
                           initial={{ opacity: 0, y: 10 }}
                           animate={{ opacity: 1, y: 0 }}
                           transition={{
@@ -1686,6 +1989,7 @@ function ChatContent({
                                                 isStreaming={isStreaming}
                                                 artifacts={allArtifacts}
                                                 onOpenArtifact={(artifact) => openArtifactPanel(artifact, allArtifacts, false, true)}
+                                                onToolApproval={isLastMessage && !isLoading ? addToolApprovalResponse : undefined}
                                               />
                                             )
                                           } else if (segment.type === 'file') {
@@ -1824,9 +2128,36 @@ function ChatContent({
                                     <MessageActions
                                       className={cn(
                                         "-ml-2.5 mt-1 flex gap-0 opacity-0 transition-opacity duration-150 group-hover:opacity-100",
-                                        isLastMessage && "opacity-100"
+                                        (isLastMessage || branches[message.id]) && "opacity-100"
                                       )}
                                     >
+                                      {branches[message.id] && (
+                                        <>
+                                          <BranchSwitcher
+                                            branch={branches[message.id]}
+                                            disabled={isLoading}
+                                            onSwitch={switchToBranch}
+                                          />
+                                          {getMessageModelName(message) && (
+                                            <span className="mr-1 text-xs text-muted-foreground">
+                                              {getMessageModelName(message)}
+                                            </span>
+                                          )}
+                                        </>
+                                      )}
+                                      {getMessageMcpConnections(message).length > 0 && (
+                                        <span className="mr-1 flex items-center gap-1 text-xs text-muted-foreground">
+                                          <Plug className="size-3" />
+                                          {getMessageMcpConnections(message).map((conn, connIndex) => {
+                                            const deleted = deletedMcpConnections.some((d) => d.id === conn.id)
+                                            return (
+                                              <span key={conn.id} className={cn(deleted && "line-through")} title={deleted ? "Deleted" : undefined}>
+                                                {conn.name}{connIndex < getMessageMcpConnections(message).length - 1 && ","}
+                                              </span>
+                                            )
+                                          })}
+                                        </span>
+                                      )}
                                       <MessageAction tooltip="Copy" delayDuration={100}>
                                         <Button
                                           variant="ghost"
@@ -1839,6 +2170,35 @@ function ChatContent({
                                           <Copy />
                                         </Button>
                                       </MessageAction>
+                                      <DropdownMenu>
+                                        <MessageAction tooltip="Regenerate" delayDuration={100}>
+                                          <DropdownMenuTrigger asChild>
+                                            <Button
+                                              variant="ghost"
+                                              size="icon"
+                                              className="h-8 w-8 rounded-none border-0 bg-transparent p-0 hover:bg-transparent"
+                                              disabled={isLoading}
+                                            >
+                                              <RotateCcw />
+                                            </Button>
+                                          </DropdownMenuTrigger>
+                                        </MessageAction>
+                                        <DropdownMenuContent align="start" className="w-56">
+                                          <DropdownMenuItem onClick={() => regenerateResponse(message.id)}>
+                                            <RotateCcw className="mr-2 size-4" />
+                                            <span>Regenerate</span>
+                                          </DropdownMenuItem>
+                                          <DropdownMenuSeparator />
+                                          {CLAUDE_MODELS.map((model) => (
+                                            <DropdownMenuItem
+                                              key={model.id}
+                                              onClick={() => regenerateResponse(message.id, model.id)}
+                                            >
+                                              <span>Retry with {model.name}</span>
+                                            </DropdownMenuItem>
+                                          ))}
+                                        </DropdownMenuContent>
+                                      </DropdownMenu>
                                       <MessageAction tooltip="Upvote" delayDuration={100}>
                                         <Button
                                           variant="ghost"
@@ -1878,19 +2238,74 @@ function ChatContent({
                             ) : (
                               <>
                                 <div className="group max-w-[85%] sm:max-w-[75%]">
-                                  <MessageContent role="user" className="inline-block w-fit max-w-full">
-                                    {messageText}
-                                  </MessageContent>
+                                  {/* Attachments sent with the message */}
+                                  {getFileParts(message).map((filePart, fileIndex) => {
+                                    const fileId = getStoredFileId(filePart)
+                                    return (
+                                      <FileCard
+                                        key={`attachment-${fileIndex}`}
+                                        fileId={fileId}
+                                        url={fileId ? undefined : filePart.url}
+                                        filename={filePart.filename || "attachment"}
+                                        mimeType={filePart.mediaType}
+                                        className="ml-auto"
+                                      />
+                                    )
+                                  })}
+                                  {editingMessageId === message.id ? (
+                                    <div className="w-full min-w-[min(32rem,80vw)] rounded-2xl border border-border bg-muted/40 p-3">
+                                      <textarea
+                                        autoFocus
+                                        value={editText}
+                                        onChange={(e) => setEditText(e.target.value)}
+                                        onKeyDown={(e) => {
+                                          if (e.key === "Enter" && !e.shiftKey) {
+                                            e.preventDefault()
+                                            submitEdit(message)
+                                          } else if (e.key === "Escape") {
+                                            setEditingMessageId(null)
+                                          }
+                                        }}
+                                        rows={Math.min(10, Math.max(2, editText.split("\n").length))}
+                                        className="w-full resize-none bg-transparent text-sm outline-none"
+                                      />
+                                      <div className="mt-2 flex justify-end gap-2">
+                                        <Button variant="ghost" size="sm" onClick={() => setEditingMessageId(null)}>
+                                          Cancel
+                                        </Button>
+                                        <Button size="sm" disabled={isLoading} onClick={() => submitEdit(message)}>
+                                          Send
+                                        </Button>
+                                      </div>
+                                    </div>
+                                  ) : messageText && (
+                                    <MessageContent role="user" className="inline-block w-fit max-w-full">
+                                      {messageText}
+                                    </MessageContent>
+                                  )}
                                   <MessageActions
                                     className={cn(
-                                      "mr-1 mt-1 flex justify-end gap-0 opacity-0 transition-opacity duration-150 group-hover:opacity-100"
+                                      "mr-1 mt-1 flex justify-end gap-0 opacity-0 transition-opacity duration-150 group-hover:opacity-100",
+                                      branches[message.id] && "opacity-100"
                                     )}
                                   >
+                                    {branches[message.id] && (
+                                      <BranchSwitcher
+                                        branch={branches[message.id]}
+                                        disabled={isLoading}
+                                        onSwitch={switchToBranch}
+                                      />
+                                    )}
                                     <MessageAction tooltip="Edit" delayDuration={100}>
                                       <Button
                                         variant="ghost"
                                         size="icon"
                                         className="h-8 w-8 rounded-none border-0 bg-transparent p-0 hover:bg-transparent"
+                                        disabled={isLoading || !conversationId}
+                                        onClick={() => {
+                                          setEditText(messageText)
+                                          setEditingMessageId(message.id)
+                                        }}
                                       >
                                         <Pencil />
                                       </Button>
@@ -1962,10 +2377,13 @@ function ChatContent({
                       placeholder="Reply..."
                       isLoading={isLoading}
                       onStop={stop}
+                      contextUsage={contextUsage}
                       webSearchEnabled={webSearchEnabled}
                       onWebSearchChange={setWebSearchEnabled}
                       isThinkingEnabled={thinkingEnabled}
                       onThinkingChange={setThinkingEnabled}
+                      slashCommands={slashCommands}
+                      onSlashCommand={runMcpPrompt}
                       activeMcpIds={activeMcpIds}
                       onMcpToggle={(connectionId, isActive) => {
                         setActiveMcpIds((prev) =>
@@ -2022,6 +2440,8 @@ function FullChatApp() {
   const [userName, setUserName] = useState<string>("User")
   const [userEmail, setUserEmail] = useState<string>("")
   const [settingsOpen, setSettingsOpen] = useState(false)
+  const [searchOpen, setSearchOpen] = useState(false)
+  const [focusMessage, setFocusMessage] = useState<{ id: string } | null>(null)
   const [settingsTab, setSettingsTab] = useState<"general" | "appearance" | "api-keys" | "mcp" | "instructions" | "advanced">("general")
   // Track the chat key separately - stays stable during new conversation creation
   // Only changes when user explicitly selects an existing conversation
@@ -2086,14 +2506,33 @@ function FullChatApp() {
         ...CHAT_SHORTCUTS.openSettings,
         action: () => setSettingsOpen(true),
       },
+      {
+        ...CHAT_SHORTCUTS.search,
+        action: () => setSearchOpen(true),
+      },
     ],
   })
 
   const handleSelectConversation = useCallback((id: string) => {
     setSelectedConversationId(id)
     setChatKey(id)
+    setFocusMessage(null)
   }, [])
 
+  // Open the conversation a search result belongs to, focused on the matching message
+  const handleSelectSearchResult = useCallback((result: SearchResult) => {
+    handleSelectConversation(result.conversationId)
+    if (result.messageId) setFocusMessage({ id: result.messageId })
+  }, [handleSelectConversation])
+
+  // Open a conversation linked from another page (e.g. /chat?conversation=<id> from Files)
+  useEffect(() => {
+    const linkedId = new URLSearchParams(window.location.search).get("conversation")
+    if (!linkedId) return
+    handleSelectConversation(linkedId)
+    router.replace("/chat")
+  }, [handleSelectConversation, router])
+
   const handleConversationCreated = useCallback((id: string) => {
     setSelectedConversationId(id)
     fetchConversations()
@@ -2130,21 +2569,44 @@ function FullChatApp() {
     }
   }, [])
 
-  const handleShareConversation = useCallback(async (id: string) => {
+  const handleShareConversation = useCallback(async (id: string, expiresInDays: number | null) => {
     try {
-      await fetch(`/api/conversations/${id}`, {
-        method: "PATCH",
+      const response = await fetch(`/api/conversations/${id}/share`, {
+        method: "POST",
         headers: getAuthHeaders(),
-        body: JSON.stringify({ isShared: true }),
+        body: JSON.stringify({ expiresInDays }),
       })
-      const shareUrl = `${window.location.origin}/share/${id}`
-      await navigator.clipboard.writeText(shareUrl)
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        alert(data.error || "Failed to share conversation")
+        return
+      }
+      const { shareToken, sharePath, expiresAt } = await response.json()
+      setConversations((prev) =>
+        prev.map((c) => (c.id === id ? { ...c, isShared: true, shareToken, shareExpiresAt: expiresAt } : c))
+      )
+      await navigator.clipboard.writeText(`${window.location.origin}${sharePath}`)
       alert("Share link copied to clipboard!")
     } catch (error) {
       console.error("Error sharing conversation:", error)
     }
   }, [])
 
+  const handleUnshareConversation = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${id}/share`, {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      })
+      if (!response.ok) return
+      setConversations((prev) =>
+        prev.map((c) => (c.id === id ? { ...c, isShared: false, shareToken: null, shareExpiresAt: null } : c))
+      )
+    } catch (error) {
+      console.error("Error revoking share link:", error)
+    }
+  }, [])
+
   return (
     <>
       <SidebarProvider>
@@ -2156,9 +2618,11 @@ function FullChatApp() {
           onDeleteConversation={handleDeleteConversation}
           onPinConversation={handlePinConversation}
           onShareConversation={handleShareConversation}
+          onUnshareConversation={handleUnshareConversation}
           userName={userName}
           userEmail={userEmail}
           onOpenSettings={() => setSettingsOpen(true)}
+          onOpenSearch={() => setSearchOpen(true)}
         />
         <SidebarInset className="overflow-hidden">
           <ChatContent
@@ -2169,9 +2633,16 @@ function FullChatApp() {
             onConversationCreated={handleConversationCreated}
             userName={userName}
             onOpenMcpSettings={() => { setSettingsTab("mcp"); setSettingsOpen(true) }}
+            focusMessage={focusMessage}
           />
         </SidebarInset>
       </SidebarProvider>
+      <SearchDialog
+        open={searchOpen}
+        onOpenChange={setSearchOpen}
+        models={CLAUDE_MODELS}
+        onSelectResult={handleSelectSearchResult}
+      />
       <SettingsModal
         open={settingsOpen}
         onClose={() => { setSettingsOpen(false); setSettingsTab("general") }}
@@ -421,6 +421,7 @@ export function LoginPage() {
                                             </label>
                                             <button
                                                 type="button"
+                                                onClick={() => router.push("/reset-password")}
                                                 className="font-medium text-primary hover:text-primary/70 transition-colors"
                                             >
                                                 Forgot password?
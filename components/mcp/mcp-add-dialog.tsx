@@ -22,6 +22,7 @@ interface McpAddDialogProps {
     name: string
     serverUrl: string
     authType: "none" | "api_key" | "oauth"
+    timeoutSeconds?: number
     oauthClientId?: string
     oauthClientSecret?: string
     apiKey?: string
@@ -31,6 +32,7 @@ interface McpAddDialogProps {
     name: string
     serverUrl: string
     authType: "none" | "api_key" | "oauth"
+    timeoutSeconds?: number | null
   } | null
 }
 
@@ -38,6 +40,7 @@ export function McpAddDialog({ open, onOpenChange, onAdd, editData }: McpAddDial
   const [name, setName] = useState(editData?.name || "")
   const [serverUrl, setServerUrl] = useState(editData?.serverUrl || "")
   const [authType, setAuthType] = useState<"none" | "api_key" | "oauth">(editData?.authType || "none")
+  const [timeoutSeconds, setTimeoutSeconds] = useState(editData?.timeoutSeconds ? String(editData.timeoutSeconds) : "")
   const [showAdvanced, setShowAdvanced] = useState(false)
   const [oauthClientId, setOauthClientId] = useState("")
   const [oauthClientSecret, setOauthClientSecret] = useState("")
@@ -64,6 +67,13 @@ export function McpAddDialog({ open, onOpenChange, onAdd, editData }: McpAddDial
       }
     }
 
+    if (timeoutSeconds.trim()) {
+      const seconds = Number(timeoutSeconds)
+      if (!Number.isInteger(seconds) || seconds < 5 || seconds > 600) {
+        newErrors.timeoutSeconds = "Timeout must be between 5 and 600 seconds"
+      }
+    }
+
     if (authType === "oauth") {
       if (!oauthClientId.trim()) {
         newErrors.oauthClientId = "OAuth Client ID is required"
@@ -90,6 +100,7 @@ export function McpAddDialog({ open, onOpenChange, onAdd, editData }: McpAddDial
         name: name.trim(),
         serverUrl: serverUrl.trim(),
         authType,
+        ...(timeoutSeconds.trim() && { timeoutSeconds: Number(timeoutSeconds) }),
         ...(authType === "oauth" && {
           oauthClientId: oauthClientId.trim(),
           oauthClientSecret: oauthClientSecret.trim(),
@@ -102,6 +113,7 @@ export function McpAddDialog({ open, onOpenChange, onAdd, editData }: McpAddDial
       setName("")
       setServerUrl("")
       setAuthType("none")
+      setTimeoutSeconds("")
       setOauthClientId("")
       setOauthClientSecret("")
       setApiKey("")
@@ -120,6 +132,7 @@ export function McpAddDialog({ open, onOpenChange, onAdd, editData }: McpAddDial
       setName(editData?.name || "")
       setServerUrl(editData?.serverUrl || "")
       setAuthType(editData?.authType || "none")
+      setTimeoutSeconds(editData?.timeoutSeconds ? String(editData.timeoutSeconds) : "")
       setOauthClientId("")
       setOauthClientSecret("")
       setApiKey("")
@@ -164,6 +177,21 @@ export function McpAddDialog({ open, onOpenChange, onAdd, editData }: McpAddDial
             {errors.serverUrl && <p className="text-xs text-destructive">{errors.serverUrl}</p>}
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="timeoutSeconds">Request Timeout (seconds)</Label>
+            <Input
+              id="timeoutSeconds"
+              type="number"
+              min={5}
+              max={600}
+              placeholder="30"
+              value={timeoutSeconds}
+              onChange={(e) => setTimeoutSeconds(e.target.value)}
+              className={cn(errors.timeoutSeconds && "border-destructive")}
+            />
+            {errors.timeoutSeconds && <p className="text-xs text-destructive">{errors.timeoutSeconds}</p>}
+          </div>
+
           <div className="space-y-2">
             <Label>Authentication Type</Label>
             <div className="flex gap-2">
@@ -1,24 +1,33 @@
 "use client"
 
 import { useState } from "react"
-import { Plug, PlugZap, AlertCircle, Trash2, Edit, RefreshCw, ChevronDown, ChevronUp } from "lucide-react"
+import { Plug, PlugZap, AlertCircle, KeyRound, Trash2, Edit, RefreshCw, ChevronDown, ChevronUp } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
 import { cn } from "@/lib/utils"
+import { McpHealthHistory } from "@/components/mcp/mcp-health-history"
 
-export type McpConnectionStatus = "connected" | "disconnected" | "error"
+// needs_auth: OAuth tokens are missing or could not be refreshed - the user has to authorize again
+export type McpConnectionStatus = "connected" | "disconnected" | "error" | "needs_auth"
+
+// allow: runs immediately, ask: the user approves each call in the chat, never: not offered to the model
+export type McpToolPolicy = "allow" | "ask" | "never"
 
 export interface McpConnectionData {
   id: string
   name: string
   serverUrl: string
+  transport?: "http" | "stdio" // stdio: admin-defined local server run by the app itself
   authType: "none" | "api_key" | "oauth"
   status: McpConnectionStatus
   lastError?: string | null
   isActive: boolean
   availableTools?: { name: string; description?: string }[]
   lastConnectedAt?: string | null
+  timeoutSeconds?: number | null
+  toolPolicies?: Record<string, McpToolPolicy> // Tools without an entry are allowed
 }
 
 interface McpConnectionCardProps {
@@ -28,6 +37,8 @@ interface McpConnectionCardProps {
   onEdit: (connection: McpConnectionData) => void
   onDelete: (id: string) => Promise<void>
   onRefresh: (id: string) => Promise<void>
+  onToolPolicyChange: (id: string, toolName: string, policy: McpToolPolicy) => Promise<void>
+  onHealthChecked: () => Promise<void>
 }
 
 export function McpConnectionCard({
@@ -37,9 +48,12 @@ export function McpConnectionCard({
   onEdit,
   onDelete,
   onRefresh,
+  onToolPolicyChange,
+  onHealthChecked,
 }: McpConnectionCardProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [showTools, setShowTools] = useState(false)
+  const [showHealth, setShowHealth] = useState(false)
 
   const handleConnect = async () => {
     setIsLoading(true)
@@ -85,10 +99,16 @@ export function McpConnectionCard({
       text: "Error",
       icon: AlertCircle,
     },
+    needs_auth: {
+      color: "bg-status-warning",
+      text: "Reconnect required",
+      icon: KeyRound,
+    },
   }
 
   const status = statusConfig[connection.status]
   const StatusIcon = status.icon
+  const isLocal = connection.transport === "stdio"
 
   return (
     <Card className="relative">
@@ -109,15 +129,17 @@ export function McpConnectionCard({
             >
               <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
             </Button>
-            <Button
-              variant="ghost"
-              size="icon"
-              className="h-8 w-8"
-              onClick={() => onEdit(connection)}
-              title="Edit connection"
-            >
-              <Edit className="h-4 w-4" />
-            </Button>
+            {!isLocal && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => onEdit(connection)}
+                title="Edit connection"
+              >
+                <Edit className="h-4 w-4" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="icon"
@@ -132,16 +154,25 @@ export function McpConnectionCard({
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="space-y-2 text-sm">
-          <div className="flex items-center justify-between">
-            <span className="text-muted-foreground">URL:</span>
-            <span className="font-mono text-xs truncate max-w-[200px]">{connection.serverUrl}</span>
-          </div>
-          <div className="flex items-center justify-between">
-            <span className="text-muted-foreground">Auth:</span>
-            <Badge variant="outline" className="text-xs">
-              {connection.authType === "none" ? "None" : connection.authType === "api_key" ? "API Key" : "OAuth"}
-            </Badge>
-          </div>
+          {isLocal ? (
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Server:</span>
+              <Badge variant="outline" className="text-xs">Local</Badge>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">URL:</span>
+                <span className="font-mono text-xs truncate max-w-[200px]">{connection.serverUrl}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Auth:</span>
+                <Badge variant="outline" className="text-xs">
+                  {connection.authType === "none" ? "None" : connection.authType === "api_key" ? "API Key" : "OAuth"}
+                </Badge>
+              </div>
+            </>
+          )}
           <div className="flex items-center justify-between">
             <span className="text-muted-foreground">Status:</span>
             <div className="flex items-center gap-1.5">
@@ -157,7 +188,7 @@ export function McpConnectionCard({
           )}
         </div>
 
-        {connection.lastError && connection.status === "error" && (
+        {connection.lastError && (connection.status === "error" || connection.status === "needs_auth") && (
           <div className="rounded-md bg-destructive/10 p-2 text-xs text-destructive">
             {connection.lastError}
           </div>
@@ -174,19 +205,53 @@ export function McpConnectionCard({
             </button>
             {showTools && (
               <div className="max-h-48 overflow-y-auto space-y-1.5 rounded-md bg-muted/50 p-2">
-                {connection.availableTools.map((tool) => (
-                  <div key={tool.name} className="text-xs">
-                    <span className="font-medium">{tool.name}</span>
-                    {tool.description && (
-                      <span className="text-muted-foreground ml-1">- {tool.description}</span>
-                    )}
-                  </div>
-                ))}
+                {connection.availableTools.map((tool) => {
+                  const policy = connection.toolPolicies?.[tool.name] || "allow"
+                  return (
+                    <div key={tool.name} className="flex items-start gap-2 text-xs">
+                      <div className={cn("min-w-0 flex-1", policy === "never" && "opacity-50")}>
+                        <span className="font-medium">{tool.name}</span>
+                        {tool.description && (
+                          <span className="text-muted-foreground ml-1">- {tool.description}</span>
+                        )}
+                      </div>
+                      {policy !== "never" && (
+                        <button
+                          type="button"
+                          onClick={() => onToolPolicyChange(connection.id, tool.name, policy === "ask" ? "allow" : "ask")}
+                          className="shrink-0 rounded border border-border px-1.5 py-0.5 text-[11px] text-muted-foreground hover:text-foreground"
+                          title="Switch between running immediately and asking before each call"
+                        >
+                          {policy === "ask" ? "Ask every time" : "Always allow"}
+                        </button>
+                      )}
+                      <Switch
+                        checked={policy !== "never"}
+                        onCheckedChange={(checked) => onToolPolicyChange(connection.id, tool.name, checked ? "allow" : "never")}
+                        className="shrink-0"
+                        aria-label={`Enable ${tool.name}`}
+                      />
+                    </div>
+                  )
+                })}
               </div>
             )}
           </div>
         )}
 
+        {(connection.status === "connected" || connection.status === "error") && (
+          <div className="space-y-2">
+            <button
+              onClick={() => setShowHealth(!showHealth)}
+              className="flex w-full items-center justify-between text-sm font-medium hover:text-primary"
+            >
+              <span>Health</span>
+              {showHealth ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </button>
+            {showHealth && <McpHealthHistory connectionId={connection.id} onChecked={onHealthChecked} />}
+          </div>
+        )}
+
         <Button
           variant={connection.status === "connected" ? "outline" : "default"}
           className="w-full"
@@ -198,7 +263,7 @@ export function McpConnectionCard({
           ) : (
             <StatusIcon className="mr-2 h-4 w-4" />
           )}
-          {connection.status === "connected" ? "Disconnect" : "Connect"}
+          {connection.status === "connected" ? "Disconnect" : connection.status === "needs_auth" ? "Reconnect" : "Connect"}
         </Button>
       </CardContent>
     </Card>
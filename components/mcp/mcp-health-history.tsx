@@ -0,0 +1,146 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+
+const AUTH_TOKEN_KEY = "llmatscale_auth_token"
+
+interface McpHealthCheck {
+  id: string
+  status: "ok" | "error" | "needs_auth"
+  latencyMs: number | null
+  error: string | null
+  toolCount: number | null
+  toolsChanged: boolean
+  checkedAt: string
+}
+
+function authHeaders(): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${localStorage.getItem(AUTH_TOKEN_KEY) || ""}`,
+  }
+}
+
+function describeCheck(check: McpHealthCheck): string {
+  const time = new Date(check.checkedAt).toLocaleString()
+  if (check.status === "ok") {
+    const tools = check.toolsChanged ? `, tools changed (${check.toolCount})` : ""
+    return `${time} - OK in ${check.latencyMs}ms${tools}`
+  }
+  if (check.status === "needs_auth") return `${time} - Authorization expired`
+  return `${time} - ${check.error || "Failed"}`
+}
+
+/**
+ * Recent background health checks of one MCP connection, oldest to newest
+ */
+export function McpHealthHistory({
+  connectionId,
+  onChecked,
+}: {
+  connectionId: string
+  onChecked: () => Promise<void>
+}) {
+  const [checks, setChecks] = useState<McpHealthCheck[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isChecking, setIsChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadChecks = async () => {
+      try {
+        const res = await fetch(`/api/mcp/connections/${connectionId}/health`, { headers: authHeaders() })
+        const data = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          setError(data.error || "Failed to load health history")
+          return
+        }
+        setChecks(data.checks || [])
+      } catch {
+        setError("Failed to load health history")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    loadChecks()
+  }, [connectionId])
+
+  const checkNow = async () => {
+    setIsChecking(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/mcp/connections/${connectionId}/health`, {
+        method: "POST",
+        headers: authHeaders(),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || "Health check failed")
+        return
+      }
+      setChecks(data.checks || [])
+      await onChecked()
+    } catch {
+      setError("Health check failed")
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Loading health history...
+      </div>
+    )
+  }
+
+  const history = [...checks].reverse()
+  const okCount = checks.filter((c) => c.status === "ok").length
+  const latencies = checks.filter((c) => c.status === "ok" && c.latencyMs !== null).map((c) => c.latencyMs!)
+  const averageLatency = latencies.length > 0 ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : null
+  const lastFailure = checks.find((c) => c.status !== "ok")
+
+  return (
+    <div className="space-y-2 rounded-md bg-muted/50 p-2 text-xs">
+      {history.length === 0 ? (
+        <p className="text-muted-foreground">No health checks yet</p>
+      ) : (
+        <>
+          <div className="flex h-5 items-end gap-px" aria-label="Health history">
+            {history.map((check) => (
+              <div
+                key={check.id}
+                title={describeCheck(check)}
+                className={cn(
+                  "h-full min-w-[3px] flex-1 rounded-sm",
+                  check.status === "ok" ? "bg-status-success" : check.status === "needs_auth" ? "bg-status-warning" : "bg-status-error"
+                )}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-muted-foreground">
+            <span>{Math.round((okCount / checks.length) * 100)}% healthy over {checks.length} checks</span>
+            {averageLatency !== null && <span>avg {averageLatency}ms</span>}
+          </div>
+          {lastFailure && (
+            <p className="truncate text-muted-foreground" title={describeCheck(lastFailure)}>
+              Last failure: {describeCheck(lastFailure)}
+            </p>
+          )}
+        </>
+      )}
+
+      {error && <p className="text-destructive">{error}</p>}
+
+      <Button variant="outline" size="sm" className="h-7 w-full text-xs" onClick={checkNow} disabled={isChecking}>
+        {isChecking ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : <RefreshCw className="mr-1.5 h-3.5 w-3.5" />}
+        Check now
+      </Button>
+    </div>
+  )
+}
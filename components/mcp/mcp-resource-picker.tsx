@@ -0,0 +1,221 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { FileText, Loader2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+const AUTH_TOKEN_KEY = "llmatscale_auth_token"
+
+interface McpResource {
+  uri: string
+  name: string
+  title?: string
+  description?: string
+  mimeType?: string
+}
+
+interface McpResourceTemplate {
+  uriTemplate: string
+  name: string
+  title?: string
+  description?: string
+  mimeType?: string
+}
+
+interface McpResourceContents {
+  uri: string
+  mimeType?: string
+  text?: string
+  blob?: string
+}
+
+function authHeaders(): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${localStorage.getItem(AUTH_TOKEN_KEY) || ""}`,
+  }
+}
+
+// Variable names in an RFC 6570 template, e.g. "file:///{+path}" -> ["path"]
+function templateVariables(template: string): string[] {
+  return [...template.matchAll(/\{[+#./;?&]?([^}]+)\}/g)].flatMap((m) => m[1].split(",").map((v) => v.replace(/\*$/, "")))
+}
+
+// Level 1-2 template expansion - reserved expansion ({+var}) keeps slashes
+function expandTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{([+#]?)([^}]+)\}/g, (_, operator: string, names: string) =>
+    names
+      .split(",")
+      .map((name) => {
+        const value = values[name.replace(/\*$/, "")] ?? ""
+        return operator ? encodeURI(value) : encodeURIComponent(value)
+      })
+      .join(",")
+  )
+}
+
+function toFile(contents: McpResourceContents, name: string): File {
+  const type = contents.mimeType || "text/plain"
+  const filename = name || contents.uri.split(/[/\\]/).filter(Boolean).pop() || "resource"
+  if (contents.blob !== undefined) {
+    const bytes = Uint8Array.from(atob(contents.blob), (c) => c.charCodeAt(0))
+    return new File([bytes], filename, { type })
+  }
+  return new File([contents.text ?? ""], filename, { type })
+}
+
+/**
+ * Resources and resource templates of one MCP connection, attachable to the next message
+ */
+export function McpResourcePicker({
+  connectionId,
+  onAttach,
+}: {
+  connectionId: string
+  onAttach: (files: File[]) => void
+}) {
+  const [resources, setResources] = useState<McpResource[]>([])
+  const [templates, setTemplates] = useState<McpResourceTemplate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [readingUri, setReadingUri] = useState<string | null>(null)
+  const [openTemplate, setOpenTemplate] = useState<string | null>(null)
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    const loadResources = async () => {
+      try {
+        const res = await fetch(`/api/mcp/connections/${connectionId}/resources`, { headers: authHeaders() })
+        const data = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          setError(data.error || "Failed to load resources")
+          return
+        }
+        setResources(data.resources || [])
+        setTemplates(data.resourceTemplates || [])
+      } catch {
+        setError("Failed to load resources")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    loadResources()
+  }, [connectionId])
+
+  const attachResource = async (uri: string, name: string) => {
+    setReadingUri(uri)
+    setError(null)
+    try {
+      const res = await fetch(`/api/mcp/connections/${connectionId}/resources`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ uri }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || "Failed to read resource")
+        return
+      }
+      const contents: McpResourceContents[] = data.contents || []
+      // Multi-part resources (e.g. a directory) get their own file per entry
+      onAttach(contents.map((c, i) => toFile(c, contents.length === 1 ? name : `${name}-${i + 1}`)))
+    } catch {
+      setError("Failed to read resource")
+    } finally {
+      setReadingUri(null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 px-4 py-2 text-[13px] text-text-500">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Loading resources...
+      </div>
+    )
+  }
+
+  if (error && resources.length === 0 && templates.length === 0) {
+    return <p className="px-4 py-2 text-[13px] text-text-500">{error}</p>
+  }
+
+  if (resources.length === 0 && templates.length === 0) {
+    return <p className="px-4 py-2 text-[13px] text-text-500">No resources</p>
+  }
+
+  return (
+    <div className="pb-1">
+      {resources.map((resource) => (
+        <button
+          key={resource.uri}
+          type="button"
+          onClick={() => attachResource(resource.uri, resource.name)}
+          disabled={readingUri !== null}
+          title={resource.description || resource.uri}
+          className="flex w-[calc(100%-8px)] items-center gap-2.5 mx-1 rounded-lg px-3 py-1.5 text-left transition-colors hover:bg-bg-hover dark:hover:bg-bg-hover disabled:opacity-60"
+        >
+          {readingUri === resource.uri ? (
+            <Loader2 className="h-4 w-4 shrink-0 animate-spin text-text-500" />
+          ) : (
+            <FileText className="h-4 w-4 shrink-0 text-text-500" />
+          )}
+          <span className="truncate text-[13px] text-text-200 dark:text-foreground">{resource.title || resource.name}</span>
+        </button>
+      ))}
+
+      {templates.map((template) => {
+        const variables = templateVariables(template.uriTemplate)
+        const isOpen = openTemplate === template.uriTemplate
+        const uri = expandTemplate(template.uriTemplate, templateValues)
+        return (
+          <div key={template.uriTemplate}>
+            <button
+              type="button"
+              onClick={() => {
+                setOpenTemplate(isOpen ? null : template.uriTemplate)
+                setTemplateValues({})
+              }}
+              title={template.description || template.uriTemplate}
+              className={cn(
+                "flex w-[calc(100%-8px)] items-center gap-2.5 mx-1 rounded-lg px-3 py-1.5 text-left transition-colors hover:bg-bg-hover dark:hover:bg-bg-hover",
+                isOpen && "bg-bg-hover"
+              )}
+            >
+              <FileText className="h-4 w-4 shrink-0 text-text-500" />
+              <span className="truncate text-[13px] text-text-200 dark:text-foreground">{template.title || template.name}</span>
+              <span className="ml-auto shrink-0 text-[11px] text-text-500">template</span>
+            </button>
+            {isOpen && (
+              <form
+                className="mx-4 my-1 space-y-1.5"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  attachResource(uri, template.name)
+                }}
+              >
+                {variables.map((variable) => (
+                  <input
+                    key={variable}
+                    value={templateValues[variable] || ""}
+                    onChange={(e) => setTemplateValues((prev) => ({ ...prev, [variable]: e.target.value }))}
+                    placeholder={variable}
+                    className="w-full rounded-md border border-border bg-transparent px-2 py-1 text-[13px] outline-none focus:border-accent"
+                  />
+                ))}
+                <button
+                  type="submit"
+                  disabled={readingUri !== null || variables.some((v) => !templateValues[v])}
+                  className="w-full rounded-md bg-accent px-2 py-1 text-[13px] text-bg-0 disabled:opacity-50"
+                >
+                  {readingUri === uri ? "Attaching..." : "Attach"}
+                </button>
+              </form>
+            )}
+          </div>
+        )
+      })}
+
+      {error && <p className="px-4 py-1 text-[12px] text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -14,7 +14,9 @@ import {
 } from "lucide-react"
 
 interface FileCardProps {
-  fileId: string
+  fileId?: string
+  /** Direct source for attachments still inline (data URL) - used instead of the download route */
+  url?: string
   filename: string
   mimeType?: string
   sizeBytes?: number
@@ -58,7 +60,7 @@ function getFileCategoryAndType(filename: string): { category: string; type: str
   return { category: "File", type: filename.split(".").pop()?.toUpperCase() || "" }
 }
 
-export function FileCard({ fileId, filename, mimeType, sizeBytes, className, onPreview }: FileCardProps) {
+export function FileCard({ fileId, url: sourceUrl, filename, mimeType, sizeBytes, className, onPreview }: FileCardProps) {
   const [downloading, setDownloading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -69,9 +71,11 @@ export function FileCard({ fileId, filename, mimeType, sizeBytes, className, onP
 
     try {
       const token = localStorage.getItem("llmatscale_auth_token")
-      const res = await fetch(`/api/files/${fileId}/download`, {
-        headers: { Authorization: `Bearer ${token}` },
-      })
+      const res = sourceUrl
+        ? await fetch(sourceUrl)
+        : await fetch(`/api/files/${fileId}/download`, {
+            headers: { Authorization: `Bearer ${token}` },
+          })
 
       if (!res.ok) {
         const data = await res.json().catch(() => ({}))
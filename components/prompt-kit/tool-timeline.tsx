@@ -1,7 +1,7 @@
 "use client"
 
 import { cn } from "@/lib/utils"
-import type { ToolPart } from "@/components/prompt-kit/tool"
+import { formatToolName, ToolProgressBar, type ToolPart } from "@/components/prompt-kit/tool"
 import type { Artifact } from "@/lib/artifacts"
 import {
   Disclosure,
@@ -22,6 +22,8 @@ import {
   Loader2,
   XCircle,
   ChevronDown,
+  ShieldQuestion,
+  Ban,
 } from "lucide-react"
 import { useState, type ReactNode } from "react"
 
@@ -37,6 +39,12 @@ function getToolIcon(toolName: string, state: string): ReactNode {
   if (isError) {
     return <XCircle className="size-4 text-red-500" />
   }
+  if (state === "approval-requested") {
+    return <ShieldQuestion className="size-4 text-amber-500" />
+  }
+  if (state === "output-denied") {
+    return <Ban className="size-4 text-muted-foreground" />
+  }
 
   const name = toolName.toLowerCase()
 
@@ -83,27 +91,22 @@ const PATTERN_VERBS: [RegExp, string][] = [
   [/database|sql|db/, "Queried a database"],
 ]
 
-function getToolActionVerb(toolName: string): string {
-  if (TOOL_ACTION_VERBS[toolName]) return TOOL_ACTION_VERBS[toolName]
-  const lower = toolName.toLowerCase()
+function getToolActionVerb(toolPart: ToolPart): string {
+  if (TOOL_ACTION_VERBS[toolPart.type]) return TOOL_ACTION_VERBS[toolPart.type]
+  // Match on the server's tool name so the server namespace doesn't pick the verb
+  const lower = (toolPart.mcpSource?.toolName ?? toolPart.type.replace(/^mcp_([a-z0-9_]*?__)?/, "")).toLowerCase()
   for (const [pattern, verb] of PATTERN_VERBS) {
     if (pattern.test(lower)) return verb
   }
   // Fallback: format tool name
-  const formatted = toolName
-    .replace(/^mcp_/, "")
-    .replace(/_/g, " ")
-    .replace(/([A-Z])/g, " $1")
-    .replace(/\b\w/g, (c) => c.toUpperCase())
-    .trim()
-  return `Used ${formatted}`
+  return `Used ${formatToolName(toolPart)}`
 }
 
 function generateTimelineSummary(tools: ToolPart[]): string {
   const seen = new Set<string>()
   const verbs: string[] = []
   for (const tool of tools) {
-    const verb = getToolActionVerb(tool.type)
+    const verb = getToolActionVerb(tool)
     if (!seen.has(verb)) {
       seen.add(verb)
       verbs.push(verb)
@@ -115,23 +118,6 @@ function generateTimelineSummary(tools: ToolPart[]): string {
   return verbs.slice(0, -1).join(", ") + `, and ${verbs[verbs.length - 1].toLowerCase()}`
 }
 
-// -- Format tool name for display ----
-
-function formatToolName(name: string): string {
-  const knownNames: Record<string, string> = {
-    web_search: "Web Search",
-    web_fetch: "Web Fetch",
-    code_execution: "Code Execution",
-  }
-  if (knownNames[name]) return knownNames[name]
-  return name
-    .replace(/^mcp_/, "")
-    .replace(/_/g, " ")
-    .replace(/([A-Z])/g, " $1")
-    .replace(/\b\w/g, (c) => c.toUpperCase())
-    .trim()
-}
-
 // -- Format value for detail display ---
 
 function formatValue(value: unknown): string {
@@ -144,14 +130,18 @@ function formatValue(value: unknown): string {
 
 // -- ToolTimelineItem ----
 
+// Answer to a tool call waiting for approval (useChat's addToolApprovalResponse)
+export type ToolApprovalHandler = (response: { id: string; approved: boolean }) => void
+
 interface ToolTimelineItemProps {
   toolPart: ToolPart
   isLast: boolean
   artifact?: Artifact
   onOpenArtifact?: (artifact: Artifact) => void
+  onToolApproval?: ToolApprovalHandler
 }
 
-function ToolTimelineItem({ toolPart, isLast, artifact, onOpenArtifact }: ToolTimelineItemProps) {
+function ToolTimelineItem({ toolPart, isLast, artifact, onOpenArtifact, onToolApproval }: ToolTimelineItemProps) {
   const [detailOpen, setDetailOpen] = useState(false)
   const { state, input, output, errorText } = toolPart
   const isProcessing = state === "input-streaming" || state === "input-available"
@@ -170,20 +160,58 @@ function ToolTimelineItem({ toolPart, isLast, artifact, onOpenArtifact }: ToolTi
 
       {/* Icon */}
       <div className="relative z-10 mt-0.5 flex size-[18px] shrink-0 items-center justify-center">
-        {getToolIcon(toolPart.type, toolPart.state)}
+        {getToolIcon(toolPart.mcpSource?.toolName ?? toolPart.type, toolPart.state)}
       </div>
 
       {/* Content */}
       <div className="min-w-0 flex-1 pb-3">
         <div className="flex items-center gap-2">
           <span className="text-sm text-foreground">
-            {getToolActionVerb(toolPart.type)}
+            {getToolActionVerb(toolPart)}
           </span>
+          {toolPart.mcpSource && (
+            <span className="truncate text-xs text-muted-foreground">
+              via {toolPart.mcpSource.connectionName}
+            </span>
+          )}
           {isProcessing && (
             <Loader2 className="size-3 animate-spin text-muted-foreground" />
           )}
+          {state === "output-denied" && (
+            <span className="text-xs text-muted-foreground">Denied</span>
+          )}
         </div>
 
+        {/* MCP tools set to "ask every time" wait here until the user decides */}
+        {state === "approval-requested" && (
+          onToolApproval && toolPart.approvalId ? (
+            <div className="mt-1.5 flex items-center gap-2">
+              <span className="text-xs text-muted-foreground">Allow this tool to run?</span>
+              <button
+                type="button"
+                onClick={() => onToolApproval({ id: toolPart.approvalId!, approved: true })}
+                className="rounded-md bg-foreground px-2 py-0.5 text-xs font-medium text-background transition-opacity hover:opacity-90"
+              >
+                Approve
+              </button>
+              <button
+                type="button"
+                onClick={() => onToolApproval({ id: toolPart.approvalId!, approved: false })}
+                className="rounded-md border border-border px-2 py-0.5 text-xs font-medium text-foreground transition-colors hover:bg-muted"
+              >
+                Deny
+              </button>
+            </div>
+          ) : (
+            <div className="mt-1 text-xs text-muted-foreground">Not approved</div>
+          )
+        )}
+
+        {/* Live progress from the MCP server */}
+        {isProcessing && toolPart.progress && (
+          <ToolProgressBar progress={toolPart.progress} className="mt-1.5 max-w-xs" />
+        )}
+
         {/* Artifact tag */}
         {artifact && onOpenArtifact && (
           <button
@@ -307,6 +335,7 @@ export interface ToolTimelineProps {
   isStreaming: boolean
   artifacts?: Artifact[]
   onOpenArtifact?: (artifact: Artifact) => void
+  onToolApproval?: ToolApprovalHandler
   defaultOpen?: boolean
 }
 
@@ -315,17 +344,21 @@ export function ToolTimeline({
   isStreaming,
   artifacts = [],
   onOpenArtifact,
+  onToolApproval,
   defaultOpen = false,
 }: ToolTimelineProps) {
-  const [open, setOpen] = useState(defaultOpen)
+  const [expanded, setExpanded] = useState(defaultOpen)
+  // Pending approvals stay visible so the prompt can't be missed
+  const awaitingApproval = !!onToolApproval && tools.some((t) => t.state === "approval-requested")
+  const open = expanded || awaitingApproval
 
   const allCompleted = tools.every(
-    (t) => t.state === "output-available" || t.state === "output-error"
+    (t) => t.state === "output-available" || t.state === "output-error" || t.state === "output-denied"
   )
   const hasError = tools.some((t) => t.state === "output-error")
   const errorCount = tools.filter((t) => t.state === "output-error").length
   const completedCount = tools.filter(
-    (t) => t.state === "output-available" || t.state === "output-error"
+    (t) => t.state === "output-available" || t.state === "output-error" || t.state === "output-denied"
   ).length
   const isRunning = !allCompleted && isStreaming
 
@@ -345,7 +378,7 @@ export function ToolTimeline({
       {/* Trigger row */}
       <button
         type="button"
-        onClick={() => setOpen(!open)}
+        onClick={() => setExpanded(!open)}
         className={cn(
           "group flex w-full cursor-pointer items-center gap-2 text-sm transition-colors",
           "text-muted-foreground hover:text-foreground"
@@ -356,6 +389,8 @@ export function ToolTimeline({
           <span className={cn("transition-opacity", "group-hover:opacity-0")}>
             {isRunning ? (
               <Loader2 className="size-4 animate-spin text-blue-500" />
+            ) : awaitingApproval ? (
+              <ShieldQuestion className="size-4 text-amber-500" />
             ) : hasError ? (
               <XCircle className="size-4 text-red-500" />
             ) : (
@@ -400,9 +435,12 @@ export function ToolTimeline({
                 isLast={idx === tools.length - 1}
                 artifact={getArtifactForTool(toolPart, idx)}
                 onOpenArtifact={onOpenArtifact}
+                onToolApproval={onToolApproval}
               />
             ))}
-            <ToolTimelineDone isRunning={isRunning} errorCount={errorCount} />
+            {!tools.some((t) => t.state === "approval-requested") && (
+              <ToolTimelineDone isRunning={isRunning} errorCount={errorCount} />
+            )}
           </div>
         </div>
       </div>
@@ -22,6 +22,23 @@ export type ToolState =
   | "input-available"   // Tool input ready, waiting for execution
   | "output-available"  // Tool executed successfully
   | "output-error"      // Tool execution failed
+  | "approval-requested" // Waiting for the user to approve the call
+  | "output-denied"     // The user denied the call
+
+// Progress reported by a running MCP tool (streamed as data-mcpProgress parts)
+export type ToolProgress = {
+  progress: number
+  total?: number
+  message?: string
+}
+
+// Server and original tool name behind a namespaced MCP tool name
+// (from the assistant message's metadata.mcpTools, set by /api/chat)
+export type McpToolSource = {
+  connectionId: string
+  connectionName: string
+  toolName: string
+}
 
 // PromptKit ToolPart interface
 export type ToolPart = {
@@ -31,6 +48,49 @@ export type ToolPart = {
   output?: Record<string, unknown>
   toolCallId?: string
   errorText?: string
+  progress?: ToolProgress
+  mcpSource?: McpToolSource
+  approvalId?: string
+}
+
+// Display name for a tool - MCP tools use their name on the server
+export function formatToolName(toolPart: Pick<ToolPart, "type" | "mcpSource">): string {
+  const knownNames: Record<string, string> = {
+    'web_search': 'Web Search',
+    'web_fetch': 'Web Fetch',
+    'code_execution': 'Code Execution',
+  };
+  const name = toolPart.mcpSource?.toolName ?? toolPart.type
+  if (knownNames[name]) return knownNames[name];
+  // Convert snake_case or camelCase to Title Case
+  return name
+    .replace(/^mcp_([a-z0-9_]*?__)?/, "") // Remove mcp_<server>__ prefix
+    .replace(/_/g, " ")
+    .replace(/([A-Z])/g, " $1")
+    .replace(/\b\w/g, (c) => c.toUpperCase())
+    .trim()
+}
+
+/**
+ * Live progress of a running tool - a bar when the total is known, otherwise the count
+ */
+export function ToolProgressBar({ progress, className }: { progress: ToolProgress; className?: string }) {
+  const percent = progress.total ? Math.min(100, Math.round((progress.progress / progress.total) * 100)) : null
+  return (
+    <div className={cn("space-y-1", className)}>
+      {percent !== null && (
+        <div className="bg-muted h-1 w-full overflow-hidden rounded-full">
+          <div className="h-full rounded-full bg-blue-500 transition-[width] duration-300" style={{ width: `${percent}%` }} />
+        </div>
+      )}
+      <div className="text-muted-foreground flex justify-between gap-2 text-xs">
+        <span className="truncate">{progress.message}</span>
+        <span className="shrink-0 tabular-nums">
+          {percent !== null ? `${percent}%` : progress.progress}
+        </span>
+      </div>
+    </div>
+  )
 }
 
 export type ToolProps = {
@@ -107,6 +167,28 @@ const Tool = ({ toolPart, defaultOpen = false, className }: ToolProps) => {
             Error
           </span>
         )
+      case "approval-requested":
+        return (
+          <span
+            className={cn(
+              baseClasses,
+              "bg-status-warning-muted text-status-warning-foreground"
+            )}
+          >
+            Awaiting approval
+          </span>
+        )
+      case "output-denied":
+        return (
+          <span
+            className={cn(
+              baseClasses,
+              "bg-muted text-muted-foreground"
+            )}
+          >
+            Denied
+          </span>
+        )
       default:
         return (
           <span
@@ -121,22 +203,6 @@ const Tool = ({ toolPart, defaultOpen = false, className }: ToolProps) => {
     }
   }
 
-  const formatToolName = (name: string) => {
-    const knownNames: Record<string, string> = {
-      'web_search': 'Web Search',
-      'web_fetch': 'Web Fetch',
-      'code_execution': 'Code Execution',
-    };
-    if (knownNames[name]) return knownNames[name];
-    // Convert snake_case or camelCase to Title Case
-    return name
-      .replace(/^mcp_/, "") // Remove mcp_ prefix
-      .replace(/_/g, " ")
-      .replace(/([A-Z])/g, " $1")
-      .replace(/\b\w/g, (c) => c.toUpperCase())
-      .trim()
-  }
-
   const formatValue = (value: unknown): string => {
     if (value === null) return "null"
     if (value === undefined) return "undefined"
@@ -235,8 +301,11 @@ const Tool = ({ toolPart, defaultOpen = false, className }: ToolProps) => {
             <div className="flex items-center gap-2">
               {getStateIcon()}
               <span className="font-mono text-sm font-medium">
-                {formatToolName(toolPart.type)}
+                {formatToolName(toolPart)}
               </span>
+              {toolPart.mcpSource && (
+                <span className="text-muted-foreground text-xs">via {toolPart.mcpSource.connectionName}</span>
+              )}
               {getStateBadge()}
             </div>
             <ChevronDown className={cn("h-4 w-4 transition-transform duration-200 ease-out", isOpen ? "rotate-180" : "rotate-0")} />
@@ -311,10 +380,14 @@ const Tool = ({ toolPart, defaultOpen = false, className }: ToolProps) => {
             )}
 
             {state === "input-available" && (
-              <div className="text-muted-foreground flex items-center gap-2 text-sm">
-                <Loader2 className="h-3 w-3 animate-spin" />
-                Executing tool...
-              </div>
+              toolPart.progress ? (
+                <ToolProgressBar progress={toolPart.progress} />
+              ) : (
+                <div className="text-muted-foreground flex items-center gap-2 text-sm">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Executing tool...
+                </div>
+              )
             )}
 
             {toolCallId && (
@@ -390,6 +463,23 @@ export function convertToToolPart(part: {
   }
 }
 
+/**
+ * Latest progress of each running tool call, keyed by tool call id
+ */
+export function getToolProgress(parts: unknown[]): Record<string, ToolProgress> {
+  const progress: Record<string, ToolProgress> = {}
+  if (!Array.isArray(parts)) return progress
+
+  for (const part of parts) {
+    const p = part as { type?: string; data?: { toolCallId?: string } & ToolProgress } | null
+    if (p?.type === "data-mcpProgress" && p.data?.toolCallId) {
+      progress[p.data.toolCallId] = { progress: p.data.progress, total: p.data.total, message: p.data.message }
+    }
+  }
+
+  return progress
+}
+
 /**
  * Extract tool invocations from message parts and convert to ToolPart format
  * Handles AI SDK v3 format where tool parts have:
@@ -398,13 +488,15 @@ export function convertToToolPart(part: {
  * - toolCallId: string
  * - input: object (for input states)
  * - output: unknown (for output states)
+ * mcpTools (the message's metadata.mcpTools) attaches the server behind each MCP tool
  */
-export function extractToolParts(parts: unknown[]): ToolPart[] {
+export function extractToolParts(parts: unknown[], mcpTools?: Record<string, McpToolSource>): ToolPart[] {
   if (!Array.isArray(parts)) {
     return []
   }
 
   const toolParts: ToolPart[] = []
+  const progress = getToolProgress(parts)
 
   for (const part of parts) {
     if (typeof part !== "object" || part === null) continue
@@ -488,6 +580,16 @@ export function extractToolParts(parts: unknown[]): ToolPart[] {
           promptKitState = "output-error"
           errorText = (p.errorText as string) || 'Tool execution failed'
           break
+        case "approval-requested":
+          promptKitState = "approval-requested"
+          break
+        case "approval-responded":
+          // Approved calls run once the request resumes
+          promptKitState = (p.approval as { approved?: boolean } | undefined)?.approved ? "input-available" : "output-denied"
+          break
+        case "output-denied":
+          promptKitState = "output-denied"
+          break
         default:
           promptKitState = "input-streaming"
       }
@@ -499,6 +601,9 @@ export function extractToolParts(parts: unknown[]): ToolPart[] {
         output,
         toolCallId,
         errorText,
+        progress: promptKitState === "input-available" ? progress[toolCallId] : undefined,
+        mcpSource: mcpTools?.[toolName],
+        approvalId: (p.approval as { id?: string } | undefined)?.id,
       })
     }
   }
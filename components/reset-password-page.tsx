@@ -0,0 +1,185 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ArrowRight, Check } from "lucide-react"
+
+const inputClassName = "h-11 rounded-lg border-border bg-muted/30 transition-colors focus:bg-background"
+const buttonClassName = "h-12 w-full rounded-lg text-sm font-semibold tracking-wide shadow-md shadow-primary/15 transition-[box-shadow,colors] hover:shadow-lg hover:shadow-primary/20"
+
+/**
+ * Password reset. Without a token it asks for the account's email and sends a
+ * reset link; the emailed link opens it with ?token= to choose a new password.
+ */
+export function ResetPasswordPage() {
+    const router = useRouter()
+    const token = useSearchParams().get("token")
+    const [error, setError] = React.useState<string | null>(null)
+    const [isSubmitting, setIsSubmitting] = React.useState(false)
+    const [done, setDone] = React.useState(false)
+
+    const handleRequest = async (event: React.FormEvent<HTMLFormElement>) => {
+        event.preventDefault()
+        setError(null)
+        setIsSubmitting(true)
+
+        const formData = new FormData(event.currentTarget)
+        const email = String(formData.get("email") || "").trim().toLowerCase()
+
+        try {
+            const response = await fetch("/api/auth/password-reset", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ email }),
+            })
+            const data = await response.json().catch(() => ({}))
+
+            if (!response.ok) {
+                setError(data.error || "Failed to send the reset link.")
+                return
+            }
+            setDone(true)
+        } catch (err) {
+            console.error("Password reset request error:", err)
+            setError("Failed to send the reset link. Please try again.")
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    const handleReset = async (event: React.FormEvent<HTMLFormElement>) => {
+        event.preventDefault()
+        setError(null)
+
+        const formData = new FormData(event.currentTarget)
+        const newPassword = String(formData.get("password") || "")
+        const confirmPassword = String(formData.get("confirmPassword") || "")
+
+        if (newPassword !== confirmPassword) {
+            setError("Passwords don't match.")
+            return
+        }
+
+        setIsSubmitting(true)
+        try {
+            const response = await fetch("/api/auth/password-reset/confirm", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ token, newPassword }),
+            })
+            const data = await response.json().catch(() => ({}))
+
+            if (!response.ok) {
+                setError(data.error || "Failed to reset your password.")
+                return
+            }
+            setDone(true)
+            setTimeout(() => router.push("/"), 1500)
+        } catch (err) {
+            console.error("Password reset error:", err)
+            setError("Failed to reset your password. Please try again.")
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    const title = token ? "Choose a new password" : "Reset your password"
+    const description = token
+        ? "You'll be signed out on all your devices."
+        : "Enter your account's email and we'll send you a link to reset your password."
+
+    return (
+        <div className="flex h-screen items-center justify-center bg-background px-6">
+            <div className="w-full max-w-[400px]">
+                <div className="mb-8">
+                    <h2 className="text-2xl font-bold text-foreground">{title}</h2>
+                    <p className="mt-2 text-sm text-muted-foreground">{description}</p>
+                </div>
+
+                {error && (
+                    <div className="mb-6 rounded-lg border border-destructive/20 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+                        {error}
+                    </div>
+                )}
+
+                {done ? (
+                    <div className="flex items-start gap-3 rounded-lg border border-border bg-muted/30 px-4 py-3 text-sm text-foreground">
+                        <Check className="mt-0.5 size-4 shrink-0 text-green-600" />
+                        {token
+                            ? "Your password has been changed. Taking you to sign in..."
+                            : "If an account exists with this email, a reset link is on its way."}
+                    </div>
+                ) : token ? (
+                    <form className="space-y-5" onSubmit={handleReset}>
+                        <div>
+                            <label className="mb-2 block text-sm font-medium text-foreground">
+                                New password
+                            </label>
+                            <Input
+                                name="password"
+                                type="password"
+                                placeholder="Min. 8 characters"
+                                autoComplete="new-password"
+                                required
+                                className={inputClassName}
+                            />
+                        </div>
+                        <div>
+                            <label className="mb-2 block text-sm font-medium text-foreground">
+                                Confirm new password
+                            </label>
+                            <Input
+                                name="confirmPassword"
+                                type="password"
+                                autoComplete="new-password"
+                                required
+                                className={inputClassName}
+                            />
+                        </div>
+                        <Button type="submit" disabled={isSubmitting} className={buttonClassName}>
+                            {isSubmitting ? "Saving..." : (
+                                <>
+                                    Set new password
+                                    <ArrowRight className="ml-2 size-4" />
+                                </>
+                            )}
+                        </Button>
+                    </form>
+                ) : (
+                    <form className="space-y-5" onSubmit={handleRequest}>
+                        <div>
+                            <label className="mb-2 block text-sm font-medium text-foreground">
+                                Email address
+                            </label>
+                            <Input
+                                name="email"
+                                type="email"
+                                placeholder="name@company.com"
+                                autoComplete="email"
+                                required
+                                className={inputClassName}
+                            />
+                        </div>
+                        <Button type="submit" disabled={isSubmitting} className={buttonClassName}>
+                            {isSubmitting ? "Sending..." : (
+                                <>
+                                    Send reset link
+                                    <ArrowRight className="ml-2 size-4" />
+                                </>
+                            )}
+                        </Button>
+                    </form>
+                )}
+
+                <p className="mt-6 text-center text-sm text-muted-foreground">
+                    <Link href="/" className="font-semibold text-primary hover:text-primary/80 transition-colors">
+                        Back to sign in
+                    </Link>
+                </p>
+            </div>
+        </div>
+    )
+}
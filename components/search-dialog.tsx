@@ -0,0 +1,282 @@
+"use client"
+
+import { forwardRef, useEffect, useRef, useState } from "react"
+import { Calendar, Check, ChevronDown, Code2, Loader2, MessageSquare, Paperclip, Search } from "lucide-react"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { cn } from "@/lib/utils"
+
+const AUTH_TOKEN_KEY = "llmatscale_auth_token"
+
+export interface SearchResult {
+  conversationId: string
+  messageId: string | null
+  title: string
+  model: string
+  role: string | null
+  snippet: string
+  createdAt: string
+}
+
+interface SearchDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  models: readonly { id: string; name: string }[]
+  onSelectResult: (result: SearchResult) => void
+}
+
+const DATE_RANGES = [
+  { label: "Any time", days: null },
+  { label: "Past 7 days", days: 7 },
+  { label: "Past 30 days", days: 30 },
+  { label: "Past year", days: 365 },
+] as const
+
+// Snippets mark matches with <mark> tags; everything else is plain text and is never parsed as HTML
+function Snippet({ text }: { text: string }) {
+  const pieces = text.split(/(<mark>[\s\S]*?<\/mark>)/)
+  return (
+    <>
+      {pieces.map((piece, index) =>
+        piece.startsWith("<mark>") ? (
+          <mark key={index} className="rounded-sm bg-yellow-200/70 px-0.5 text-foreground dark:bg-yellow-500/30">
+            {piece.slice(6, -7)}
+          </mark>
+        ) : (
+          piece
+        )
+      )}
+    </>
+  )
+}
+
+const FilterButton = forwardRef<HTMLButtonElement, React.ComponentProps<"button"> & { active: boolean }>(
+  ({ active, className, ...props }, ref) => (
+    <button
+      ref={ref}
+      type="button"
+      className={cn(
+        "flex h-7 items-center gap-1.5 rounded-md border px-2.5 text-xs transition-colors",
+        active
+          ? "border-primary/40 bg-primary/10 text-foreground"
+          : "border-border text-muted-foreground hover:bg-accent hover:text-foreground",
+        className
+      )}
+      {...props}
+    />
+  )
+)
+FilterButton.displayName = "FilterButton"
+
+/**
+ * Command-palette style search over all of the user's conversations.
+ * Selecting a result opens the conversation at the matching message.
+ */
+export function SearchDialog({ open, onOpenChange, models, onSelectResult }: SearchDialogProps) {
+  const [query, setQuery] = useState("")
+  const [model, setModel] = useState<string | null>(null)
+  const [rangeDays, setRangeDays] = useState<number | null>(null)
+  const [hasArtifacts, setHasArtifacts] = useState(false)
+  const [hasFiles, setHasFiles] = useState(false)
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [activeIndex, setActiveIndex] = useState(0)
+  const listRef = useRef<HTMLUListElement>(null)
+
+  // Debounced search whenever the query or filters change
+  useEffect(() => {
+    const q = query.trim()
+    if (!open || !q) {
+      setResults([])
+      setError(null)
+      setIsSearching(false)
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ q })
+      if (model) params.set("model", model)
+      if (rangeDays) params.set("from", new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000).toISOString())
+      if (hasArtifacts) params.set("hasArtifacts", "true")
+      if (hasFiles) params.set("hasFiles", "true")
+
+      setIsSearching(true)
+      try {
+        const token = localStorage.getItem(AUTH_TOKEN_KEY) || ""
+        const response = await fetch(`/api/search?${params}`, {
+          headers: { Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        })
+        const data = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          setError(data.error || "Search failed")
+          setResults([])
+          return
+        }
+        setError(null)
+        setResults(data.results || [])
+        setActiveIndex(0)
+      } catch (err) {
+        if ((err as Error).name === "AbortError") return
+        console.error("Error searching:", err)
+        setError("Search failed")
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false)
+      }
+    }, 250)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [open, query, model, rangeDays, hasArtifacts, hasFiles])
+
+  // Keep the highlighted result visible while navigating with the keyboard
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: "nearest" })
+  }, [activeIndex])
+
+  const selectResult = (result: SearchResult) => {
+    onOpenChange(false)
+    onSelectResult(result)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (results.length === 0) return
+    if (e.key === "ArrowDown") {
+      e.preventDefault()
+      setActiveIndex((i) => (i + 1) % results.length)
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault()
+      setActiveIndex((i) => (i - 1 + results.length) % results.length)
+    } else if (e.key === "Enter") {
+      e.preventDefault()
+      const result = results[activeIndex]
+      if (result) selectResult(result)
+    }
+  }
+
+  const modelName = models.find((m) => m.id === model)?.name
+  const rangeLabel = DATE_RANGES.find((r) => r.days === rangeDays)?.label
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="top-[15%] translate-y-0 gap-0 overflow-hidden p-0 sm:max-w-[640px] data-[state=closed]:slide-out-to-top-[10%] data-[state=open]:slide-in-from-top-[10%]">
+        <DialogTitle className="sr-only">Search conversations</DialogTitle>
+        <div className="flex items-center gap-2 border-b border-border px-4">
+          {isSearching ? (
+            <Loader2 className="size-4 shrink-0 animate-spin text-muted-foreground" />
+          ) : (
+            <Search className="size-4 shrink-0 text-muted-foreground" />
+          )}
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search chats and messages"
+            className="h-12 flex-1 bg-transparent pr-8 text-sm outline-none placeholder:text-muted-foreground"
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1.5 border-b border-border px-4 py-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <FilterButton active={!!model}>
+                {modelName || "Any model"}
+                <ChevronDown className="size-3" />
+              </FilterButton>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuItem onClick={() => setModel(null)} className="gap-2">
+                <Check className={cn("size-3.5", model && "invisible")} />
+                Any model
+              </DropdownMenuItem>
+              {models.map((m) => (
+                <DropdownMenuItem key={m.id} onClick={() => setModel(m.id)} className="gap-2">
+                  <Check className={cn("size-3.5", model !== m.id && "invisible")} />
+                  {m.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <FilterButton active={!!rangeDays}>
+                <Calendar className="size-3" />
+                {rangeLabel}
+                <ChevronDown className="size-3" />
+              </FilterButton>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {DATE_RANGES.map((range) => (
+                <DropdownMenuItem key={range.label} onClick={() => setRangeDays(range.days)} className="gap-2">
+                  <Check className={cn("size-3.5", rangeDays !== range.days && "invisible")} />
+                  {range.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <FilterButton active={hasArtifacts} onClick={() => setHasArtifacts((v) => !v)}>
+            <Code2 className="size-3" />
+            Has artifacts
+          </FilterButton>
+          <FilterButton active={hasFiles} onClick={() => setHasFiles((v) => !v)}>
+            <Paperclip className="size-3" />
+            Has files
+          </FilterButton>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto">
+          {error ? (
+            <p className="px-4 py-10 text-center text-sm text-muted-foreground">{error}</p>
+          ) : !query.trim() ? (
+            <p className="px-4 py-10 text-center text-sm text-muted-foreground">
+              Search message text and chat titles. Use quotes for exact phrases.
+            </p>
+          ) : results.length === 0 ? (
+            !isSearching && <p className="px-4 py-10 text-center text-sm text-muted-foreground">No results</p>
+          ) : (
+            <ul ref={listRef} className="p-1.5">
+              {results.map((result, index) => (
+                <li key={`${result.conversationId}-${result.messageId ?? "title"}`} data-index={index}>
+                  <button
+                    type="button"
+                    onClick={() => selectResult(result)}
+                    onMouseMove={() => setActiveIndex(index)}
+                    className={cn(
+                      "flex w-full flex-col gap-1 rounded-md px-3 py-2 text-left",
+                      index === activeIndex && "bg-accent"
+                    )}
+                  >
+                    <span className="flex w-full items-center gap-2 text-xs text-muted-foreground">
+                      <MessageSquare className="size-3 shrink-0" />
+                      <span className="truncate font-medium text-foreground">{result.title}</span>
+                      <span className="ml-auto shrink-0">
+                        {result.role === "user" ? "You" : result.role === "assistant" ? "Claude" : "Title"}
+                        {" · "}
+                        {new Date(result.createdAt).toLocaleDateString()}
+                      </span>
+                    </span>
+                    {result.messageId && (
+                      <span className="line-clamp-2 text-sm text-muted-foreground">
+                        <Snippet text={result.snippet} />
+                      </span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
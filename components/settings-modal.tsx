@@ -22,7 +22,7 @@ import {
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Switch } from "@/components/ui/switch"
-import { McpConnectionCard, type McpConnectionData } from "@/components/mcp/mcp-connection-card"
+import { McpConnectionCard, type McpConnectionData, type McpToolPolicy } from "@/components/mcp/mcp-connection-card"
 import { McpAddDialog } from "@/components/mcp/mcp-add-dialog"
 import { cn } from "@/lib/utils"
 
@@ -127,6 +127,8 @@ export function SettingsModal({ open, onClose, defaultTab = "general", currentMo
   // MCP state
   const [connections, setConnections] = useState<McpConnectionData[]>([])
   const [mcpLoading, setMcpLoading] = useState(true)
+  const [localServers, setLocalServers] = useState<{ id: string; name: string; description: string | null; connectionId: string | null }[]>([])
+  const [enablingServerId, setEnablingServerId] = useState<string | null>(null)
   const [showAddDialog, setShowAddDialog] = useState(false)
   const [editingConnection, setEditingConnection] = useState<McpConnectionData | null>(null)
 
@@ -195,11 +197,17 @@ export function SettingsModal({ open, onClose, defaultTab = "general", currentMo
 
   const fetchConnections = async () => {
     try {
-      const res = await fetch("/api/mcp/connections", { headers: getAuthHeaders() })
+      const [res, localRes] = await Promise.all([
+        fetch("/api/mcp/connections", { headers: getAuthHeaders() }),
+        fetch("/api/mcp/stdio-servers", { headers: getAuthHeaders() }),
+      ])
       if (res.ok) {
         const data = await res.json()
         setConnections(data)
       }
+      if (localRes.ok) {
+        setLocalServers(await localRes.json())
+      }
     } catch (error) {
       console.error("Error fetching MCP connections:", error)
     } finally {
@@ -208,19 +216,37 @@ export function SettingsModal({ open, onClose, defaultTab = "general", currentMo
   }
 
   // Instructions
-  const loadCustomInstructions = () => {
-    const saved = localStorage.getItem(INSTRUCTIONS_KEY)
-    if (saved) setCustomInstructions(saved)
+  const loadCustomInstructions = async () => {
+    try {
+      const res = await fetch("/api/user/settings", { headers: getAuthHeaders() })
+      if (res.ok) {
+        const data = await res.json()
+        // Fall back to instructions saved locally before they were stored on the account
+        setCustomInstructions(data.customInstructions || localStorage.getItem(INSTRUCTIONS_KEY) || "")
+      }
+    } catch (error) {
+      console.error("Error loading custom instructions:", error)
+    }
   }
 
-  const handleSaveInstructions = () => {
+  const handleSaveInstructions = async () => {
     setInstructionsSaving(true)
     setInstructionsMessage(null)
     try {
-      localStorage.setItem(INSTRUCTIONS_KEY, customInstructions)
-      setInstructionsMessage({ type: "success", text: "Instructions saved successfully" })
+      const res = await fetch("/api/user/settings", {
+        method: "PATCH",
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ customInstructions }),
+      })
+      if (res.ok) {
+        localStorage.removeItem(INSTRUCTIONS_KEY)
+        setInstructionsMessage({ type: "success", text: "Instructions saved successfully" })
+      } else {
+        const data = await res.json()
+        setInstructionsMessage({ type: "error", text: data.error || "Failed to save instructions" })
+      }
     } catch {
-      setInstructionsMessage({ type: "error", text: "Failed to save instructions" })
+      setInstructionsMessage({ type: "error", text: "Network error. Please try again." })
     } finally {
       setInstructionsSaving(false)
     }
@@ -374,6 +400,7 @@ export function SettingsModal({ open, onClose, defaultTab = "general", currentMo
     name: string
     serverUrl: string
     authType: "none" | "api_key" | "oauth"
+    timeoutSeconds?: number
     oauthClientId?: string
     oauthClientSecret?: string
     apiKey?: string
@@ -391,11 +418,75 @@ export function SettingsModal({ open, onClose, defaultTab = "general", currentMo
     }
   }
 
+  // Authorize an OAuth connector in a popup; resolves true once the callback page reports success
+  const authorizeConnection = async (id: string): Promise<boolean> => {
+    const res = await fetch(`/api/mcp/connections/${id}/oauth`, { method: "POST", headers: getAuthHeaders() })
+    if (!res.ok) {
+      const error = await res.json().catch(() => ({}))
+      alert(error.error || "Failed to start authorization")
+      return false
+    }
+    const { authorizationUrl } = await res.json()
+
+    const popup = window.open(authorizationUrl, "mcp-oauth", "width=600,height=700")
+    if (!popup) {
+      // Popup blocked - authorize in this tab instead; the callback page returns to the chat
+      window.location.href = authorizationUrl
+      return false
+    }
+
+    return new Promise((resolve) => {
+      const finish = (success: boolean) => {
+        window.removeEventListener("message", handleMessage)
+        clearInterval(closedTimer)
+        resolve(success)
+      }
+      const handleMessage = (event: MessageEvent) => {
+        if (event.origin !== window.location.origin || event.data?.type !== "mcp-oauth") return
+        if (!event.data.success) alert(event.data.error || "Authorization failed")
+        finish(!!event.data.success)
+      }
+      // The user closed the popup without finishing
+      const closedTimer = setInterval(() => {
+        if (popup.closed) finish(false)
+      }, 500)
+      window.addEventListener("message", handleMessage)
+    })
+  }
+
   const handleConnect = async (id: string) => {
-    await fetch(`/api/mcp/connections/${id}/test`, { method: "POST", headers: getAuthHeaders() })
+    const res = await fetch(`/api/mcp/connections/${id}/test`, { method: "POST", headers: getAuthHeaders() })
+    const result = await res.json().catch(() => ({}))
+    // OAuth connectors without a usable token: authorize first, then connect again
+    if (result.status === "needs_auth") {
+      await fetchConnections()
+      if (await authorizeConnection(id)) {
+        await fetch(`/api/mcp/connections/${id}/test`, { method: "POST", headers: getAuthHeaders() })
+      }
+    }
     await fetchConnections()
   }
 
+  // Enable an admin-defined local server for this user, then start it
+  const handleEnableLocalServer = async (serverId: string) => {
+    setEnablingServerId(serverId)
+    try {
+      const res = await fetch("/api/mcp/connections", {
+        method: "POST",
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ stdioServer: serverId }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        alert(data.error || "Failed to enable server")
+        return
+      }
+      await handleConnect(data.id)
+    } finally {
+      setEnablingServerId(null)
+    }
+  }
+
   const handleDisconnect = async (id: string) => {
     await fetch(`/api/mcp/connections/${id}`, {
       method: "PATCH",
@@ -415,6 +506,22 @@ export function SettingsModal({ open, onClose, defaultTab = "general", currentMo
     await fetchConnections()
   }
 
+  // Saved right away - the next chat request picks up the new policy
+  const handleToolPolicyChange = async (id: string, toolName: string, policy: McpToolPolicy) => {
+    const connection = connections.find((c) => c.id === id)
+    if (!connection) return
+    const res = await fetch(`/api/mcp/connections/${id}`, {
+      method: "PATCH",
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ toolPolicies: { ...connection.toolPolicies, [toolName]: policy } }),
+    })
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}))
+      alert(data.error || "Failed to update tool")
+    }
+    await fetchConnections()
+  }
+
   const handleRefreshTools = async (id: string) => {
     await fetch(`/api/mcp/connections/${id}/discover`, { method: "POST", headers: getAuthHeaders() })
     await fetchConnections()
@@ -920,10 +1027,38 @@ export function SettingsModal({ open, onClose, defaultTab = "general", currentMo
                           onEdit={handleEditConnection}
                           onDelete={handleDeleteConnection}
                           onRefresh={handleRefreshTools}
+                          onToolPolicyChange={handleToolPolicyChange}
+                          onHealthChecked={fetchConnections}
                         />
                       ))}
                     </div>
                   )}
+
+                  {!mcpLoading && localServers.some((server) => !server.connectionId) && (
+                    <div className="space-y-3">
+                      <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                        Available on this server
+                      </h3>
+                      {localServers.filter((server) => !server.connectionId).map((server) => (
+                        <div key={server.id} className="flex items-center justify-between gap-3 rounded-lg border p-4">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium">{server.name}</p>
+                            {server.description && (
+                              <p className="text-xs text-muted-foreground">{server.description}</p>
+                            )}
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleEnableLocalServer(server.id)}
+                            disabled={enablingServerId !== null}
+                          >
+                            {enablingServerId === server.id ? "Enabling..." : "Enable"}
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -951,7 +1086,7 @@ export function SettingsModal({ open, onClose, defaultTab = "general", currentMo
                           rows={8}
                         />
                         <p className="text-xs text-muted-foreground mt-1.5">
-                          These instructions will be included as context in every new conversation.
+                          These instructions are saved to your account and included in every conversation.
                         </p>
                       </div>
 
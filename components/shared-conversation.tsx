@@ -0,0 +1,301 @@
+"use client"
+
+import { Fragment, useCallback, useEffect, useState } from "react"
+import type { FileUIPart, UIMessage } from "ai"
+import { Eye, Link2Off } from "lucide-react"
+import { Panel, Group as PanelGroup, Separator as PanelResizeHandle } from "react-resizable-panels"
+import {
+  ChatContainerContent,
+  ChatContainerRoot,
+} from "@/components/prompt-kit/chat-container"
+import { Message, MessageContent } from "@/components/prompt-kit/message"
+import { Reasoning, ReasoningTrigger, ReasoningContent } from "@/components/prompt-kit/reasoning"
+import { StreamingText } from "@/components/prompt-kit/streaming-text"
+import { ToolTimeline } from "@/components/prompt-kit/tool-timeline"
+import { FileCard } from "@/components/prompt-kit/file-card"
+import { ArtifactTile } from "@/components/prompt-kit/artifact-tile"
+import type { ToolPart } from "@/components/prompt-kit/tool"
+import { ArtifactPanelWrapper } from "@/components/artifact-panel-wrapper"
+import { ChatMessagesSkeleton } from "@/components/ui/skeleton-loaders"
+import { useFileContent } from "@/hooks/use-file-content"
+import { createFileArtifact, type Artifact } from "@/lib/artifacts"
+import { segmentMessageText } from "@/lib/artifact-parser"
+import { isPreviewableFile } from "@/lib/file-classifier"
+import { getOrderedMessageSegments, groupConsecutiveTools, getReasoningParts } from "@/lib/message-segments"
+import { cn } from "@/lib/utils"
+
+interface SharedConversationData {
+  title: string
+  model: string
+  sharedBy: string | null
+  createdAt: string
+  expiresAt: string | null
+  messages: UIMessage[]
+}
+
+type FileData = { fileId: string; filename: string; mimeType?: string; sizeBytes?: number }
+
+// Get file parts (user attachments) from a message
+function getFileParts(message: UIMessage): FileUIPart[] {
+  const parts = Array.isArray(message.parts) ? message.parts : []
+  return parts.filter((part): part is FileUIPart => part.type === "file")
+}
+
+function getMessageText(message: UIMessage): string {
+  const parts = Array.isArray(message.parts) ? message.parts : []
+  return parts
+    .filter((part) => part.type === "text")
+    .map((part) => ("text" in part ? part.text : ""))
+    .join("")
+}
+
+/**
+ * Read-only view of a conversation opened through a public share link.
+ * Renders the same message layout as the chat, without input or message actions.
+ */
+export function SharedConversation({ token }: { token: string }) {
+  const [data, setData] = useState<SharedConversationData | null>(null)
+  const [error, setError] = useState<{ status: number; message: string } | null>(null)
+
+  // Generated files are served through the token-scoped download route
+  const fileDownloadBase = `/api/share/${token}/files`
+  const { fetchFileContent, fetchFileArrayBuffer, getCache: getFileContentCache } = useFileContent(fileDownloadBase)
+
+  const [activeArtifact, setActiveArtifact] = useState<Artifact | null>(null)
+  const [allArtifacts, setAllArtifacts] = useState<Artifact[]>([])
+  const [activeArtifactIndex, setActiveArtifactIndex] = useState(0)
+  const [showArtifactPreview, setShowArtifactPreview] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    async function loadSharedConversation() {
+      try {
+        const response = await fetch(`/api/share/${token}`)
+        const body = await response.json().catch(() => ({}))
+        if (cancelled) return
+        if (!response.ok) {
+          setError({ status: response.status, message: body.error || "Failed to load conversation" })
+          return
+        }
+        setData(body)
+        document.title = body.title
+      } catch {
+        if (!cancelled) setError({ status: 500, message: "Failed to load conversation" })
+      }
+    }
+    loadSharedConversation()
+    return () => {
+      cancelled = true
+    }
+  }, [token])
+
+  const openArtifactPanel = useCallback((artifact: Artifact, artifacts: Artifact[] = []) => {
+    const list = artifacts.some((a) => a.id === artifact.id) ? artifacts : [...artifacts, artifact]
+    setActiveArtifact(artifact)
+    setAllArtifacts(list)
+    setActiveArtifactIndex(list.indexOf(artifact))
+    setShowArtifactPreview(true)
+  }, [])
+
+  const navigateArtifact = useCallback((index: number) => {
+    if (index >= 0 && index < allArtifacts.length) {
+      setActiveArtifactIndex(index)
+      setActiveArtifact(allArtifacts[index])
+    }
+  }, [allArtifacts])
+
+  const handleArtifactExitComplete = useCallback(() => {
+    setActiveArtifact(null)
+  }, [])
+
+  if (error) {
+    return (
+      <div className="flex h-svh flex-col items-center justify-center gap-3 px-6 text-center">
+        <Link2Off className="size-8 text-muted-foreground" />
+        <h1 className="text-lg font-medium">
+          {error.status === 410 ? "This link has expired" : "Conversation not available"}
+        </h1>
+        <p className="max-w-sm text-sm text-muted-foreground">
+          {error.status === 404 || error.status === 410
+            ? "The owner may have stopped sharing this conversation."
+            : error.message}
+        </p>
+      </div>
+    )
+  }
+
+  const renderFileCard = (fileData: FileData, key: string) => {
+    if (!fileData.fileId) return null
+    return (
+      <FileCard
+        key={key}
+        url={`${fileDownloadBase}/${fileData.fileId}/download`}
+        filename={fileData.filename}
+        mimeType={fileData.mimeType}
+        sizeBytes={fileData.sizeBytes}
+        onPreview={isPreviewableFile(fileData.filename, fileData.mimeType)
+          ? () => openArtifactPanel(createFileArtifact(fileData), allArtifacts)
+          : undefined}
+      />
+    )
+  }
+
+  const renderText = (content: string, key: string) => {
+    if (!content.trim()) return null
+
+    if (!content.includes("<antArtifact")) {
+      return (
+        <MessageContent key={key} role="assistant">
+          <StreamingText content={content} isStreaming={false} markdown showCursor={false} />
+        </MessageContent>
+      )
+    }
+
+    const { segments } = segmentMessageText(content)
+    return (
+      <Fragment key={key}>
+        {segments.map((segment, index) => {
+          if (segment.type === "artifact") {
+            return (
+              <ArtifactTile
+                key={segment.artifact.id}
+                artifact={segment.artifact}
+                isStreaming={false}
+                onOpenPreview={() => openArtifactPanel(segment.artifact, allArtifacts)}
+              />
+            )
+          }
+          if (!segment.content.trim()) return null
+          return (
+            <MessageContent key={`${key}-${index}`} role="assistant">
+              <StreamingText content={segment.content} isStreaming={false} markdown showCursor={false} />
+            </MessageContent>
+          )
+        })}
+      </Fragment>
+    )
+  }
+
+  return (
+    <PanelGroup orientation="horizontal" className="h-svh">
+      <Panel defaultSize={activeArtifact ? 50 : 100} minSize={30}>
+        <div className="flex h-full flex-col">
+          <header className="flex items-center justify-between gap-4 border-b border-border px-5 py-3">
+            <div className="min-w-0">
+              <h1 className="truncate text-sm font-medium">{data?.title || "Shared conversation"}</h1>
+              {data && (
+                <p className="text-xs text-muted-foreground">
+                  {data.sharedBy ? `Shared by ${data.sharedBy}` : "Shared conversation"}
+                  {data.expiresAt && ` · Link expires ${new Date(data.expiresAt).toLocaleDateString()}`}
+                </p>
+              )}
+            </div>
+            <span className="flex shrink-0 items-center gap-1.5 text-xs text-muted-foreground">
+              <Eye className="size-3.5" />
+              Read-only
+            </span>
+          </header>
+
+          {!data ? (
+            <div className="mx-auto w-full max-w-3xl px-6 py-12">
+              <ChatMessagesSkeleton />
+            </div>
+          ) : (
+            <ChatContainerRoot className="flex-1">
+              <ChatContainerContent className="space-y-0 px-5 py-12">
+                {data.messages.map((message) => {
+                  const isAssistant = message.role === "assistant"
+                  const messageSegments = isAssistant ? groupConsecutiveTools(getOrderedMessageSegments(message)) : []
+                  const reasoningParts = isAssistant ? getReasoningParts(message) : []
+
+                  return (
+                    <Message
+                      key={message.id}
+                      className={cn(
+                        "mx-auto w-full max-w-3xl items-start gap-3 px-6 pb-6",
+                        isAssistant ? "justify-start" : "justify-end"
+                      )}
+                    >
+                      {isAssistant ? (
+                        <div className="flex-1 min-w-0">
+                          {reasoningParts.length > 0 && (
+                            <Reasoning isStreaming={false}>
+                              <ReasoningTrigger>Thinking</ReasoningTrigger>
+                              <ReasoningContent
+                                markdown
+                                className="ml-2 border-l-2 border-l-slate-200 px-2 pb-1 dark:border-l-slate-700"
+                              >
+                                {reasoningParts.join("\n\n")}
+                              </ReasoningContent>
+                            </Reasoning>
+                          )}
+                          {messageSegments.map((segment, segIndex) => {
+                            if (segment.type === "tool-group") {
+                              return (
+                                <ToolTimeline
+                                  key={`timeline-${segIndex}`}
+                                  tools={segment.content as ToolPart[]}
+                                  isStreaming={false}
+                                  artifacts={allArtifacts}
+                                  onOpenArtifact={(artifact) => openArtifactPanel(artifact, allArtifacts)}
+                                />
+                              )
+                            }
+                            if (segment.type === "file") {
+                              return renderFileCard(segment.content as FileData, `file-${segIndex}`)
+                            }
+                            return renderText(segment.content as string, `text-${segIndex}`)
+                          })}
+                        </div>
+                      ) : (
+                        <div className="max-w-[85%] sm:max-w-[75%]">
+                          {getFileParts(message).map((filePart, fileIndex) => (
+                            <FileCard
+                              key={`attachment-${fileIndex}`}
+                              url={filePart.url}
+                              filename={filePart.filename || "attachment"}
+                              mimeType={filePart.mediaType}
+                              className="ml-auto"
+                            />
+                          ))}
+                          {getMessageText(message) && (
+                            <MessageContent role="user" className="inline-block w-fit max-w-full">
+                              {getMessageText(message)}
+                            </MessageContent>
+                          )}
+                        </div>
+                      )}
+                    </Message>
+                  )
+                })}
+              </ChatContainerContent>
+            </ChatContainerRoot>
+          )}
+        </div>
+      </Panel>
+
+      {activeArtifact && (
+        <>
+          <PanelResizeHandle className="w-2 bg-border hover:bg-primary/20 transition-colors cursor-col-resize flex items-center justify-center">
+            <div className="w-0.5 h-8 bg-muted-foreground/30 rounded-full" />
+          </PanelResizeHandle>
+          <Panel defaultSize={50} minSize={20}>
+            <ArtifactPanelWrapper
+              artifact={activeArtifact}
+              artifacts={allArtifacts}
+              currentIndex={activeArtifactIndex}
+              isStreaming={false}
+              onClose={() => setShowArtifactPreview(false)}
+              onNavigate={navigateArtifact}
+              onFetchFileContent={fetchFileContent}
+              onFetchFileArrayBuffer={fetchFileArrayBuffer}
+              fileContentCache={getFileContentCache}
+              isOpen={showArtifactPreview}
+              onExitComplete={handleArtifactExitComplete}
+            />
+          </Panel>
+        </>
+      )}
+    </PanelGroup>
+  )
+}
@@ -1,9 +1,10 @@
 "use client"
 
 import React, { useState, useRef, useEffect, useCallback, useImperativeHandle, forwardRef } from "react";
-import { Plus, ChevronDown, ChevronRight, ArrowUp, X, FileText, Loader2, Check, Archive, Globe, Plug, Paperclip, Settings, LayoutGrid, Square } from "lucide-react";
+import { Plus, ChevronDown, ChevronRight, ArrowUp, X, FileText, Loader2, Check, Archive, Globe, Plug, Paperclip, Settings, LayoutGrid, Square, AlertTriangle } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { formatFileSize } from "@/lib/file-utils";
+import { formatFileSize, MAX_ATTACHMENT_BYTES } from "@/lib/file-utils";
+import type { ContextWindowUsage } from "@/lib/context-window";
 
 /* --- ICONS --- */
 export const Icons = {
@@ -105,6 +106,11 @@ const FilePreviewCard: React.FC<FilePreviewCardProps> = ({ file, onRemove }) =>
                     <Icons.Loader2 className="w-5 h-5 text-white animate-spin" />
                 </div>
             )}
+            {file.uploadStatus === 'error' && (
+                <div className="absolute inset-x-0 bottom-0 bg-red-600/90 px-1 py-0.5 text-center text-[10px] font-medium text-white" title={`Files larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)} can't be attached`}>
+                    Too large
+                </div>
+            )}
         </div>
     );
 };
@@ -274,7 +280,143 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ models, selectedModel, on
     );
 };
 
-// 4. Main Chat Input Component
+// 4. Context Usage Meter
+const formatTokens = (tokens: number): string =>
+    tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 100_000 ? 0 : 1).replace(/\.0$/, '')}k` : String(tokens);
+
+const ContextUsageMeter: React.FC<{ usage: ContextWindowUsage }> = ({ usage }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const meterRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (meterRef.current && !meterRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener("mousedown", handleClickOutside);
+        return () => document.removeEventListener("mousedown", handleClickOutside);
+    }, []);
+
+    const usedTokens = usage.systemTokens + usage.messageTokens;
+    const reservedTokens = usage.maxOutputTokens + usage.safetyBufferTokens;
+    const freeTokens = Math.max(0, usage.contextWindowTokens - reservedTokens - usedTokens);
+    // Share of what the conversation may use - the response reserve isn't available to it
+    const fraction = Math.min(1, usedTokens / Math.max(1, usage.contextWindowTokens - reservedTokens));
+    const truncated = usage.droppedGroups > 0;
+    const ringColor = truncated || fraction >= 0.9 ? 'text-status-warning' : 'text-text-300';
+
+    const radius = 7;
+    const circumference = 2 * Math.PI * radius;
+
+    const rows = [
+        { label: 'System prompt & tools', tokens: usage.systemTokens },
+        { label: 'Messages', tokens: usage.messageTokens },
+        { label: 'Reserved for the response', tokens: reservedTokens },
+        { label: 'Free', tokens: freeTokens },
+    ];
+
+    return (
+        <div className="relative" ref={meterRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`h-8 w-8 flex items-center justify-center rounded-lg transition-colors cursor-pointer ${isOpen ? 'bg-bg-200 dark:bg-bg-300' : 'hover:bg-bg-200 dark:hover:bg-bg-300'}`}
+                aria-label={`Context window ${Math.round(fraction * 100)}% used`}
+                aria-expanded={isOpen}
+                type="button"
+            >
+                <svg width="18" height="18" viewBox="0 0 18 18" className={`-rotate-90 ${ringColor}`}>
+                    <circle cx="9" cy="9" r={radius} fill="none" strokeWidth="2.5" className="stroke-bg-300 dark:stroke-bg-200" />
+                    <circle
+                        cx="9"
+                        cy="9"
+                        r={radius}
+                        fill="none"
+                        strokeWidth="2.5"
+                        stroke="currentColor"
+                        strokeLinecap="round"
+                        strokeDasharray={circumference}
+                        strokeDashoffset={circumference * (1 - fraction)}
+                    />
+                </svg>
+            </button>
+
+            {isOpen && (
+                <div className="absolute bottom-full right-0 mb-2 w-[280px] bg-white dark:bg-bg-0 border border-bg-300 dark:border-bg-200 rounded-2xl shadow-2xl z-50 flex flex-col gap-2 p-3 animate-fade-in origin-bottom-right text-[12px]">
+                    <div className="flex items-baseline justify-between">
+                        <span className="text-[13px] font-semibold text-text-100">Context window</span>
+                        <span className="text-text-300">
+                            {formatTokens(usedTokens)} / {formatTokens(usage.contextWindowTokens)}
+                        </span>
+                    </div>
+
+                    <div className="flex flex-col gap-1">
+                        {rows.map((row) => (
+                            <div key={row.label} className="flex justify-between text-text-300">
+                                <span>{row.label}</span>
+                                <span className="tabular-nums">{formatTokens(row.tokens)}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    {usage.trimmedToolResults > 0 && (
+                        <p className="text-text-400">
+                            {usage.trimmedToolResults} long tool result{usage.trimmedToolResults === 1 ? ' was' : 's were'} shortened
+                        </p>
+                    )}
+
+                    {truncated && (
+                        <div className="flex gap-2 rounded-lg bg-status-warning-muted px-2 py-1.5 text-status-warning-foreground">
+                            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                            <span>
+                                The conversation no longer fits: on the last turn {usage.droppedGroups} earliest exchange{usage.droppedGroups === 1 ? ' was' : 's were'}{' '}
+                                {usage.summarized ? 'replaced by a summary' : 'left out'}.
+                            </span>
+                        </div>
+                    )}
+
+                    {usage.source === 'estimate' && (
+                        <p className="text-text-400">Token counts are estimated</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// 5. Slash Commands
+export interface SlashCommand {
+    id: string;
+    name: string;
+    description?: string;
+    source?: string; // Where the command comes from, e.g. the MCP connector name
+    arguments?: { name: string; description?: string; required?: boolean }[];
+}
+
+// The command typed at the start of the message ("/name ..."), if it is a known one
+const findSlashCommand = (text: string, commands: SlashCommand[]): SlashCommand | undefined => {
+    const name = text.match(/^\/(\S+)(?:\s|$)/)?.[1];
+    return name ? commands.find(c => c.name === name) : undefined;
+};
+
+// Arguments as key=value (quotes for spaces), or positional - the last argument takes the rest
+const parseSlashArguments = (command: SlashCommand, input: string): Record<string, string> => {
+    const named = [...input.matchAll(/([\w-]+)=(?:"([^"]*)"|(\S+))/g)];
+    if (named.length > 0) {
+        return Object.fromEntries(named.map(m => [m[1], m[2] ?? m[3]]));
+    }
+    const argDefs = command.arguments || [];
+    if (!input || argDefs.length === 0) return {};
+    const tokens = input.split(/\s+/);
+    const args: Record<string, string> = {};
+    argDefs.forEach((arg, i) => {
+        const value = i === argDefs.length - 1 ? tokens.slice(i).join(' ') : tokens[i];
+        if (value) args[arg.name] = value;
+    });
+    return args;
+};
+
+// 6. Main Chat Input Component
 export interface ClaudeChatInputHandle {
     setMessage: (text: string) => void;
     focus: () => void;
@@ -284,6 +426,7 @@ interface McpConnectionsSubmenuProps {
     activeMcpIds: string[];
     onToggle: (connectionId: string, isActive: boolean) => void;
     onManageConnectors?: () => void;
+    onAttachFiles?: (files: File[]) => void;
 }
 
 interface ClaudeChatInputProps {
@@ -307,10 +450,13 @@ interface ClaudeChatInputProps {
     onStop?: () => void;
     isThinkingEnabled?: boolean;
     onThinkingChange?: (enabled: boolean) => void;
+    slashCommands?: SlashCommand[];
+    onSlashCommand?: (command: SlashCommand, args: Record<string, string>) => void;
+    contextUsage?: ContextWindowUsage | null;
 }
 
 export const ClaudeChatInput = forwardRef<ClaudeChatInputHandle, ClaudeChatInputProps>(
-    ({ onSendMessage, models: modelsProp, defaultModel, placeholder = "How can I help you today?", webSearchEnabled, onWebSearchChange, activeMcpIds, onMcpToggle, McpConnectionsSubmenu, onManageConnectors, isLoading, onStop, isThinkingEnabled: isThinkingEnabledProp, onThinkingChange }, ref) => {
+    ({ onSendMessage, models: modelsProp, defaultModel, placeholder = "How can I help you today?", webSearchEnabled, onWebSearchChange, activeMcpIds, onMcpToggle, McpConnectionsSubmenu, onManageConnectors, isLoading, onStop, isThinkingEnabled: isThinkingEnabledProp, onThinkingChange, slashCommands, onSlashCommand, contextUsage }, ref) => {
     const [message, setMessage] = useState("");
     const [files, setFiles] = useState<AttachedFile[]>([]);
     const [pastedContent, setPastedContent] = useState<{ id: string; content: string; timestamp: Date }[]>([]);
@@ -320,6 +466,9 @@ export const ClaudeChatInput = forwardRef<ClaudeChatInputHandle, ClaudeChatInput
     const setIsThinkingEnabled = onThinkingChange ?? setIsThinkingEnabledInternal;
     const [isPlusMenuOpen, setIsPlusMenuOpen] = useState(false);
     const [isMcpSubmenuOpen, setIsMcpSubmenuOpen] = useState(false);
+    const [slashIndex, setSlashIndex] = useState(0);
+    const [slashDismissed, setSlashDismissed] = useState(false);
+    const [slashError, setSlashError] = useState<string | null>(null);
 
     const defaultModels: Model[] = [
         { id: "claude-opus-4-6", name: "Opus 4.6", description: "Most powerful, adaptive thinking" },
@@ -389,7 +538,7 @@ export const ClaudeChatInput = forwardRef<ClaudeChatInputHandle, ClaudeChatInput
                 file,
                 type: isImage ? 'image/unknown' : (file.type || 'application/octet-stream'),
                 preview: isImage ? URL.createObjectURL(file) : null,
-                uploadStatus: 'pending'
+                uploadStatus: file.size > MAX_ATTACHMENT_BYTES ? 'error' : 'pending'
             };
         });
 
@@ -405,7 +554,7 @@ export const ClaudeChatInput = forwardRef<ClaudeChatInputHandle, ClaudeChatInput
             return `Analyzed ${newFiles.length} files...`;
         });
 
-        newFiles.forEach(f => {
+        newFiles.filter(f => f.uploadStatus === 'pending').forEach(f => {
             setTimeout(() => {
                 setFiles(prev => prev.map(p => p.id === f.id ? { ...p, uploadStatus: 'complete' } : p));
             }, 800 + Math.random() * 1000);
@@ -453,9 +602,38 @@ export const ClaudeChatInput = forwardRef<ClaudeChatInputHandle, ClaudeChatInput
         }
     };
 
+    // Slash command menu - open while the command name is being typed
+    const slashQuery = onSlashCommand && !slashDismissed ? message.match(/^\/(\S*)$/)?.[1] : undefined;
+    const slashMatches = slashQuery !== undefined
+        ? (slashCommands || []).filter(c => c.name.toLowerCase().startsWith(slashQuery.toLowerCase()))
+        : [];
+    const activeSlashIndex = Math.min(slashIndex, Math.max(slashMatches.length - 1, 0));
+
+    const chooseSlashCommand = (command: SlashCommand) => {
+        setMessage(`/${command.name} `);
+        setSlashIndex(0);
+        textareaRef.current?.focus();
+    };
+
     const handleSend = () => {
         if (isLoading) return;
         if (!message.trim() && files.length === 0 && pastedContent.length === 0) return;
+
+        const command = onSlashCommand ? findSlashCommand(message.trim(), slashCommands || []) : undefined;
+        if (command) {
+            const args = parseSlashArguments(command, message.trim().slice(command.name.length + 1).trim());
+            const missing = (command.arguments || []).filter(a => a.required && !args[a.name]).map(a => a.name);
+            if (missing.length > 0) {
+                setSlashError(`/${command.name} needs ${missing.join(', ')}`);
+                return;
+            }
+            onSlashCommand!(command, args);
+            setMessage("");
+            setSlashError(null);
+            if (textareaRef.current) textareaRef.current.style.height = 'auto';
+            return;
+        }
+
         const pastedAsFiles: AttachedFile[] = pastedContent.map(p => ({
             id: p.id,
             file: new File([p.content], 'pasted-text.txt', { type: 'text/plain' }),
@@ -464,7 +642,9 @@ export const ClaudeChatInput = forwardRef<ClaudeChatInputHandle, ClaudeChatInput
             uploadStatus: 'complete',
             content: p.content,
         }));
-        onSendMessage({ message, files, pastedContent: pastedAsFiles, model: selectedModel, isThinkingEnabled });
+        // Oversized files stay out of the request - they're flagged on their preview card
+        const sendableFiles = files.filter(f => f.uploadStatus !== 'error');
+        onSendMessage({ message, files: sendableFiles, pastedContent: pastedAsFiles, model: selectedModel, isThinkingEnabled });
         setMessage("");
         setFiles([]);
         setPastedContent([]);
@@ -472,6 +652,23 @@ export const ClaudeChatInput = forwardRef<ClaudeChatInputHandle, ClaudeChatInput
     };
 
     const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (slashMatches.length > 0) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setSlashIndex((activeSlashIndex + step + slashMatches.length) % slashMatches.length);
+                return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                e.preventDefault();
+                chooseSlashCommand(slashMatches[activeSlashIndex]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                setSlashDismissed(true);
+                return;
+            }
+        }
         if (e.key === 'Escape' && isLoading && onStop) {
             onStop();
             return;
@@ -493,6 +690,35 @@ export const ClaudeChatInput = forwardRef<ClaudeChatInputHandle, ClaudeChatInput
             onDragLeave={onDragLeave}
             onDrop={onDrop}
         >
+            {/* Slash Command Menu */}
+            {slashMatches.length > 0 && (
+                <div className="absolute bottom-full left-0 right-0 mb-2 max-h-[280px] overflow-y-auto bg-white dark:bg-popover border border-border dark:border-sidebar-border rounded-xl shadow-xl z-50 py-1 animate-fade-in">
+                    {slashMatches.map((command, index) => (
+                        <button
+                            key={command.id}
+                            type="button"
+                            onMouseDown={(e) => e.preventDefault()}
+                            onMouseEnter={() => setSlashIndex(index)}
+                            onClick={() => chooseSlashCommand(command)}
+                            className={`flex w-[calc(100%-8px)] items-center gap-3 px-3 py-2 mx-1 rounded-lg text-left transition-colors ${index === activeSlashIndex ? 'bg-bg-hover dark:bg-bg-hover' : ''}`}
+                        >
+                            <span className="shrink-0 font-mono text-[13px] text-text-100">
+                                /{command.name}
+                                {command.arguments?.map(arg => (
+                                    <span key={arg.name} className="text-text-500"> {arg.required ? `<${arg.name}>` : `[${arg.name}]`}</span>
+                                ))}
+                            </span>
+                            {command.description && (
+                                <span className="truncate text-[13px] text-text-400">{command.description}</span>
+                            )}
+                            {command.source && (
+                                <span className="ml-auto shrink-0 text-[11px] text-text-500">{command.source}</span>
+                            )}
+                        </button>
+                    ))}
+                </div>
+            )}
+
             {/* Main Container */}
             <div className={`
                 !box-content flex flex-col items-stretch transition-colors duration-200 relative z-10 rounded-2xl cursor-text border border-bg-300 dark:border-transparent
@@ -529,7 +755,11 @@ export const ClaudeChatInput = forwardRef<ClaudeChatInputHandle, ClaudeChatInput
                             <textarea
                                 ref={textareaRef}
                                 value={message}
-                                onChange={(e) => setMessage(e.target.value)}
+                                onChange={(e) => {
+                                    setMessage(e.target.value);
+                                    setSlashDismissed(false);
+                                    setSlashError(null);
+                                }}
                                 onPaste={handlePaste}
                                 onKeyDown={handleKeyDown}
                                 placeholder={placeholder}
@@ -539,6 +769,9 @@ export const ClaudeChatInput = forwardRef<ClaudeChatInputHandle, ClaudeChatInput
                                 style={{ minHeight: '1.5em' }}
                             />
                         </div>
+                        {slashError && (
+                            <p className="pl-1 pt-1 text-[12px] text-red-600 dark:text-red-400">{slashError}</p>
+                        )}
                     </div>
 
                     {/* 3. Action Bar */}
@@ -625,6 +858,10 @@ export const ClaudeChatInput = forwardRef<ClaudeChatInputHandle, ClaudeChatInput
                                                                 activeMcpIds={activeMcpIds || []}
                                                                 onToggle={onMcpToggle}
                                                                 onManageConnectors={onManageConnectors}
+                                                                onAttachFiles={(attached) => {
+                                                                    handleFiles(attached);
+                                                                    setIsPlusMenuOpen(false);
+                                                                }}
                                                             />
                                                         </div>
                                                     </div>
@@ -660,6 +897,9 @@ export const ClaudeChatInput = forwardRef<ClaudeChatInputHandle, ClaudeChatInput
 
                         {/* Right Tools */}
                         <div className="flex flex-row items-center min-w-0 gap-1">
+                            {/* Context Usage Meter */}
+                            {contextUsage && <ContextUsageMeter usage={contextUsage} />}
+
                             {/* Model Selector */}
                             <div className="shrink-0 p-1 -m-1">
                                 <ModelSelector
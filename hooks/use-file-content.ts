@@ -13,7 +13,11 @@ interface CacheEntry {
 // Listeners for cache updates so components can re-render
 type CacheListener = () => void
 
-export function useFileContent() {
+/**
+ * @param downloadBase - API prefix serving `${downloadBase}/${fileId}/download`
+ *   (shared conversations use their public, token-scoped route)
+ */
+export function useFileContent(downloadBase: string = "/api/files") {
   const cacheRef = useRef<Map<string, CacheEntry>>(new Map())
   const listenersRef = useRef<Set<CacheListener>>(new Set())
   const fetchingRef = useRef<Set<string>>(new Set())
@@ -50,7 +54,7 @@ export function useFileContent() {
 
     try {
       const token = localStorage.getItem("llmatscale_auth_token")
-      const res = await fetch(`/api/files/${fileId}/download`, {
+      const res = await fetch(`${downloadBase}/${fileId}/download`, {
         headers: { Authorization: `Bearer ${token}` },
       })
 
@@ -80,7 +84,7 @@ export function useFileContent() {
       fetchingRef.current.delete(fileId)
       throw err
     }
-  }, [])
+  }, [downloadBase])
 
   const arrayBufferCacheRef = useRef<Map<string, ArrayBuffer>>(new Map())
   const arrayBufferFetchingRef = useRef<Set<string>>(new Set())
@@ -113,7 +117,7 @@ export function useFileContent() {
 
     try {
       const token = localStorage.getItem("llmatscale_auth_token")
-      const res = await fetch(`/api/files/${fileId}/download`, {
+      const res = await fetch(`${downloadBase}/${fileId}/download`, {
         headers: { Authorization: `Bearer ${token}` },
       })
 
@@ -130,7 +134,7 @@ export function useFileContent() {
       arrayBufferFetchingRef.current.delete(fileId)
       throw err
     }
-  }, [])
+  }, [downloadBase])
 
   return { fetchFileContent, fetchFileArrayBuffer, getCache }
 }
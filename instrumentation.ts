@@ -0,0 +1,9 @@
+// Runs once when the Next.js server starts
+
+export async function register() {
+  // Background jobs need Node.js APIs (child processes, timers) - not the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startMcpHealthMonitor } = await import('./lib/mcp-health');
+    startMcpHealthMonitor();
+  }
+}
@@ -1,12 +1,105 @@
 import Anthropic from '@anthropic-ai/sdk';
+import crypto from 'crypto';
+import { resolveAnthropicApiKey } from './anthropic';
+import { recordFiles, updateFile } from './storage';
+import { getObjectStorage } from './object-storage';
+import { inferMimeType } from '@/lib/file-utils';
+import type { User, File as FileRecord } from './generated/prisma/client';
 
-export { inferMimeType } from '@/lib/file-utils';
+export { inferMimeType };
 
-let client: Anthropic | null = null;
+const CLIENT_CACHE_SIZE = 200;
 
-export function getAnthropicFilesClient(): Anthropic {
-  if (!client) {
-    client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+// Files belong to the API key's workspace, so each user and key gets its own client.
+// Keyed by user id + key hash (a changed key gets a new client); Map keeps insertion
+// order, so the first key is the least recently used.
+const clients = new Map<string, Anthropic>();
+
+export function getAnthropicFilesClient(user: Pick<User, 'id' | 'anthropicApiKeyEncrypted'>): Anthropic {
+  const apiKey = resolveAnthropicApiKey(user);
+  const cacheKey = `${user.id}:${crypto.createHash('sha256').update(apiKey).digest('hex')}`;
+
+  let client = clients.get(cacheKey);
+  if (client) {
+    clients.delete(cacheKey);
+  } else {
+    client = new Anthropic({ apiKey });
+  }
+  clients.set(cacheKey, client);
+  if (clients.size > CLIENT_CACHE_SIZE) {
+    clients.delete(clients.keys().next().value!);
   }
   return client;
 }
+
+// Object key for our copy of a file - scoped per user so keys never collide
+function getStorageKey(file: Pick<FileRecord, 'userId' | 'fileId'>): string {
+  return `users/${file.userId}/files/${file.fileId}`;
+}
+
+export interface FileContent {
+  body: Buffer;
+  filename: string;
+  mimeType: string;
+}
+
+/**
+ * Copy a file from the Files API into our own storage.
+ * Files API copies expire after 30 days; ours are served from then on.
+ */
+export async function cacheFile(
+  owner: Pick<User, 'id' | 'anthropicApiKeyEncrypted'>,
+  file: FileRecord
+): Promise<FileContent> {
+  const response = await getAnthropicFilesClient(owner).beta.files.download(file.fileId);
+  const body = Buffer.from(await response.arrayBuffer());
+  const mimeType = file.mimeType || inferMimeType(file.filename);
+  const storageKey = getStorageKey(file);
+
+  await getObjectStorage().putObject(storageKey, body, { contentType: mimeType });
+  await updateFile(file.fileId, { storageKey, cachedAt: new Date(), sizeBytes: body.byteLength });
+
+  return { body, filename: file.filename, mimeType };
+}
+
+/**
+ * Read a file's bytes - from our storage when cached, otherwise from the
+ * Files API (caching it on the way so later reads survive the expiry)
+ */
+export async function readFileContent(
+  owner: Pick<User, 'id' | 'anthropicApiKeyEncrypted'>,
+  file: FileRecord
+): Promise<FileContent> {
+  if (file.storageKey) {
+    const stored = await getObjectStorage().getObject(file.storageKey);
+    if (stored) {
+      return {
+        body: stored.body,
+        filename: file.filename,
+        mimeType: stored.contentType || file.mimeType || inferMimeType(file.filename),
+      };
+    }
+    console.warn(`[Files] Cached copy missing for ${file.fileId}, falling back to the Files API`);
+  }
+
+  return cacheFile(owner, file);
+}
+
+/**
+ * Keep a file the user attached in our storage, recorded as their upload.
+ * Uploads never go through the Files API - the record's id only names our copy.
+ */
+export async function storeUploadedFile(
+  owner: { userId: string; conversationId?: string },
+  upload: { filename: string; mimeType: string; body: Buffer }
+): Promise<FileRecord | null> {
+  const fileId = `upload_${crypto.randomUUID().replace(/-/g, '')}`;
+  const storageKey = getStorageKey({ userId: owner.userId, fileId });
+
+  await getObjectStorage().putObject(storageKey, upload.body, { contentType: upload.mimeType });
+  await recordFiles(
+    [{ fileId, filename: upload.filename, mimeType: upload.mimeType, sizeBytes: upload.body.byteLength }],
+    { ...owner, source: 'upload' }
+  );
+  return updateFile(fileId, { storageKey, cachedAt: new Date() });
+}
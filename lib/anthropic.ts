@@ -1,7 +1,51 @@
-import { createAnthropic, forwardAnthropicContainerIdFromLastStep } from '@ai-sdk/anthropic';
-
-export const anthropic = createAnthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { createAnthropic, forwardAnthropicContainerIdFromLastStep, type AnthropicProvider } from '@ai-sdk/anthropic';
+import { decrypt } from './encryption';
+import type { User } from './generated/prisma/client';
 
 export { forwardAnthropicContainerIdFromLastStep };
+
+/**
+ * Thrown when a user has no usable Anthropic API key and the
+ * server key fallback is disabled by policy
+ */
+export class MissingAnthropicKeyError extends Error {
+  constructor(message = 'No Anthropic API key configured. Add your key in Settings → API Keys.') {
+    super(message);
+    this.name = 'MissingAnthropicKeyError';
+  }
+}
+
+/**
+ * Admin policy: set ANTHROPIC_ALLOW_SERVER_KEY_FALLBACK=true to let users
+ * without their own key use the process-wide ANTHROPIC_API_KEY
+ */
+function isServerKeyFallbackAllowed(): boolean {
+  return process.env.ANTHROPIC_ALLOW_SERVER_KEY_FALLBACK === 'true' && !!process.env.ANTHROPIC_API_KEY;
+}
+
+/**
+ * Resolve the Anthropic API key to use for a user's requests.
+ * Prefers the user's own encrypted key so usage is billed to their account.
+ */
+export function resolveAnthropicApiKey(user: Pick<User, 'id' | 'anthropicApiKeyEncrypted'>): string {
+  if (user.anthropicApiKeyEncrypted) {
+    try {
+      return decrypt(user.anthropicApiKeyEncrypted);
+    } catch (error) {
+      console.error(`[Anthropic] Failed to decrypt API key for user ${user.id}:`, error);
+    }
+  }
+
+  if (isServerKeyFallbackAllowed()) {
+    return process.env.ANTHROPIC_API_KEY!;
+  }
+
+  throw new MissingAnthropicKeyError();
+}
+
+/**
+ * Create an AI SDK Anthropic provider bound to the user's API key
+ */
+export function getAnthropicProvider(user: Pick<User, 'id' | 'anthropicApiKeyEncrypted'>): AnthropicProvider {
+  return createAnthropic({ apiKey: resolveAnthropicApiKey(user) });
+}
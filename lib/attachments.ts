@@ -0,0 +1,216 @@
+/**
+ * Chat attachment normalization
+ * User attachments arrive as inline `file` parts (data URLs). When a message is
+ * saved they're moved into object storage and the part references the stored
+ * file by id instead. The Anthropic provider only accepts images, PDFs and plain
+ * text, so everything else is converted to text here before the messages reach
+ * convertToModelMessages.
+ */
+
+import type { UIMessage } from 'ai';
+import { classifyFile } from '@/lib/file-classifier';
+import { readFileContent, storeUploadedFile } from '@/lib/anthropic-files';
+import { getFileByFileId } from '@/lib/storage';
+import type { User } from '@/lib/generated/prisma/client';
+
+// Image types accepted by the Messages API (svg/bmp/ico are not)
+const SUPPORTED_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+interface FileUIPartLike {
+  type: 'file';
+  mediaType: string;
+  filename?: string;
+  url: string;
+  fileId?: string; // Stored upload (see storeAttachments)
+}
+
+function getUploadUrl(fileId: string): string {
+  return `/api/files/${fileId}/download`;
+}
+
+// A part saved by storeAttachments - the bytes are in our storage
+function isStoredUpload(part: FileUIPartLike): part is FileUIPartLike & { fileId: string } {
+  return typeof part.fileId === 'string' && part.url === getUploadUrl(part.fileId);
+}
+
+function isFilePart(part: unknown): part is FileUIPartLike {
+  if (!part || typeof part !== 'object') return false;
+  const p = part as Record<string, unknown>;
+  return p.type === 'file' && typeof p.url === 'string';
+}
+
+function decodeDataUrl(url: string): Buffer | null {
+  const match = url.match(/^data:[^;,]*(;base64)?,([\s\S]*)$/);
+  if (!match) return null;
+  return match[1]
+    ? Buffer.from(match[2], 'base64')
+    : Buffer.from(decodeURIComponent(match[2]), 'utf-8');
+}
+
+function toTextFilePart(filename: string, text: string): FileUIPartLike {
+  return {
+    type: 'file',
+    mediaType: 'text/plain',
+    filename,
+    url: `data:text/plain;base64,${Buffer.from(text, 'utf-8').toString('base64')}`,
+  };
+}
+
+async function extractDocxText(buffer: Buffer): Promise<string> {
+  const mammoth = await import('mammoth');
+  const result = await mammoth.extractRawText({ buffer });
+  return result.value;
+}
+
+async function extractSpreadsheetText(buffer: Buffer): Promise<string> {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(buffer, { type: 'buffer' });
+  return workbook.SheetNames
+    .map((name) => `## Sheet: ${name}\n${XLSX.utils.sheet_to_csv(workbook.Sheets[name])}`)
+    .join('\n\n');
+}
+
+/**
+ * Convert a single attachment into a part the Anthropic provider can read.
+ * Unreadable formats become a short text note so the model knows a file was attached.
+ */
+async function normalizeFilePart(
+  part: FileUIPartLike,
+  owner: Pick<User, 'id' | 'anthropicApiKeyEncrypted'>
+): Promise<FileUIPartLike | { type: 'text'; text: string }> {
+  const filename = part.filename || 'attachment';
+
+  if (isStoredUpload(part)) {
+    const file = await getFileByFileId(part.fileId);
+    if (file?.userId !== owner.id) {
+      return { type: 'text', text: `[Attached file "${filename}" is no longer available]` };
+    }
+    const { body, mimeType } = await readFileContent(owner, file);
+    part = { type: 'file', mediaType: mimeType, filename, url: `data:${mimeType};base64,${body.toString('base64')}` };
+  } else if (!part.url.startsWith('data:')) {
+    // Never let the provider fetch a URL the client chose
+    return { type: 'text', text: `[Attached file "${filename}" could not be read]` };
+  }
+
+  const mediaType = part.mediaType || 'application/octet-stream';
+
+  if (SUPPORTED_IMAGE_TYPES.has(mediaType) || mediaType === 'application/pdf' || mediaType === 'text/plain') {
+    return part;
+  }
+
+  const buffer = decodeDataUrl(part.url);
+  if (!buffer) {
+    return { type: 'text', text: `[Attached file "${filename}" could not be decoded]` };
+  }
+
+  try {
+    const { strategy } = classifyFile(filename, mediaType.startsWith('image/') ? undefined : mediaType);
+
+    switch (strategy) {
+      case 'pdf-preview':
+        return { ...part, mediaType: 'application/pdf' };
+      case 'docx-preview':
+        return toTextFilePart(filename, await extractDocxText(buffer));
+      case 'xlsx-preview':
+        return toTextFilePart(filename, await extractSpreadsheetText(buffer));
+      case 'sandpack':
+      case 'iframe-html':
+      case 'syntax-highlight':
+      case 'markdown-render':
+      case 'mermaid-diagram':
+        return toTextFilePart(filename, buffer.toString('utf-8'));
+      default:
+        // SVG is XML - send it as text rather than dropping it
+        if (mediaType === 'image/svg+xml') {
+          return toTextFilePart(filename, buffer.toString('utf-8'));
+        }
+    }
+  } catch (error) {
+    console.error(`[Attachments] Failed to extract text from ${filename}:`, error);
+  }
+
+  return {
+    type: 'text',
+    text: `[Attached file "${filename}" (${mediaType}) is not a format the model can read]`,
+  };
+}
+
+/**
+ * Normalize attachment parts on all user messages, reading stored uploads back
+ * from the owner's storage.
+ * Returns new message objects; the originals are left untouched for persistence.
+ */
+export async function prepareAttachmentsForModel<T extends Pick<UIMessage, 'role'> & { parts?: unknown[] }>(
+  messages: T[],
+  owner: Pick<User, 'id' | 'anthropicApiKeyEncrypted'>
+): Promise<T[]> {
+  return Promise.all(
+    messages.map(async (message) => {
+      if (message.role !== 'user' || !Array.isArray(message.parts) || !message.parts.some(isFilePart)) {
+        return message;
+      }
+      const parts = await Promise.all(
+        message.parts.map((part) => (isFilePart(part) ? normalizeFilePart(part, owner) : part))
+      );
+      return { ...message, parts };
+    })
+  );
+}
+
+/**
+ * Get display names of the attachments in a list of message parts
+ */
+export function getAttachmentNames(parts: unknown[] | undefined): string[] {
+  if (!Array.isArray(parts)) return [];
+  return parts.filter(isFilePart).map((part) => part.filename || 'attachment');
+}
+
+// What a user can send - text and attachments. Anything else (file-download,
+// tool parts) is recorded by the server only.
+const CLIENT_PART_TYPES = new Set(['text', 'file']);
+
+/**
+ * Parts of a client-written message that may be saved
+ */
+export function getClientMessageParts(parts: unknown[] | undefined): unknown[] {
+  if (!Array.isArray(parts)) return [];
+  return parts.filter((part) => CLIENT_PART_TYPES.has((part as { type?: string } | null)?.type ?? ''));
+}
+
+/**
+ * Name of the first attachment that is neither inline (data URL) nor a stored
+ * upload, or null. Clients can't point the model at other URLs.
+ */
+export function findUnsupportedAttachment(messages: Array<{ parts?: unknown[] }>): string | null {
+  for (const message of messages) {
+    if (!Array.isArray(message.parts)) continue;
+    const part = message.parts.filter(isFilePart).find((p) => !p.url.startsWith('data:') && !isStoredUpload(p));
+    if (part) return part.filename || 'attachment';
+  }
+  return null;
+}
+
+/**
+ * Move inline attachments into object storage before a message is saved, so
+ * Message.parts references them by id instead of holding their bytes
+ */
+export async function storeAttachments(
+  parts: unknown[],
+  owner: { userId: string; conversationId?: string }
+): Promise<unknown[]> {
+  return Promise.all(
+    parts.map(async (part) => {
+      if (!isFilePart(part) || isStoredUpload(part)) return part;
+
+      const filename = part.filename || 'attachment';
+      const body = decodeDataUrl(part.url);
+      // Anything else was rejected by findUnsupportedAttachment - keep no URL
+      if (!body) return { type: 'text', text: `[${filename}]` };
+
+      const mimeType = part.mediaType || 'application/octet-stream';
+      const file = await storeUploadedFile(owner, { filename, mimeType, body });
+      if (!file) throw new Error(`Failed to store attachment ${filename}`);
+      return { type: 'file', mediaType: mimeType, filename, url: getUploadUrl(file.fileId), fileId: file.fileId };
+    })
+  );
+}
@@ -4,8 +4,13 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getSessionByToken } from './storage';
-import type { User } from './generated/prisma/client';
+import {
+  getSessionByToken,
+  getFileByFileId,
+  findUserFileDownloadPart,
+  recordFiles,
+} from './storage';
+import type { User, File as FileRecord } from './generated/prisma/client';
 
 export interface AuthenticatedRequest extends NextRequest {
   user?: User;
@@ -133,6 +138,44 @@ export async function requireAuth(
   return { user: auth.user };
 }
 
+/**
+ * Ownership check for Anthropic file routes
+ * Files generated before ownership was recorded are backfilled when they
+ * appear in one of the caller's conversations.
+ */
+export async function requireFileOwnership(
+  user: User,
+  fileId: string
+): Promise<{ file: FileRecord } | NextResponse> {
+  let file = await getFileByFileId(fileId);
+
+  if (!file) {
+    const legacy = await findUserFileDownloadPart(user.id, fileId);
+    if (legacy) {
+      await recordFiles(
+        [{
+          fileId,
+          filename: (legacy.part.filename as string) || 'download',
+          mimeType: legacy.part.mimeType as string | undefined,
+          sizeBytes: legacy.part.sizeBytes as number | undefined,
+        }],
+        { userId: user.id, conversationId: legacy.conversationId, messageId: legacy.messageId }
+      );
+      file = await getFileByFileId(fileId);
+    }
+  }
+
+  if (!file) {
+    return NextResponse.json({ error: 'File not found' }, { status: 404 });
+  }
+
+  if (file.userId !== user.id) {
+    return forbiddenResponse('Not authorized to access this file');
+  }
+
+  return { file };
+}
+
 /**
  * Create unauthorized response
  */
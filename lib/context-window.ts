@@ -1,22 +1,26 @@
 /**
  * Context Window Management
  *
- * Two-phase trimming to keep conversations within the Anthropic API's
- * 200K token context window:
+ * Two-phase trimming to keep conversations within the model's context window
+ * (lib/models.ts):
  *   Phase 1 — Shrink bloated tool results (code execution, web fetch HTML)
- *   Phase 2 — Remove oldest message groups until total fits under budget
+ *   Phase 2 — Remove oldest message groups until total fits under budget,
+ *             optionally summarizing them (lib/history-summary.ts)
+ *
+ * Token counts come from a TokenCounter - Anthropic's count-tokens endpoint in
+ * the chat route (lib/token-counting.ts), or the local estimator below.
  */
 
+import { DEFAULT_MODEL_ID, getModelRequestLimits } from './models';
+
 // Types from Vercel AI SDK (ModelMessage union)
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-type ModelMessage = { role: string; content: any; providerOptions?: any };
+export type ModelMessage = { role: string; content: any; providerOptions?: any };
 
 // ---------------------------------------------------------------------------
 // Configuration
 // ---------------------------------------------------------------------------
 
-const CONTEXT_WINDOW_TOKENS = 200_000;
-const MAX_OUTPUT_TOKENS = 65_536;
 const SAFETY_BUFFER_TOKENS = 4_000;
 
 /** Max characters allowed in a single tool-result output value */
@@ -24,20 +28,122 @@ const TOOL_RESULT_CHAR_LIMIT = 12_000;
 const TOOL_RESULT_HEAD_CHARS = 4_000;
 const TOOL_RESULT_TAIL_CHARS = 2_000;
 
+/** Room kept for the summary of dropped history, and the longest summary generated */
+export const HISTORY_SUMMARY_MAX_TOKENS = 2_000;
+
+/** How many groups are counted at once when the count comes from an API */
+const GROUP_COUNT_CONCURRENCY = 4;
+
 export interface ContextWindowOptions {
+  modelId?: string; // Window and output limits come from the model registry
+  tools?: ToolDefinition[]; // Sent with every request, so counted like the system prompt
   contextWindowTokens?: number;
   maxOutputTokens?: number;
   safetyBufferTokens?: number;
   keepFirstUserMessage?: boolean;
+  tokenCounter?: TokenCounter;
+  summarizeDropped?: HistorySummarizer;
+}
+
+/**
+ * Summarizes the message groups dropped from the conversation, oldest first.
+ * Returns null when no summary could be made - a note is used instead.
+ */
+export type HistorySummarizer = (droppedGroups: ModelMessage[][]) => Promise<string | null>;
+
+/** A function tool as the model receives it */
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema: unknown; // JSON Schema
+}
+
+/** Counts tokens for the budget - exact (API) or estimated */
+export interface TokenCounter {
+  /** The system prompt together with the tool definitions */
+  countSystem(systemPrompt: string, tools?: ToolDefinition[]): Promise<number>;
+  countMessages(messages: ModelMessage[]): Promise<number>;
+  /** 'estimate' once any count had to fall back to the local estimator */
+  readonly source: 'api' | 'estimate';
+}
+
+/** Where the context window went for one request - sent to the client */
+export interface ContextWindowUsage {
+  contextWindowTokens: number;
+  maxOutputTokens: number;
+  safetyBufferTokens: number;
+  systemTokens: number; // System prompt and tool definitions
+  messageTokens: number; // After fitting
+  budgetTokens: number; // Available for messages
+  droppedGroups: number;
+  trimmedToolResults: number; // Shortened in phase 1
+  summarized: boolean; // Dropped groups were replaced by a summary
+  source: 'api' | 'estimate';
 }
 
 // ---------------------------------------------------------------------------
 // Token estimation
 // ---------------------------------------------------------------------------
 
-/** Rough token estimate: ~4 characters per token */
+// Pieces roughly as Claude's tokenizer splits text: CJK characters, ASCII words,
+// other-script words, digit runs, whitespace runs and single symbols
+const TOKEN_PIECE_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[A-Za-z]+|\p{L}+|\p{N}+|\s+|[^\s\p{L}\p{N}]/gu;
+
+/**
+ * Local token estimate, used when the count-tokens endpoint can't be reached.
+ * Common English words are one token and longer ones one per ~5 letters; other
+ * scripts and CJK take far more tokens per character than English does.
+ */
 export function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+  if (!text) return 0;
+
+  let tokens = 0;
+  for (const [piece] of text.matchAll(TOKEN_PIECE_PATTERN)) {
+    const code = piece.codePointAt(0)!;
+    if (/[A-Za-z]/.test(piece[0])) {
+      tokens += piece.length <= 6 ? 1 : Math.ceil(piece.length / 5);
+    } else if (/\p{N}/u.test(piece[0])) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (/\s/.test(piece[0])) {
+      // A single space merges into the next word; indentation and blank lines don't
+      tokens += piece === ' ' ? 0 : Math.ceil(piece.length / 4);
+    } else if (/\p{L}/u.test(piece[0])) {
+      // CJK characters match one at a time; other scripts average ~2 characters a token
+      tokens += code >= 0x3000 ? 1 : Math.ceil(piece.length / 2);
+    } else {
+      // Punctuation, symbols and emoji (emoji are usually 2-3 tokens)
+      tokens += code > 0xffff ? 2 : 1;
+    }
+  }
+  return tokens;
+}
+
+/** Base64 payload of a data URL or raw base64 string, if it is one */
+function getBase64Data(data: unknown): string | null {
+  if (typeof data !== 'string') return null;
+  const match = data.match(/^data:[^;,]*;base64,([\s\S]*)$/);
+  return match ? match[1] : data.includes(':') ? null : data;
+}
+
+/** Estimate for an attached image or document */
+function estimateFileTokens(part: { mediaType?: string; mimeType?: string; data?: unknown; image?: unknown }): number {
+  const mediaType = part.mediaType ?? part.mimeType ?? (part.image ? 'image/*' : '');
+  const base64 = getBase64Data(part.data ?? part.image);
+
+  // Images are resized to at most ~1.15 megapixels, ~1600 tokens
+  if (mediaType.startsWith('image/')) return 1600;
+
+  if (base64 !== null && mediaType.startsWith('text/')) {
+    return estimateTokens(Buffer.from(base64, 'base64').toString('utf-8'));
+  }
+
+  // Each PDF page is sent as text plus an image of the page
+  if (base64 !== null && mediaType === 'application/pdf') {
+    const pages = Buffer.from(base64, 'base64').toString('latin1').match(/\/Type\s*\/Page[^s]/g)?.length || 1;
+    return pages * 2000;
+  }
+
+  return 1000;
 }
 
 /** Estimate tokens for a single model message (all content types). */
@@ -69,8 +175,7 @@ export function estimateMessageTokens(msg: ModelMessage): number {
         break;
       case 'image':
       case 'file':
-        // Images/files use a fixed budget — the actual data is base64 or a URL
-        tokens += 1000;
+        tokens += estimateFileTokens(part);
         break;
       default:
         tokens += estimateTokens(JSON.stringify(part));
@@ -79,6 +184,20 @@ export function estimateMessageTokens(msg: ModelMessage): number {
   return tokens;
 }
 
+/**
+ * Estimate tokens for tool definitions from their JSON
+ */
+export function estimateToolTokens(tools: ToolDefinition[] = []): number {
+  return tools.reduce((sum, t) => sum + estimateTokens(JSON.stringify(t)), 0);
+}
+
+/** Counts with the local estimator only */
+export const estimatingTokenCounter: TokenCounter = {
+  countSystem: async (systemPrompt, tools) => estimateTokens(systemPrompt) + estimateToolTokens(tools),
+  countMessages: async (messages) => messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0),
+  source: 'estimate',
+};
+
 function estimateToolResultTokens(output: unknown): number {
   if (output == null) return 0;
   if (typeof output === 'string') return estimateTokens(output);
@@ -191,6 +310,16 @@ export function trimToolResults(messages: ModelMessage[]): ModelMessage[] {
   });
 }
 
+/** How many tool results trimToolResults shortened */
+function countTrimmedToolResults(original: ModelMessage[], trimmed: ModelMessage[]): number {
+  let count = 0;
+  trimmed.forEach((msg, i) => {
+    if (msg === original[i]) return;
+    count += (msg.content as unknown[]).filter((part, j) => part !== original[i].content[j]).length;
+  });
+  return count;
+}
+
 // ---------------------------------------------------------------------------
 // Phase 1.5 — Ensure tool_use / tool_result pairing
 // ---------------------------------------------------------------------------
@@ -312,17 +441,22 @@ export function identifyMessageGroups(messages: ModelMessage[]): MessageGroup[]
   return groups;
 }
 
-/** Phase 2: Drop oldest message groups until total fits within tokenBudget. */
+/**
+ * Phase 2: Drop oldest message groups until total fits within tokenBudget.
+ * Pass groups to use token counts other than the local estimate, and a summary
+ * of the dropped groups to stand in for them.
+ */
 export function truncateMessages(
   messages: ModelMessage[],
   tokenBudget: number,
   keepFirstUserMessage = false,
-): ModelMessage[] {
-  const groups = identifyMessageGroups(messages);
-  if (groups.length === 0) return messages;
-
+  groups: MessageGroup[] = identifyMessageGroups(messages),
+  summary?: string,
+): { messages: ModelMessage[]; dropped: ModelMessage[][]; tokens: number } {
   const totalTokens = groups.reduce((sum, g) => sum + g.tokens, 0);
-  if (totalTokens <= tokenBudget) return messages;
+  if (groups.length === 0 || totalTokens <= tokenBudget) {
+    return { messages, dropped: [], tokens: totalTokens };
+  }
 
   // Always keep the last group (current exchange)
   let keptTokens = groups[groups.length - 1].tokens;
@@ -361,13 +495,16 @@ export function truncateMessages(
   if (droppedGroups > 0) {
     result.push({
       role: 'user',
-      content: `[Note: ${droppedGroups} earlier message group(s) were omitted to fit within the context window. The conversation continues below.]`,
+      content: summary
+        ? `[Summary of ${droppedGroups} earlier message group(s), omitted to fit within the context window:]\n\n${summary}\n\n[The conversation continues below.]`
+        : `[Note: ${droppedGroups} earlier message group(s) were omitted to fit within the context window. The conversation continues below.]`,
     });
     // Need an assistant ack to maintain role alternation
     result.push({
       role: 'assistant',
       content: [{ type: 'text', text: 'Understood, continuing from the available context.' }],
     });
+    keptTokens += estimateMessageTokens(result[result.length - 2]) + estimateMessageTokens(result[result.length - 1]);
   }
 
   // Add kept groups from firstKeptGroupIndex onward
@@ -378,55 +515,110 @@ export function truncateMessages(
     }
   }
 
-  return result;
+  const firstDroppedGroupIndex = firstGroupKept ? 1 : 0;
+  const dropped = groups
+    .slice(firstDroppedGroupIndex, firstDroppedGroupIndex + droppedGroups)
+    .map((g) => messages.slice(g.startIndex, g.endIndex + 1));
+
+  return { messages: result, dropped, tokens: keptTokens };
 }
 
 // ---------------------------------------------------------------------------
 // Main export
 // ---------------------------------------------------------------------------
 
+/** Run fn over items with at most `limit` calls in flight */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
 /**
- * Fit messages into the Anthropic context window.
+ * Fit messages into the model's context window.
  *
  * 1. Trims oversized tool results (code execution output, web fetch HTML)
- * 2. Removes oldest message groups until total fits under the token budget
+ * 2. Removes oldest message groups until total fits under the token budget,
+ *    replacing them with a summary when a summarizer is given
+ *
+ * Returns the fitted messages and how the window was used.
  */
-export function fitMessagesToContextWindow(
+export async function fitMessagesToContextWindow(
   messages: ModelMessage[],
   systemPrompt: string,
   options?: ContextWindowOptions,
-): ModelMessage[] {
-  const contextWindow = options?.contextWindowTokens ?? CONTEXT_WINDOW_TOKENS;
-  const maxOutput = options?.maxOutputTokens ?? MAX_OUTPUT_TOKENS;
+): Promise<{ messages: ModelMessage[]; usage: ContextWindowUsage }> {
+  const limits = getModelRequestLimits(options?.modelId ?? DEFAULT_MODEL_ID);
+  const contextWindow = options?.contextWindowTokens ?? limits.contextWindowTokens;
+  const maxOutput = options?.maxOutputTokens ?? limits.maxOutputTokens;
   const safetyBuffer = options?.safetyBufferTokens ?? SAFETY_BUFFER_TOKENS;
   const keepFirst = options?.keepFirstUserMessage ?? false;
+  const counter = options?.tokenCounter ?? estimatingTokenCounter;
 
-  const systemPromptTokens = estimateTokens(systemPrompt);
+  const systemPromptTokens = await counter.countSystem(systemPrompt, options?.tools);
   const tokenBudget = contextWindow - maxOutput - safetyBuffer - systemPromptTokens;
 
-  console.log(`[ContextWindow] Budget calculation: ${contextWindow} - ${maxOutput} - ${safetyBuffer} - ${systemPromptTokens} (system) = ${tokenBudget} tokens for messages`);
+  console.log(`[ContextWindow] Budget calculation: ${contextWindow} - ${maxOutput} - ${safetyBuffer} - ${systemPromptTokens} (system + ${options?.tools?.length ?? 0} tools) = ${tokenBudget} tokens for messages`);
 
   // Phase 1: Trim bloated tool results
   const trimmed = trimToolResults(messages);
+  const trimmedToolResults = countTrimmedToolResults(messages, trimmed);
+
+  const usage = (messageTokens: number, droppedGroups: number, summarized = false): ContextWindowUsage => ({
+    contextWindowTokens: contextWindow,
+    maxOutputTokens: maxOutput,
+    safetyBufferTokens: safetyBuffer,
+    systemTokens: systemPromptTokens,
+    messageTokens,
+    budgetTokens: tokenBudget,
+    droppedGroups,
+    trimmedToolResults,
+    summarized,
+    source: counter.source,
+  });
 
   // Phase 1.5: Ensure every tool_use has a matching tool_result
   const paired = ensureToolResultPairing(trimmed);
-  const afterPhase1Tokens = paired.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
-  console.log(`[ContextWindow] After phase 1 (tool trimming + pairing): ~${afterPhase1Tokens} tokens across ${paired.length} messages`);
+  const afterPhase1Tokens = await counter.countMessages(paired);
+  console.log(`[ContextWindow] After phase 1 (tool trimming + pairing): ${afterPhase1Tokens} tokens (${counter.source}) across ${paired.length} messages`);
 
   if (afterPhase1Tokens <= tokenBudget) {
     console.log(`[ContextWindow] Messages fit within budget, no truncation needed`);
-    return paired;
+    return { messages: paired, usage: usage(afterPhase1Tokens, 0) };
   }
 
-  // Phase 2: Remove oldest message groups
-  console.log(`[ContextWindow] Messages exceed budget by ~${afterPhase1Tokens - tokenBudget} tokens, truncating...`);
-  const truncated = truncateMessages(paired, tokenBudget, keepFirst);
+  // Phase 2: Remove oldest message groups, counting each group the same way
+  console.log(`[ContextWindow] Messages exceed budget by ${afterPhase1Tokens - tokenBudget} tokens, truncating...`);
+  const groups = identifyMessageGroups(paired);
+  const groupTokens = await mapWithConcurrency(groups, GROUP_COUNT_CONCURRENCY, (g) =>
+    counter.countMessages(paired.slice(g.startIndex, g.endIndex + 1))
+  );
+  groups.forEach((g, i) => { g.tokens = groupTokens[i]; });
+
+  // Leave room for a summary of what gets dropped
+  const summarize = options?.summarizeDropped;
+  const truncationBudget = summarize ? tokenBudget - HISTORY_SUMMARY_MAX_TOKENS : tokenBudget;
+  let truncated = truncateMessages(paired, truncationBudget, keepFirst, groups);
+
+  let summarized = false;
+  if (summarize && truncated.dropped.length > 0) {
+    const summary = await summarize(truncated.dropped);
+    if (summary) {
+      truncated = truncateMessages(paired, truncationBudget, keepFirst, groups, summary);
+      summarized = true;
+    }
+  }
 
   // Final safety: ensure truncation didn't break any tool pairs
-  const finalMessages = ensureToolResultPairing(truncated);
-  const afterPhase2Tokens = finalMessages.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
-  console.log(`[ContextWindow] After phase 2 (truncation): ~${afterPhase2Tokens} tokens across ${finalMessages.length} messages`);
+  const finalMessages = ensureToolResultPairing(truncated.messages);
+  console.log(`[ContextWindow] After phase 2 (truncation): ${truncated.tokens} tokens across ${finalMessages.length} messages, ${truncated.dropped.length} group(s) ${summarized ? 'summarized' : 'dropped'}`);
 
-  return finalMessages;
+  return { messages: finalMessages, usage: usage(truncated.tokens, truncated.dropped.length, summarized) };
 }
@@ -110,3 +110,10 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
 export function generateToken(length: number = 32): string {
   return crypto.randomBytes(length).toString('hex');
 }
+
+/**
+ * One-way hash of a token for storage (password reset tokens are only stored hashed)
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
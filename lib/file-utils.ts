@@ -4,6 +4,9 @@
  * to avoid duplication.
  */
 
+// Largest file the chat input will attach (sent inline as a data URL)
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
 export function formatFileSize(bytes: number): string {
   if (bytes === 0) return ""
   if (bytes < 1024) return `${bytes} B`
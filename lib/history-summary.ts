@@ -0,0 +1,153 @@
+/**
+ * Rolling summaries of conversation history dropped from the context window
+ *
+ * The summary is stored on the conversation along with how many message groups
+ * it covers and a hash of them. When more groups are dropped later, only the new
+ * ones are folded into the stored summary; if the covered groups changed (another
+ * branch, an edit), the summary is rebuilt from scratch.
+ */
+
+import { generateText } from 'ai';
+import type { AnthropicProvider } from '@ai-sdk/anthropic';
+import crypto from 'crypto';
+import {
+  estimateMessageTokens,
+  HISTORY_SUMMARY_MAX_TOKENS,
+  type HistorySummarizer,
+  type ModelMessage,
+} from './context-window';
+import { SUMMARY_MODEL_ID } from './models';
+import { getConversationHistorySummary, setConversationHistorySummary } from './storage';
+
+/** Most history sent to the summary model at once - well inside its window */
+const CHUNK_TOKENS = 100_000;
+
+/** Longest single text, tool input or tool result in the transcript */
+const TRANSCRIPT_PART_CHARS = 4_000;
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of the earlier part of a conversation between a user and an AI assistant. That part no longer fits in the assistant's context window, so your summary is all the assistant will know about it.
+
+Keep what the assistant needs to continue: the user's goals and preferences, decisions and conclusions reached, facts, names, numbers and code identifiers that may come up again, files and tool results that mattered, and open questions. Drop pleasantries and repetition.
+
+Write compact prose or bullet points in the language of the conversation, under ${Math.floor(HISTORY_SUMMARY_MAX_TOKENS * 0.6)} words. Output only the summary.`;
+
+interface StoredHistorySummary {
+  text: string;
+  groupCount: number;
+  hash: string; // Of the groups the summary covers
+}
+
+function hashGroups(groups: ModelMessage[][]): string {
+  return crypto.createHash('sha256').update(JSON.stringify(groups)).digest('hex');
+}
+
+function clip(text: string): string {
+  return text.length > TRANSCRIPT_PART_CHARS ? `${text.slice(0, TRANSCRIPT_PART_CHARS)} [...]` : text;
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === 'string') return value;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const out = value as any;
+  if (out && (out.type === 'text' || out.type === 'error-text')) return String(out.value ?? '');
+  return JSON.stringify(out?.value ?? value ?? null);
+}
+
+/** Plain-text transcript of message groups for the summary model */
+function toTranscript(groups: ModelMessage[][]): string {
+  const lines: string[] = [];
+  for (const message of groups.flat()) {
+    const speaker = message.role === 'assistant' ? 'Assistant' : message.role === 'tool' ? 'Tool' : 'User';
+    if (typeof message.content === 'string') {
+      lines.push(`${speaker}: ${clip(message.content)}`);
+      continue;
+    }
+    if (!Array.isArray(message.content)) continue;
+
+    for (const part of message.content) {
+      switch (part?.type) {
+        case 'text':
+          if (part.text) lines.push(`${speaker}: ${clip(part.text)}`);
+          break;
+        case 'tool-call':
+          lines.push(`${speaker} called ${part.toolName}: ${clip(JSON.stringify(part.input ?? {}))}`);
+          break;
+        case 'tool-result':
+          lines.push(`Result of ${part.toolName}: ${clip(stringify(part.output ?? part.result))}`);
+          break;
+        case 'image':
+        case 'file':
+          lines.push(`${speaker} attached ${part.filename || part.mediaType || 'a file'}`);
+          break;
+        // Reasoning is left out - its conclusions are in the text that follows
+      }
+    }
+  }
+  return lines.join('\n\n');
+}
+
+async function summarizeChunk(
+  anthropic: AnthropicProvider,
+  previousSummary: string,
+  groups: ModelMessage[][]
+): Promise<string> {
+  const { text } = await generateText({
+    model: anthropic(SUMMARY_MODEL_ID),
+    system: SUMMARY_SYSTEM_PROMPT,
+    maxOutputTokens: HISTORY_SUMMARY_MAX_TOKENS,
+    prompt: previousSummary
+      ? `Summary so far:\n\n${previousSummary}\n\nThe conversation continued:\n\n${toTranscript(groups)}\n\nWrite the updated summary covering both.`
+      : `Conversation:\n\n${toTranscript(groups)}\n\nWrite the summary.`,
+  });
+  return text.trim();
+}
+
+/**
+ * Summarizer for one conversation's chat request, using the fast model on the
+ * user's own key
+ */
+export function createHistorySummarizer(
+  conversationId: string,
+  userId: string,
+  anthropic: AnthropicProvider
+): HistorySummarizer {
+  return async (dropped) => {
+    try {
+      // Reuse the stored summary when it covers the start of what is dropped now
+      const stored = (await getConversationHistorySummary(conversationId, userId)) as StoredHistorySummary | null;
+      let summary = '';
+      let covered = 0;
+      if (
+        stored &&
+        stored.groupCount <= dropped.length &&
+        stored.hash === hashGroups(dropped.slice(0, stored.groupCount))
+      ) {
+        summary = stored.text;
+        covered = stored.groupCount;
+      }
+
+      if (covered === dropped.length) return summary || null;
+
+      // Fold in the newly dropped groups, as many as fit in one request at a time
+      while (covered < dropped.length) {
+        let end = covered;
+        let tokens = 0;
+        do {
+          tokens += dropped[end].reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+          end++;
+        } while (end < dropped.length && tokens < CHUNK_TOKENS);
+
+        summary = await summarizeChunk(anthropic, summary, dropped.slice(covered, end));
+        covered = end;
+      }
+
+      const updated: StoredHistorySummary = { text: summary, groupCount: covered, hash: hashGroups(dropped) };
+      await setConversationHistorySummary(conversationId, userId, updated);
+      console.log(`[HistorySummary] Summarized ${covered} dropped group(s) of ${conversationId}`);
+      return summary;
+    } catch (error) {
+      console.error('[HistorySummary] Failed to summarize dropped history:', error);
+      return null;
+    }
+  };
+}
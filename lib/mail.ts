@@ -0,0 +1,135 @@
+/**
+ * Outgoing mail
+ * Routes send through a MailTransport chosen by MAIL_TRANSPORT:
+ * - smtp:    deliver via SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASSWORD / SMTP_SECURE
+ * - file:    write each message as JSON into MAIL_FILE_DIR (default .mail/) for dev and tests
+ * - console: log the recipient and subject (default when SMTP_HOST is not set).
+ *            Bodies can hold live reset links, so they are only printed with
+ *            MAIL_LOG_BODY=true outside production.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from: config.from, ...message });
+    },
+  };
+}
+
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+      const sentAt = new Date();
+      const filename = `${sentAt.getTime()}-${Math.random().toString(36).slice(2, 8)}.json`;
+      await fs.writeFile(
+        path.join(directory, filename),
+        JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2)
+      );
+    },
+  };
+}
+
+export function createConsoleTransport(options: { logBody?: boolean } = {}): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}`);
+      if (options.logBody) console.log(message.text);
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Get the configured transport (created once per process)
+ */
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+
+  switch (kind) {
+    case 'smtp': {
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST environment variable is not set');
+      }
+      const port = parseInt(process.env.SMTP_PORT || '587', 10);
+      transport = createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from: process.env.MAIL_FROM || 'LLMatscale.ai <no-reply@llmatscale.ai>',
+      });
+      break;
+    }
+    case 'file':
+      transport = createFileTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), '.mail'));
+      break;
+    case 'console':
+      transport = createConsoleTransport({
+        logBody: process.env.MAIL_LOG_BODY === 'true' && process.env.NODE_ENV !== 'production',
+      });
+      break;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}" (expected smtp, file or console)`);
+  }
+
+  return transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
+
+export async function sendPasswordResetEmail(to: string, resetUrl: string, expiresInMinutes: number): Promise<void> {
+  await sendMail({
+    to,
+    subject: 'Reset your LLMatscale.ai password',
+    text: [
+      'We received a request to reset the password for your account.',
+      '',
+      `Open this link to choose a new password (valid for ${expiresInMinutes} minutes):`,
+      resetUrl,
+      '',
+      "If you didn't request this, you can ignore this email - your password won't change.",
+    ].join('\n'),
+  });
+}
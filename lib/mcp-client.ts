@@ -3,10 +3,22 @@
  * Handles connection to MCP servers and tool execution
  */
 
-import { getMcpConnection } from './storage';
+import { getMcpConnection, updateMcpConnection } from './storage';
 import { decrypt } from './encryption';
-import { tool } from 'ai';
+import { getMcpAccessToken, McpAuthorizationError } from './mcp-oauth';
+import { initializeStdioMcpServer, requestStdioMcp, type JsonRpcMessage } from './mcp-stdio';
+import {
+  getInitializeParams,
+  getNextListCursor,
+  parseInitializeResult,
+  type McpInitializeResult,
+  type McpServerCapabilities,
+} from './mcp-protocol';
+import type { McpConnection } from './generated/prisma/client';
+import type { McpToolPolicy } from './validation';
+import { jsonSchema, tool, type JSONSchema7 } from 'ai';
 import { z } from 'zod';
+import crypto from 'crypto';
 
 export interface McpTool {
   name: string;
@@ -15,6 +27,7 @@ export interface McpTool {
     type?: string;
     properties?: Record<string, unknown>;
     required?: string[];
+    [keyword: string]: unknown;
   };
 }
 
@@ -34,148 +47,121 @@ export interface McpToolResult {
 }
 
 /**
- * Get authentication headers for an MCP connection
+ * Authorization header for an MCP connection (API key, or an OAuth access token
+ * refreshed when close to expiry). Throws McpAuthorizationError when OAuth needs the user.
  */
-async function getAuthHeaders(connectionId: string): Promise<{ headers: Record<string, string>; sessionId?: string | null }> {
-  const connection = await getMcpConnection(connectionId);
-
-  if (!connection) {
-    throw new Error('MCP connection not found');
-  }
-
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'Accept': 'application/json, text/event-stream',
-  };
-
-  // Add session ID for stateful MCP servers
-  if (connection.sessionId) {
-    headers['Mcp-Session-Id'] = connection.sessionId;
+export async function getMcpAuthorizationHeader(
+  connection: McpConnection,
+  options: { forceRefresh?: boolean } = {}
+): Promise<Record<string, string>> {
+  if (connection.authType === 'oauth') {
+    return { 'Authorization': `Bearer ${await getMcpAccessToken(connection, options)}` };
   }
 
-  if (connection.authCredentialsEncrypted) {
+  if (connection.authType === 'api_key' && connection.authCredentialsEncrypted) {
     try {
       const credentials = JSON.parse(decrypt(connection.authCredentialsEncrypted));
-
-      if (connection.authType === 'api_key' && credentials.apiKey) {
-        headers['Authorization'] = `Bearer ${credentials.apiKey}`;
+      if (credentials.apiKey) {
+        return { 'Authorization': `Bearer ${credentials.apiKey}` };
       }
-      // OAuth would require token refresh flow - simplified here
     } catch (error) {
       console.error('Error decrypting MCP credentials:', error);
     }
   }
 
-  return { headers, sessionId: connection.sessionId };
+  return {};
 }
 
 /**
- * Parse SSE (Server-Sent Events) response stream
- * Returns the final JSON-RPC result from the event stream
+ * Progress reported by a server through notifications/progress
  */
-async function parseSSEResponse(response: Response): Promise<unknown> {
-  const contentType = response.headers.get('content-type') || '';
-
-  // If it's regular JSON, parse directly
-  if (contentType.includes('application/json')) {
-    return response.json();
-  }
-
-  // If it's SSE, parse the event stream
-  if (contentType.includes('text/event-stream')) {
-    const text = await response.text();
-    const lines = text.split('\n');
+export interface McpProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
 
-    let lastData: unknown = null;
+/**
+ * Read JSON-RPC messages from a text/event-stream body as each event arrives
+ */
+export async function* readSseMessages(body: ReadableStream<Uint8Array>): AsyncGenerator<JsonRpcMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  const takeEvent = (): JsonRpcMessage[] => {
+    const data = dataLines.join('\n');
+    dataLines = [];
+    if (!data || data === '[DONE]') return [];
+    try {
+      const parsed = JSON.parse(data);
+      return Array.isArray(parsed) ? parsed : [parsed]; // JSON-RPC batches
+    } catch {
+      return []; // Skip non-JSON events
+    }
+  };
 
-    for (const line of lines) {
-      // SSE format: "data: {json}"
-      if (line.startsWith('data:')) {
-        const jsonStr = line.slice(5).trim();
-        if (jsonStr && jsonStr !== '[DONE]') {
-          try {
-            lastData = JSON.parse(jsonStr);
-          } catch {
-            // Skip non-JSON data lines
-          }
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+
+        // A blank line ends the event; event/id/retry fields and comments aren't needed
+        if (line === '') {
+          yield* takeEvent();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
         }
       }
     }
-
-    if (lastData) {
-      return lastData;
-    }
-
-    throw new Error('No valid JSON-RPC response found in SSE stream');
+    // The stream may end without a final newline or blank line
+    const lastLine = (buffer + decoder.decode()).replace(/\r$/, '');
+    if (lastLine.startsWith('data:')) dataLines.push(lastLine.slice(5).replace(/^ /, ''));
+    yield* takeEvent();
+  } finally {
+    // Stop reading once the caller has its response - the server may keep the stream open
+    reader.cancel().catch(() => {});
   }
-
-  // Fallback: try to parse as JSON anyway
-  return response.json();
 }
 
 /**
- * Re-initialize MCP connection to get a new session ID
+ * Read the JSON-RPC response to a request from a Streamable HTTP reply, which is
+ * either plain JSON or an event stream carrying notifications before the response
  */
-async function refreshMcpSession(connectionId: string): Promise<string | null> {
-  const connection = await getMcpConnection(connectionId);
-  if (!connection) return null;
+async function readMcpResponse(
+  response: Response,
+  requestId: string | number,
+  onProgress?: (progress: McpProgress) => void,
+  onNotification?: (message: JsonRpcMessage) => void
+): Promise<JsonRpcMessage> {
+  const contentType = response.headers.get('content-type') || '';
 
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'Accept': 'application/json, text/event-stream',
-  };
+  if (!contentType.includes('text/event-stream') || !response.body) {
+    return response.json();
+  }
 
-  // Add auth if configured
-  if (connection.authCredentialsEncrypted) {
-    try {
-      const credentials = JSON.parse(decrypt(connection.authCredentialsEncrypted));
-      if (connection.authType === 'api_key' && credentials.apiKey) {
-        headers['Authorization'] = `Bearer ${credentials.apiKey}`;
+  for await (const message of readSseMessages(response.body)) {
+    if (message.method === 'notifications/progress') {
+      const params = message.params as { progressToken?: unknown } & Partial<McpProgress> | undefined;
+      if (params?.progressToken === requestId) {
+        onProgress?.({ progress: params.progress ?? 0, total: params.total, message: params.message });
       }
-    } catch (error) {
-      console.error('[MCP] Error decrypting credentials for session refresh:', error);
+    } else if (!message.method && message.id === requestId) {
+      return message;
+    } else if (message.method && message.id === undefined) {
+      onNotification?.(message);
     }
+    // Server-initiated requests aren't supported yet
   }
 
-  try {
-    console.log('[MCP] Refreshing session for connection:', connectionId);
-    const response = await fetch(connection.serverUrl, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        id: Date.now(),
-        method: 'initialize',
-        params: {
-          protocolVersion: '2024-11-05',
-          capabilities: { tools: {} },
-          clientInfo: { name: 'llmatscale-ai', version: '1.0.0' },
-        },
-      }),
-      signal: AbortSignal.timeout(10000),
-    });
-
-    if (!response.ok) {
-      console.error('[MCP] Session refresh failed:', response.status);
-      return null;
-    }
-
-    // Get new session ID from headers
-    const newSessionId = response.headers.get('mcp-session-id') || response.headers.get('x-session-id');
-
-    if (newSessionId) {
-      // Update session ID in database
-      const { updateMcpConnection } = await import('./storage');
-      await updateMcpConnection(connectionId, { sessionId: newSessionId });
-      console.log('[MCP] Session refreshed successfully:', newSessionId);
-      return newSessionId;
-    }
-
-    return null;
-  } catch (error) {
-    console.error('[MCP] Session refresh error:', error);
-    return null;
-  }
+  throw new Error('MCP server closed the stream without a response');
 }
 
 /**
@@ -195,101 +181,458 @@ function isSessionExpiredError(error: string): boolean {
 }
 
 /**
- * Execute a tool on an MCP server with automatic session refresh
+ * HTTP or JSON-RPC error returned by an MCP server
  */
-export async function executeMcpTool(
-  connectionId: string,
-  toolName: string,
-  toolArguments: Record<string, unknown>
-): Promise<McpToolResult> {
-  const connection = await getMcpConnection(connectionId);
+export class McpRequestError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'McpRequestError';
+  }
+}
 
-  if (!connection) {
-    throw new Error('MCP connection not found');
+// JSON-RPC "Method not found" - the server doesn't implement that capability
+const METHOD_NOT_FOUND = -32601;
+
+// Used when a connection has no timeout of its own
+const DEFAULT_TIMEOUT_SECONDS = 30;
+
+let nextRequestId = 1;
+
+export interface McpRequestOptions {
+  timeoutMs?: number; // Defaults to the connection's timeout
+  signal?: AbortSignal; // Aborting cancels the request on the server too
+  onProgress?: (progress: McpProgress) => void;
+}
+
+// ============================================
+// Resources and prompts
+// ============================================
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string; // base64
+}
+
+export interface McpPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: { name: string; description?: string; required?: boolean }[];
+}
+
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content:
+    | { type: 'text'; text: string }
+    | { type: 'image' | 'audio'; data: string; mimeType: string }
+    | { type: 'resource'; resource: McpResourceContents }
+    | { type: 'resource_link'; uri: string; name?: string };
+}
+
+// ============================================
+// Client
+// ============================================
+
+/**
+ * Client for one stored MCP connection, over Streamable HTTP or a local stdio server.
+ * Owns the initialize handshake (protocol version negotiation, session, server
+ * capabilities) and refreshes expired sessions and rejected OAuth tokens once per request.
+ */
+export class McpClient {
+  private constructor(private connection: McpConnection) {}
+
+  /**
+   * Client for a connection. Requests need the connection to be connected,
+   * unless anyStatus is set (testing a connection, health checks).
+   */
+  static async forConnection(connectionId: string, options: { anyStatus?: boolean } = {}): Promise<McpClient> {
+    const connection = await getMcpConnection(connectionId);
+
+    if (!connection) {
+      throw new Error('MCP connection not found');
+    }
+
+    if (connection.status !== 'connected' && !options.anyStatus) {
+      throw new Error('MCP connection is not active');
+    }
+
+    return new McpClient(connection);
   }
 
-  if (connection.status !== 'connected') {
-    throw new Error('MCP connection is not active');
+  /**
+   * Whether the server announced a capability. Connections initialized before
+   * capabilities were recorded are assumed to support everything.
+   */
+  hasCapability(capability: keyof McpServerCapabilities): boolean {
+    const capabilities = this.connection.serverCapabilities as McpServerCapabilities | null;
+    return !capabilities || capabilities[capability] !== undefined;
   }
 
-  // Try to execute tool, with automatic session refresh on expiry
-  const executeWithRetry = async (retryCount: number = 0): Promise<McpToolResult> => {
-    const { headers } = await getAuthHeaders(connectionId);
+  /**
+   * Run the initialize handshake and store the negotiated protocol version,
+   * session and server capabilities on the connection
+   */
+  async initialize(options: { timeoutMs?: number } = {}): Promise<McpInitializeResult> {
+    const result = this.connection.transport === 'stdio'
+      ? await initializeStdioMcpServer(this.connection.stdioServer || '')
+      : await this.initializeHttp(options.timeoutMs ?? this.timeoutMs, false);
+
+    this.connection = await updateMcpConnection(this.connection.id, {
+      protocolVersion: result.protocolVersion,
+      serverCapabilities: result.capabilities,
+    }) ?? this.connection;
+
+    return result;
+  }
+
+  private async initializeHttp(timeoutMs: number, forceTokenRefresh: boolean): Promise<McpInitializeResult> {
+    // A new session starts without the old one's id and version
+    const headers = await this.buildHeaders({ forceTokenRefresh, initializing: true });
+    const requestId = nextRequestId++;
+
+    const response = await fetch(this.connection.serverUrl, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ jsonrpc: '2.0', id: requestId, method: 'initialize', params: getInitializeParams() }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+
+      if (response.status === 401 && this.connection.authType === 'oauth') {
+        // Access token revoked or expired early - refresh it once before asking the user
+        if (!forceTokenRefresh) return this.initializeHttp(timeoutMs, true);
+        throw new McpAuthorizationError();
+      }
+
+      throw new McpRequestError(`HTTP Error ${response.status}: ${errorText.slice(0, 200)}`);
+    }
+
+    const sessionId = response.headers.get('mcp-session-id') || response.headers.get('x-session-id');
+    const message = await readMcpResponse(response, requestId);
+    if (message.error) {
+      throw new McpRequestError(message.error.message || 'MCP initialize failed', message.error.code);
+    }
 
+    let result: McpInitializeResult;
     try {
-      const response = await fetch(connection.serverUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: Date.now(),
-          method: 'tools/call',
-          params: {
-            name: toolName,
-            arguments: toolArguments,
-          },
-        }),
-        signal: AbortSignal.timeout(30000), // 30 second timeout for tool execution
-      });
+      result = parseInitializeResult(message.result);
+    } catch (error) {
+      throw new McpRequestError(error instanceof Error ? error.message : 'MCP initialize failed');
+    }
 
-      if (!response.ok) {
-        const errorText = await response.text();
+    this.connection = await updateMcpConnection(this.connection.id, {
+      sessionId,
+      protocolVersion: result.protocolVersion,
+    }) ?? { ...this.connection, sessionId, protocolVersion: result.protocolVersion };
 
-        // Check if session expired and retry once
-        if (retryCount === 0 && isSessionExpiredError(errorText)) {
-          console.log('[MCP] Session expired, attempting refresh...');
-          const newSessionId = await refreshMcpSession(connectionId);
-          if (newSessionId) {
-            return executeWithRetry(1);
-          }
-        }
+    await this.notify('notifications/initialized');
+    return result;
+  }
 
-        return {
-          content: [{ type: 'text', text: `HTTP Error ${response.status}: ${errorText}` }],
-          isError: true,
-        };
+  private get timeoutMs(): number {
+    return (this.connection.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+  }
+
+  private async buildHeaders(
+    options: { forceTokenRefresh?: boolean; initializing?: boolean } = {}
+  ): Promise<Record<string, string>> {
+    // MCP servers require Accept header for both JSON and SSE (Server-Sent Events)
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream',
+      ...await getMcpAuthorizationHeader(this.connection, { forceRefresh: options.forceTokenRefresh }),
+    };
+
+    // Getting the token may have refreshed it (when close to expiry, or forced) and
+    // rotated the refresh token - later requests must use the stored ones, not this copy
+    if (this.connection.authType === 'oauth') {
+      this.connection = await getMcpConnection(this.connection.id) ?? this.connection;
+    }
+
+    if (!options.initializing) {
+      // Add session ID for stateful MCP servers
+      if (this.connection.sessionId) {
+        headers['Mcp-Session-Id'] = this.connection.sessionId;
       }
+      if (this.connection.protocolVersion) {
+        headers['MCP-Protocol-Version'] = this.connection.protocolVersion;
+      }
+    }
+
+    return headers;
+  }
+
+  /**
+   * Send a JSON-RPC notification (no response expected)
+   */
+  private async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    const response = await fetch(this.connection.serverUrl, {
+      method: 'POST',
+      headers: await this.buildHeaders(),
+      body: JSON.stringify({ jsonrpc: '2.0', method, ...(params && { params }) }),
+      signal: AbortSignal.timeout(10000),
+    });
 
-      // Parse response (handles both JSON and SSE)
-      const result = await parseSSEResponse(response) as { error?: { message?: string; code?: number }; result?: McpToolResult };
+    if (!response.ok) {
+      throw new McpRequestError(`HTTP Error ${response.status} for ${method}`);
+    }
+  }
 
+  /**
+   * Tell the server to stop working on a request we no longer wait for
+   */
+  private sendCancellation(requestId: number, reason: string): void {
+    this.notify('notifications/cancelled', { requestId, reason }).catch((error) => {
+      console.error('[MCP] Failed to send cancellation:', error);
+    });
+  }
+
+  /**
+   * Start a new session after the server dropped ours
+   */
+  private async reinitialize(reason: string): Promise<boolean> {
+    console.log(`[MCP] Session expired (${reason}), re-initializing connection:`, this.connection.id);
+    try {
+      await this.initializeHttp(this.timeoutMs, false);
+      return true;
+    } catch (error) {
+      console.error('[MCP] Session refresh error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Send a JSON-RPC request, refreshing an expired session or a rejected
+   * OAuth token once before giving up
+   */
+  async request<T>(method: string, params: Record<string, unknown> = {}, options: McpRequestOptions = {}): Promise<T> {
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+
+    // Local servers run as child processes - no HTTP, sessions or tokens involved
+    if (this.connection.transport === 'stdio') {
+      const result = await requestStdioMcp(this.connection.stdioServer || '', method, params, { ...options, timeoutMs });
       if (result.error) {
-        // Check if session expired and retry once
-        if (retryCount === 0 && isSessionExpiredError(result.error.message || '')) {
-          console.log('[MCP] Session expired (from response), attempting refresh...');
-          const newSessionId = await refreshMcpSession(connectionId);
-          if (newSessionId) {
-            return executeWithRetry(1);
-          }
+        throw new McpRequestError(result.error.message || `MCP ${method} failed`, result.error.code);
+      }
+      return result.result as T;
+    }
+
+    const send = async (retryCount: number, forceTokenRefresh: boolean): Promise<T> => {
+      const headers = await this.buildHeaders({ forceTokenRefresh });
+      const requestId = nextRequestId++;
+      const timeout = AbortSignal.timeout(timeoutMs);
+      const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+      // Cancelled by the caller or timed out - let the server stop too
+      const aborted = (): McpRequestError => {
+        const cancelled = !!options.signal?.aborted;
+        this.sendCancellation(requestId, cancelled ? 'Cancelled by user' : 'Request timed out');
+        return new McpRequestError(cancelled ? 'Request cancelled' : `Request timed out after ${timeoutMs / 1000}s`);
+      };
+
+      let response: Response;
+      try {
+        response = await fetch(this.connection.serverUrl, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: requestId,
+            method,
+            // The request id doubles as the progress token
+            params: options.onProgress ? { ...params, _meta: { progressToken: requestId } } : params,
+          }),
+          signal,
+        });
+      } catch (error) {
+        if (signal.aborted) throw aborted();
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        if (retryCount === 0 && isSessionExpiredError(errorMessage) && await this.reinitialize('exception')) {
+          return send(1, false);
+        }
+        throw error;
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+
+        // Access token revoked or expired early - refresh it and retry once
+        if (retryCount === 0 && response.status === 401 && this.connection.authType === 'oauth') {
+          console.log('[MCP] OAuth token rejected, refreshing...');
+          return send(1, true);
         }
 
-        return {
-          content: [{ type: 'text', text: result.error.message || 'MCP tool execution failed' }],
-          isError: true,
-        };
+        // Servers answer 404 to a session they no longer know
+        const sessionExpired = (response.status === 404 && !!this.connection.sessionId) || isSessionExpiredError(errorText);
+        if (retryCount === 0 && sessionExpired && await this.reinitialize('HTTP')) {
+          return send(1, false);
+        }
+
+        throw new McpRequestError(`HTTP Error ${response.status}: ${errorText}`);
       }
 
-      return result.result || { content: [{ type: 'text', text: 'No result returned' }] };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-      // Check if session expired and retry once
-      if (retryCount === 0 && isSessionExpiredError(errorMessage)) {
-        console.log('[MCP] Session expired (from exception), attempting refresh...');
-        const newSessionId = await refreshMcpSession(connectionId);
-        if (newSessionId) {
-          return executeWithRetry(1);
+      let result: JsonRpcMessage;
+      try {
+        result = await readMcpResponse(response, requestId, options.onProgress, (notification) => {
+          // The server's tools changed - refresh the cached list in the background
+          if (notification.method === 'notifications/tools/list_changed' && method !== 'tools/list') {
+            refreshMcpTools(this.connection.id).catch((error) => {
+              console.error('[MCP] Failed to refresh tools after list_changed:', error);
+            });
+          }
+        });
+      } catch (error) {
+        if (signal.aborted) throw aborted();
+        throw error;
+      }
+
+      if (result.error) {
+        if (retryCount === 0 && isSessionExpiredError(result.error.message || '') && await this.reinitialize('response')) {
+          return send(1, false);
         }
+        throw new McpRequestError(result.error.message || `MCP ${method} failed`, result.error.code);
       }
 
-      return {
-        content: [{ type: 'text', text: `Tool execution failed: ${errorMessage}` }],
-        isError: true,
-      };
+      return result.result as T;
+    };
+
+    return send(0, false);
+  }
+
+  /**
+   * Request every page of a paginated MCP list method
+   */
+  private async listAll<T>(method: string, key: string, options: McpRequestOptions = {}): Promise<T[]> {
+    const items: T[] = [];
+    const seenCursors = new Set<string>();
+    let cursor: string | undefined;
+
+    try {
+      do {
+        const page = await this.request<Record<string, unknown> & { nextCursor?: string }>(
+          method,
+          cursor ? { cursor } : {},
+          options
+        );
+        items.push(...((page?.[key] as T[] | undefined) || []));
+        cursor = getNextListCursor(method, page?.nextCursor, seenCursors);
+      } while (cursor);
+    } catch (error) {
+      // Servers that didn't announce the capability may still reject the method
+      if (error instanceof McpRequestError && error.code === METHOD_NOT_FOUND) return [];
+      throw error;
     }
-  };
 
-  return executeWithRetry(0);
+    return items;
+  }
+
+  /**
+   * Check that the server responds, using the MCP ping request
+   */
+  async ping(options: McpRequestOptions = {}): Promise<void> {
+    await this.request('ping', {}, options);
+  }
+
+  async listTools(options: McpRequestOptions = {}): Promise<McpTool[]> {
+    if (!this.hasCapability('tools')) return [];
+
+    const tools = await this.listAll<McpTool>('tools/list', 'tools', options);
+    return tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description || '',
+      inputSchema: tool.inputSchema || { type: 'object', properties: {} },
+    }));
+  }
+
+  async callTool(name: string, args: Record<string, unknown>, options: McpRequestOptions = {}): Promise<McpToolResult> {
+    const result = await this.request<McpToolResult>('tools/call', { name, arguments: args }, options);
+    return result || { content: [{ type: 'text', text: 'No result returned' }] };
+  }
+
+  async listResources(): Promise<{ resources: McpResource[]; resourceTemplates: McpResourceTemplate[] }> {
+    if (!this.hasCapability('resources')) return { resources: [], resourceTemplates: [] };
+
+    const [resources, resourceTemplates] = await Promise.all([
+      this.listAll<McpResource>('resources/list', 'resources'),
+      this.listAll<McpResourceTemplate>('resources/templates/list', 'resourceTemplates'),
+    ]);
+    return { resources, resourceTemplates };
+  }
+
+  async readResource(uri: string): Promise<McpResourceContents[]> {
+    const result = await this.request<{ contents?: McpResourceContents[] }>('resources/read', { uri });
+    return result?.contents || [];
+  }
+
+  async listPrompts(): Promise<McpPrompt[]> {
+    if (!this.hasCapability('prompts')) return [];
+    return this.listAll<McpPrompt>('prompts/list', 'prompts');
+  }
+
+  async getPrompt(
+    name: string,
+    args: Record<string, string>
+  ): Promise<{ description?: string; messages: McpPromptMessage[] }> {
+    const result = await this.request<{ description?: string; messages?: McpPromptMessage[] }>(
+      'prompts/get',
+      { name, arguments: args }
+    );
+    return { description: result?.description, messages: result?.messages || [] };
+  }
+}
+
+/**
+ * Execute a tool on an MCP server. Failures are returned as an error result for the model.
+ */
+export async function executeMcpTool(
+  connectionId: string,
+  toolName: string,
+  toolArguments: Record<string, unknown>,
+  options: McpRequestOptions = {}
+): Promise<McpToolResult> {
+  try {
+    const client = await McpClient.forConnection(connectionId);
+    return await client.callTool(toolName, toolArguments, options);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      content: [{ type: 'text', text: error instanceof McpRequestError ? errorMessage : `Tool execution failed: ${errorMessage}` }],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * List a server's tools and cache them on the connection
+ */
+export async function refreshMcpTools(
+  connectionId: string,
+  options: McpRequestOptions & { anyStatus?: boolean } = {}
+): Promise<McpTool[]> {
+  const client = await McpClient.forConnection(connectionId, options);
+  const tools = await client.listTools(options);
+  await updateMcpConnection(connectionId, { availableTools: tools });
+  return tools;
 }
 
 /**
@@ -329,38 +672,108 @@ export async function getMcpTools(connectionId: string): Promise<McpTool[]> {
   return [];
 }
 
+/**
+ * Per-chat hooks for MCP tool calls
+ */
+export interface McpToolCallOptions {
+  signal?: AbortSignal; // Cancels running tool calls, e.g. when the user stops generation
+  onProgress?: (toolCallId: string, progress: McpProgress) => void;
+}
+
+/**
+ * Which MCP server and tool an AI SDK tool name refers to.
+ * Sent with assistant messages so the UI can show where a tool call ran.
+ */
+export interface McpToolSource {
+  connectionId: string;
+  connectionName: string;
+  toolName: string;
+}
+
+// Anthropic rejects tool names longer than this
+const MAX_TOOL_NAME_LENGTH = 64;
+const MAX_NAMESPACE_LENGTH = 20;
+
+function shortHash(value: string, length = 6): string {
+  return crypto.createHash('sha256').update(value).digest('hex').slice(0, length);
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Tool name prefix for a connection: its name's slug plus a short hash of its
+ * id. Depends on the connection alone, so its tool names stay the same whatever
+ * else is active - stored tool parts and history replay rely on that.
+ */
+export function getMcpToolNamespace(connection: { id: string; name: string }): string {
+  const slug = slugify(connection.name).slice(0, MAX_NAMESPACE_LENGTH).replace(/_+$/, '') || 'server';
+  return `${slug}_${shortHash(connection.id, 4)}`;
+}
+
+/**
+ * AI SDK tool names for one connection's tools, in the same order as mcpTools.
+ * Format is mcp_<namespace>__<tool>; names over the length limit, and tools whose
+ * sanitized names clash, are shortened and get a hash of the original name.
+ */
+function getMcpToolNames(mcpTools: McpTool[], namespace: string): string[] {
+  const used = new Set<string>();
+
+  return mcpTools.map((mcpTool) => {
+    const safeName = mcpTool.name.replace(/[^a-zA-Z0-9_-]/g, '_');
+    let toolKey = `mcp_${namespace}__${safeName}`;
+
+    if (toolKey.length > MAX_TOOL_NAME_LENGTH || used.has(toolKey)) {
+      const hash = shortHash(`${namespace}/${mcpTool.name}`);
+      toolKey = `${toolKey.slice(0, MAX_TOOL_NAME_LENGTH - hash.length - 1)}_${hash}`;
+    }
+
+    used.add(toolKey);
+    return toolKey;
+  });
+}
+
 /**
  * Convert MCP tools to AI SDK tool format
  * Creates Vercel AI SDK compatible tools from MCP tool definitions
  */
 export function convertMcpToolsToAiTools(
   mcpTools: McpTool[],
-  connectionId: string
+  connectionId: string,
+  namespace: string,
+  toolPolicies: Record<string, McpToolPolicy> = {},
+  callOptions: McpToolCallOptions = {}
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
 ): Record<string, any> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const aiTools: Record<string, any> = {};
+  const toolKeys = getMcpToolNames(mcpTools, namespace);
 
-  for (const mcpTool of mcpTools) {
-    // Build Zod schema from MCP tool input schema
-    const zodSchema = buildZodSchema(mcpTool.inputSchema);
+  for (const [index, mcpTool] of mcpTools.entries()) {
+    const inputSchema = buildInputSchema(mcpTool);
 
-    // Create a safe tool name (replace special chars)
-    const safeName = mcpTool.name.replace(/[^a-zA-Z0-9_]/g, '_');
-    const toolKey = `mcp_${safeName}`;
+    const toolKey = toolKeys[index];
 
     console.log(`[MCP] Converting tool: ${mcpTool.name} -> ${toolKey}`);
 
     aiTools[toolKey] = tool({
       description: mcpTool.description || `MCP tool: ${mcpTool.name}`,
-      inputSchema: zodSchema,
-      execute: async (args) => {
+      inputSchema,
+      // The stream pauses on the call until the user approves or denies it
+      needsApproval: toolPolicies[mcpTool.name] === 'ask',
+      execute: async (args, { toolCallId, abortSignal }) => {
         console.log(`[MCP] ========== TOOL EXECUTION START ==========`);
         console.log(`[MCP] Tool: ${mcpTool.name}`);
         console.log(`[MCP] Args:`, JSON.stringify(args, null, 2));
 
+        const signals = [callOptions.signal, abortSignal].filter((s): s is AbortSignal => !!s);
+
         try {
-          const result = await executeMcpTool(connectionId, mcpTool.name, args);
+          const result = await executeMcpTool(connectionId, mcpTool.name, args, {
+            signal: signals.length > 0 ? AbortSignal.any(signals) : undefined,
+            onProgress: callOptions.onProgress && ((progress) => callOptions.onProgress!(toolCallId, progress)),
+          });
           console.log(`[MCP] Raw MCP result:`, JSON.stringify(result, null, 2));
 
           // Convert MCP result to string for AI consumption
@@ -401,107 +814,104 @@ export function convertMcpToolsToAiTools(
 }
 
 /**
- * Build a Zod schema from MCP tool input schema
+ * Build the AI SDK input schema for an MCP tool.
+ * The model is sent the server's JSON Schema unchanged; arguments are validated
+ * against its Zod equivalent. Schemas Zod can't express (external $refs, if/then)
+ * skip local validation and are left to the MCP server.
  */
-function buildZodSchema(inputSchema?: McpTool['inputSchema']): z.ZodObject<Record<string, z.ZodTypeAny>> {
-  if (!inputSchema || !inputSchema.properties) {
-    return z.object({});
-  }
-
-  const shape: Record<string, z.ZodTypeAny> = {};
-  const required = inputSchema.required || [];
-
-  for (const [key, propSchema] of Object.entries(inputSchema.properties)) {
-    const prop = propSchema as { type?: string; description?: string; enum?: string[] };
-    let zodType: z.ZodTypeAny;
-
-    switch (prop.type) {
-      case 'string':
-        zodType = prop.enum ? z.enum(prop.enum as [string, ...string[]]) : z.string();
-        break;
-      case 'number':
-      case 'integer':
-        zodType = z.number();
-        break;
-      case 'boolean':
-        zodType = z.boolean();
-        break;
-      case 'array':
-        zodType = z.array(z.unknown());
-        break;
-      case 'object':
-        zodType = z.record(z.string(), z.unknown());
-        break;
-      default:
-        zodType = z.unknown();
-    }
-
-    if (prop.description) {
-      zodType = zodType.describe(prop.description);
-    }
+export function buildInputSchema(mcpTool: McpTool) {
+  // Tool inputs are always objects - Anthropic rejects other root types
+  const schema = { ...mcpTool.inputSchema, type: 'object' } as JSONSchema7;
 
-    if (!required.includes(key)) {
-      zodType = zodType.optional();
-    }
-
-    shape[key] = zodType;
+  let validator: z.ZodType | null = null;
+  try {
+    validator = z.fromJSONSchema(schema as z.core.JSONSchema.JSONSchema, {
+      // Without a $schema, draft-07 "definitions" only resolve as draft-07
+      defaultTarget: schema.definitions && !schema.$defs ? 'draft-7' : undefined,
+    });
+  } catch (error) {
+    console.warn(`[MCP] Input schema of ${mcpTool.name} is not validated locally:`, error instanceof Error ? error.message : error);
   }
 
-  return z.object(shape);
+  return jsonSchema<Record<string, unknown>>(schema, {
+    validate: validator
+      ? (value) => {
+          const result = validator.safeParse(value);
+          return result.success
+            ? { success: true, value: result.data as Record<string, unknown> }
+            : { success: false, error: result.error };
+        }
+      : undefined,
+  });
 }
 
 /**
  * Load all active MCP tools for a conversation
  */
 export async function loadActiveMcpTools(
-  activeMcpIds: string[]
+  activeMcpIds: string[],
+  callOptions: McpToolCallOptions = {}
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
 ): Promise<Record<string, any>> {
-  const result = await loadActiveMcpToolsWithDescriptions(activeMcpIds);
+  const result = await loadActiveMcpToolsWithDescriptions(activeMcpIds, callOptions);
   return result.tools;
 }
 
 /**
  * Load all active MCP tools with their descriptions for system prompt
- * Returns both the AI SDK tools and descriptions for the LLM
+ * Returns the AI SDK tools, descriptions for the LLM, and which server each tool belongs to
  */
 export async function loadActiveMcpToolsWithDescriptions(
-  activeMcpIds: string[]
+  activeMcpIds: string[],
+  callOptions: McpToolCallOptions = {}
 ): Promise<{
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   tools: Record<string, any>;
   descriptions: { name: string; description: string }[];
+  sources: Record<string, McpToolSource>;
 }> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const allTools: Record<string, any> = {};
   const allDescriptions: { name: string; description: string }[] = [];
+  const allSources: Record<string, McpToolSource> = {};
 
   console.log(`[MCP] loadActiveMcpToolsWithDescriptions called with ${activeMcpIds.length} connection IDs:`, activeMcpIds);
 
   if (!activeMcpIds || activeMcpIds.length === 0) {
     console.log('[MCP] No active MCP IDs provided, returning empty tools');
-    return { tools: allTools, descriptions: allDescriptions };
+    return { tools: allTools, descriptions: allDescriptions, sources: allSources };
   }
 
-  for (const connectionId of activeMcpIds) {
+  const connections = (await Promise.all(activeMcpIds.map((id) => getMcpConnection(id))))
+    .filter((conn): conn is McpConnection => !!conn);
+
+  for (const connection of connections) {
+    const connectionId = connection.id;
     console.log(`[MCP] Processing connection: ${connectionId}`);
     try {
-      const mcpTools = await getMcpTools(connectionId);
-      console.log(`[MCP] getMcpTools returned ${mcpTools.length} tools for ${connectionId}`);
+      // Tools the user switched off are never offered to the model
+      const toolPolicies = (connection.toolPolicies || {}) as Record<string, McpToolPolicy>;
+      const mcpTools = (await getMcpTools(connectionId)).filter((t) => toolPolicies[t.name] !== 'never');
+      console.log(`[MCP] getMcpTools returned ${mcpTools.length} enabled tools for ${connectionId}`);
 
       if (mcpTools.length > 0) {
-        const aiTools = convertMcpToolsToAiTools(mcpTools, connectionId);
-        const toolKeys = Object.keys(aiTools);
-        console.log(`[MCP] Converted to AI SDK tools:`, toolKeys);
+        const namespace = getMcpToolNamespace(connection);
+        const aiTools = convertMcpToolsToAiTools(mcpTools, connectionId, namespace, toolPolicies, callOptions);
+        console.log(`[MCP] Converted to AI SDK tools:`, Object.keys(aiTools));
         Object.assign(allTools, aiTools);
 
-        // Collect descriptions for the system prompt
-        for (const mcpTool of mcpTools) {
-          const safeName = mcpTool.name.replace(/[^a-zA-Z0-9_]/g, '_');
+        // Collect descriptions for the system prompt, and the server behind each tool name
+        const toolKeys = getMcpToolNames(mcpTools, namespace);
+        for (const [index, mcpTool] of mcpTools.entries()) {
           allDescriptions.push({
-            name: `mcp_${safeName}`,
-            description: mcpTool.description || `MCP tool: ${mcpTool.name}`,
+            name: toolKeys[index],
+            description: `[${connection.name}] ${mcpTool.description || `MCP tool: ${mcpTool.name}`}`,
           });
+          allSources[toolKeys[index]] = {
+            connectionId,
+            connectionName: connection.name,
+            toolName: mcpTool.name,
+          };
         }
       }
     } catch (error) {
@@ -511,5 +921,5 @@ export async function loadActiveMcpToolsWithDescriptions(
 
   console.log(`[MCP] Total MCP tools loaded: ${Object.keys(allTools).length}`);
   console.log(`[MCP] Tool descriptions for prompt: ${allDescriptions.length}`);
-  return { tools: allTools, descriptions: allDescriptions };
+  return { tools: allTools, descriptions: allDescriptions, sources: allSources };
 }
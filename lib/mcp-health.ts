@@ -0,0 +1,115 @@
+/**
+ * MCP connection health monitor
+ * Periodically pings every connected (or failing) MCP connection, re-fetches its
+ * tool list, and records the result on the connection and in its health history.
+ *
+ * MCP_HEALTH_CHECK_INTERVAL_SECONDS sets how often (default 300, 0 turns it off).
+ * Started once per server process from instrumentation.ts.
+ */
+
+import { McpClient } from './mcp-client';
+import { McpAuthorizationError } from './mcp-oauth';
+import {
+  getMcpConnectionsForHealthCheck,
+  recordMcpHealthCheck,
+  updateMcpConnection,
+  type McpConnection,
+} from './storage';
+
+const DEFAULT_INTERVAL_SECONDS = 300;
+const CHECK_TIMEOUT_MS = 15_000; // Per request - a slow server counts as unhealthy
+
+// Survive hot reloads in development so checks don't run twice
+const globalForHealth = globalThis as unknown as {
+  mcpHealthTimer: ReturnType<typeof setInterval> | undefined;
+  mcpHealthRunning: boolean | undefined;
+};
+
+function getIntervalSeconds(): number {
+  const value = Number(process.env.MCP_HEALTH_CHECK_INTERVAL_SECONDS ?? DEFAULT_INTERVAL_SECONDS);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_INTERVAL_SECONDS;
+}
+
+/**
+ * Ping one connection and refresh its tools, then record how it went
+ */
+export async function checkMcpConnection(connection: McpConnection): Promise<void> {
+  const startedAt = Date.now();
+  const options = { timeoutMs: CHECK_TIMEOUT_MS };
+
+  try {
+    const client = await McpClient.forConnection(connection.id, { anyStatus: true });
+    await client.ping(options);
+    const latencyMs = Date.now() - startedAt;
+
+    const tools = await client.listTools(options);
+    const toolsChanged = JSON.stringify(tools) !== JSON.stringify(connection.availableTools ?? []);
+
+    await updateMcpConnection(connection.id, {
+      status: 'connected',
+      lastError: null,
+      lastConnectedAt: new Date(),
+      availableTools: tools,
+    });
+    await recordMcpHealthCheck(connection.id, { status: 'ok', latencyMs, toolCount: tools.length, toolsChanged });
+
+    if (connection.status !== 'connected') {
+      console.log(`[MCP Health] ${connection.name} (${connection.id}) recovered`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Health check failed';
+
+    // The OAuth layer has already marked the connection as needing authorization
+    if (error instanceof McpAuthorizationError) {
+      await recordMcpHealthCheck(connection.id, { status: 'needs_auth', error: message });
+      return;
+    }
+
+    await updateMcpConnection(connection.id, { status: 'error', lastError: message });
+    await recordMcpHealthCheck(connection.id, { status: 'error', latencyMs: Date.now() - startedAt, error: message });
+    console.error(`[MCP Health] ${connection.name} (${connection.id}) failed:`, message);
+  }
+}
+
+/**
+ * Check every connection once. Connections are checked one at a time so a
+ * round never competes with chat requests for more than one server's worth of work.
+ */
+export async function runMcpHealthChecks(): Promise<void> {
+  // A slow round must not overlap with the next one
+  if (globalForHealth.mcpHealthRunning) return;
+  globalForHealth.mcpHealthRunning = true;
+
+  try {
+    const connections = await getMcpConnectionsForHealthCheck();
+    for (const connection of connections) {
+      try {
+        await checkMcpConnection(connection);
+      } catch (error) {
+        console.error(`[MCP Health] Failed to record check for ${connection.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('[MCP Health] Health check round failed:', error);
+  } finally {
+    globalForHealth.mcpHealthRunning = false;
+  }
+}
+
+/**
+ * Start the periodic checks (no-op if they're already running or turned off)
+ */
+export function startMcpHealthMonitor(): void {
+  if (globalForHealth.mcpHealthTimer) return;
+
+  const intervalSeconds = getIntervalSeconds();
+  if (intervalSeconds === 0) {
+    console.log('[MCP Health] Disabled (MCP_HEALTH_CHECK_INTERVAL_SECONDS=0)');
+    return;
+  }
+
+  globalForHealth.mcpHealthTimer = setInterval(runMcpHealthChecks, intervalSeconds * 1000);
+  // Don't keep the process alive just for health checks
+  globalForHealth.mcpHealthTimer.unref();
+  console.log(`[MCP Health] Checking MCP connections every ${intervalSeconds}s`);
+}
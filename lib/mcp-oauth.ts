@@ -0,0 +1,397 @@
+/**
+ * OAuth 2.1 authorization for MCP connections (MCP authorization spec)
+ * - Discovery: protected resource metadata (RFC 9728) -> authorization server metadata (RFC 8414)
+ * - Authorization code flow with PKCE (S256), returning through /api/mcp/oauth/callback
+ * - Access/refresh tokens are stored encrypted on the connection and refreshed before use
+ */
+
+import crypto from 'crypto';
+import { encrypt, decrypt } from './encryption';
+import { getMcpConnection, updateMcpConnection } from './storage';
+import type { McpConnection } from './generated/prisma/client';
+
+const PENDING_AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+// Refresh slightly early so a token never expires mid tool call
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * Thrown when a connection has no usable OAuth token and the user
+ * has to go through the authorization flow again
+ */
+export class McpAuthorizationError extends Error {
+  constructor(message = 'Authorization expired. Reconnect this connector to continue.') {
+    super(message);
+    this.name = 'McpAuthorizationError';
+  }
+}
+
+interface AuthorizationServerMetadata {
+  issuer?: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  token_endpoint_auth_methods_supported?: string[];
+  code_challenge_methods_supported?: string[];
+}
+
+type ClientAuthMethod = 'client_secret_basic' | 'client_secret_post' | 'none';
+
+interface ClientCredentials {
+  clientId: string;
+  clientSecret?: string;
+}
+
+// Everything the token endpoint needs later, so refresh doesn't repeat discovery
+interface TokenEndpointConfig {
+  tokenEndpoint: string;
+  authMethod: ClientAuthMethod;
+  resource: string;
+}
+
+interface StoredTokens extends TokenEndpointConfig {
+  accessToken: string;
+  refreshToken?: string;
+  tokenType: string;
+  scope?: string;
+}
+
+interface PendingAuthorization extends TokenEndpointConfig {
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  createdAt: number;
+}
+
+interface TokenResponse {
+  access_token: string;
+  token_type?: string;
+  expires_in?: number;
+  refresh_token?: string;
+  scope?: string;
+}
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Canonical resource identifier for the MCP server (RFC 8707): no fragment, no trailing slash
+ */
+function canonicalResource(serverUrl: string): string {
+  const url = new URL(serverUrl);
+  url.hash = '';
+  return url.href.replace(/\/$/, '');
+}
+
+/**
+ * Well-known URLs for a metadata document, path-inserted first then at the origin
+ */
+function wellKnownUrls(baseUrl: string, suffix: string): string[] {
+  const url = new URL(baseUrl);
+  const path = url.pathname.replace(/\/$/, '');
+  const urls = path ? [`${url.origin}/.well-known/${suffix}${path}`] : [];
+  urls.push(`${url.origin}/.well-known/${suffix}`);
+  return urls;
+}
+
+async function fetchJson<T>(url: string): Promise<T | null> {
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) return null;
+    return await response.json() as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read resource_metadata / scope from the WWW-Authenticate header of an unauthenticated request
+ */
+async function probeWwwAuthenticate(serverUrl: string): Promise<{ resourceMetadata?: string; scope?: string }> {
+  try {
+    const response = await fetch(serverUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 0, method: 'ping' }),
+      signal: AbortSignal.timeout(10000),
+    });
+    const header = response.headers.get('www-authenticate') || '';
+    return {
+      resourceMetadata: header.match(/resource_metadata="([^"]+)"/)?.[1],
+      scope: header.match(/scope="([^"]+)"/)?.[1],
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Find the authorization server for an MCP server and load its metadata.
+ * Servers implementing the older spec revision without metadata fall back to
+ * /authorize and /token on the MCP server's origin.
+ */
+async function discoverAuthorizationServer(serverUrl: string): Promise<{
+  metadata: AuthorizationServerMetadata;
+  scope?: string;
+}> {
+  const challenge = await probeWwwAuthenticate(serverUrl);
+
+  let resourceMetadata: { authorization_servers?: string[]; scopes_supported?: string[] } | null = null;
+  for (const url of challenge.resourceMetadata ? [challenge.resourceMetadata] : wellKnownUrls(serverUrl, 'oauth-protected-resource')) {
+    resourceMetadata = await fetchJson(url);
+    if (resourceMetadata) break;
+  }
+
+  const issuer = resourceMetadata?.authorization_servers?.[0] || new URL(serverUrl).origin;
+  const scope = challenge.scope || resourceMetadata?.scopes_supported?.join(' ');
+
+  const candidates = [
+    ...wellKnownUrls(issuer, 'oauth-authorization-server'),
+    ...wellKnownUrls(issuer, 'openid-configuration'),
+    `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+  ];
+  for (const url of candidates) {
+    const metadata = await fetchJson<AuthorizationServerMetadata>(url);
+    if (metadata?.authorization_endpoint && metadata.token_endpoint) {
+      if (metadata.code_challenge_methods_supported && !metadata.code_challenge_methods_supported.includes('S256')) {
+        throw new Error('Authorization server does not support PKCE (S256)');
+      }
+      return { metadata, scope };
+    }
+  }
+
+  const origin = new URL(issuer).origin;
+  return {
+    metadata: { authorization_endpoint: `${origin}/authorize`, token_endpoint: `${origin}/token` },
+    scope,
+  };
+}
+
+function chooseAuthMethod(metadata: AuthorizationServerMetadata, credentials: ClientCredentials): ClientAuthMethod {
+  if (!credentials.clientSecret) return 'none';
+  const supported = metadata.token_endpoint_auth_methods_supported;
+  // client_secret_basic is the RFC 8414 default when the server doesn't say
+  if (!supported || supported.includes('client_secret_basic')) return 'client_secret_basic';
+  return 'client_secret_post';
+}
+
+function getClientCredentials(connection: McpConnection): ClientCredentials {
+  if (!connection.authCredentialsEncrypted) {
+    throw new Error('OAuth client credentials are not configured for this connection');
+  }
+  const credentials = JSON.parse(decrypt(connection.authCredentialsEncrypted));
+  if (!credentials.clientId) {
+    throw new Error('OAuth client ID is not configured for this connection');
+  }
+  return { clientId: credentials.clientId, clientSecret: credentials.clientSecret };
+}
+
+async function requestTokens(
+  config: TokenEndpointConfig,
+  credentials: ClientCredentials,
+  params: Record<string, string>
+): Promise<TokenResponse> {
+  const body = new URLSearchParams({ ...params, resource: config.resource });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+
+  if (config.authMethod === 'client_secret_basic') {
+    const basic = `${encodeURIComponent(credentials.clientId)}:${encodeURIComponent(credentials.clientSecret || '')}`;
+    headers['Authorization'] = `Basic ${Buffer.from(basic).toString('base64')}`;
+  } else {
+    body.set('client_id', credentials.clientId);
+    if (config.authMethod === 'client_secret_post' && credentials.clientSecret) {
+      body.set('client_secret', credentials.clientSecret);
+    }
+  }
+
+  const response = await fetch(config.tokenEndpoint, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(15000),
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.access_token) {
+    throw new Error(data.error_description || data.error || `Token endpoint returned ${response.status}`);
+  }
+  return data as TokenResponse;
+}
+
+async function saveTokens(connectionId: string, config: TokenEndpointConfig, tokens: TokenResponse, previousRefreshToken?: string) {
+  const stored: StoredTokens = {
+    ...config,
+    accessToken: tokens.access_token,
+    // Servers that don't rotate refresh tokens omit them from refresh responses
+    refreshToken: tokens.refresh_token || previousRefreshToken,
+    tokenType: tokens.token_type || 'Bearer',
+    scope: tokens.scope,
+  };
+  await updateMcpConnection(connectionId, {
+    oauthTokensEncrypted: encrypt(JSON.stringify(stored)),
+    oauthTokenExpiresAt: tokens.expires_in ? new Date(Date.now() + tokens.expires_in * 1000) : null,
+  });
+}
+
+/**
+ * Begin authorization: discover the authorization server, remember state and
+ * PKCE verifier on the connection, and return the URL to send the user to
+ */
+export async function startMcpAuthorization(connection: McpConnection, redirectUri: string): Promise<string> {
+  const credentials = getClientCredentials(connection);
+  const { metadata, scope } = await discoverAuthorizationServer(connection.serverUrl);
+
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  const codeChallenge = base64url(crypto.createHash('sha256').update(codeVerifier).digest());
+  // The connection id travels in the state so the callback can find the pending authorization
+  const state = `${connection.id}.${base64url(crypto.randomBytes(24))}`;
+
+  const pending: PendingAuthorization = {
+    state,
+    codeVerifier,
+    redirectUri,
+    tokenEndpoint: metadata.token_endpoint,
+    authMethod: chooseAuthMethod(metadata, credentials),
+    resource: canonicalResource(connection.serverUrl),
+    createdAt: Date.now(),
+  };
+  await updateMcpConnection(connection.id, {
+    oauthPendingEncrypted: encrypt(JSON.stringify(pending)),
+  });
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', credentials.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  url.searchParams.set('state', state);
+  url.searchParams.set('resource', pending.resource);
+  if (scope) url.searchParams.set('scope', scope);
+
+  return url.toString();
+}
+
+/**
+ * Finish authorization from the callback: verify state, exchange the code, store tokens.
+ * Returns the connection id the authorization belonged to.
+ */
+export async function completeMcpAuthorization(state: string, code: string): Promise<string> {
+  const connectionId = state.split('.')[0];
+  const connection = connectionId ? await getMcpConnection(connectionId) : null;
+  if (!connection?.oauthPendingEncrypted) {
+    throw new Error('No authorization in progress for this connection');
+  }
+
+  const pending: PendingAuthorization = JSON.parse(decrypt(connection.oauthPendingEncrypted));
+  const expected = Buffer.from(pending.state);
+  const received = Buffer.from(state);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    throw new Error('Authorization state does not match');
+  }
+
+  // The pending authorization is single-use whatever happens next
+  await updateMcpConnection(connection.id, { oauthPendingEncrypted: null });
+
+  if (Date.now() - pending.createdAt > PENDING_AUTHORIZATION_TTL_MS) {
+    throw new Error('Authorization took too long. Please try again.');
+  }
+
+  const tokens = await requestTokens(pending, getClientCredentials(connection), {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: pending.redirectUri,
+    code_verifier: pending.codeVerifier,
+  });
+  await saveTokens(connection.id, pending, tokens);
+  await updateMcpConnection(connection.id, {
+    status: 'disconnected',
+    lastError: null,
+    sessionId: null,
+  });
+
+  return connection.id;
+}
+
+// One refresh per connection at a time - rotating refresh tokens are single-use
+const refreshesInFlight = new Map<string, Promise<string>>();
+
+async function refreshAccessToken(connection: McpConnection, tokens: StoredTokens): Promise<string> {
+  if (!tokens.refreshToken) {
+    throw new McpAuthorizationError();
+  }
+
+  try {
+    const refreshed = await requestTokens(tokens, getClientCredentials(connection), {
+      grant_type: 'refresh_token',
+      refresh_token: tokens.refreshToken,
+    });
+    await saveTokens(connection.id, tokens, refreshed, tokens.refreshToken);
+    return refreshed.access_token;
+  } catch (error) {
+    console.error(`[MCP OAuth] Token refresh failed for ${connection.id}:`, error);
+    throw new McpAuthorizationError();
+  }
+}
+
+/**
+ * Access token for a connection, refreshed first when it is about to expire.
+ * A failed refresh marks the connection as needing re-authorization.
+ */
+export async function getMcpAccessToken(
+  connection: McpConnection,
+  options: { forceRefresh?: boolean } = {}
+): Promise<string> {
+  if (!connection.oauthTokensEncrypted) {
+    throw new McpAuthorizationError('This connector has not been authorized yet.');
+  }
+
+  const tokens: StoredTokens = JSON.parse(decrypt(connection.oauthTokensEncrypted));
+  const expiresAt = connection.oauthTokenExpiresAt?.getTime();
+  const expiring = expiresAt !== undefined && expiresAt - Date.now() < REFRESH_MARGIN_MS;
+  if (!options.forceRefresh && !expiring) {
+    return tokens.accessToken;
+  }
+
+  let refresh = refreshesInFlight.get(connection.id);
+  if (!refresh) {
+    refresh = refreshAccessToken(connection, tokens).finally(() => refreshesInFlight.delete(connection.id));
+    refreshesInFlight.set(connection.id, refresh);
+  }
+
+  try {
+    return await refresh;
+  } catch (error) {
+    if (error instanceof McpAuthorizationError) {
+      await updateMcpConnection(connection.id, {
+        status: 'needs_auth',
+        lastError: error.message,
+        isActive: false,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Drop stored tokens, e.g. when the server URL changes and they no longer apply
+ */
+export function clearedOAuthState() {
+  return {
+    oauthTokensEncrypted: null,
+    oauthTokenExpiresAt: null,
+    oauthPendingEncrypted: null,
+  };
+}
+
+/**
+ * Redirect URI registered with authorization servers
+ */
+export function getMcpOAuthRedirectUri(requestUrl: string): string {
+  return `${process.env.APP_URL || new URL(requestUrl).origin}/api/mcp/oauth/callback`;
+}
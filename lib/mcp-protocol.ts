@@ -0,0 +1,87 @@
+/**
+ * MCP protocol versions and the initialize handshake
+ * Shared by the Streamable HTTP client and the stdio supervisor.
+ */
+
+// Newest first - the first is offered to servers, any of them is accepted back
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-11-25', '2025-06-18', '2025-03-26', '2024-11-05'];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+const CLIENT_INFO = { name: 'llmatscale-ai', version: '1.0.0' };
+
+// Most pages requested from one paginated list method
+export const MAX_LIST_PAGES = 100;
+
+/**
+ * What a server announced it supports
+ */
+export interface McpServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: Record<string, unknown>;
+  completions?: Record<string, unknown>;
+  experimental?: Record<string, unknown>;
+}
+
+export interface McpInitializeResult {
+  protocolVersion: string;
+  capabilities: McpServerCapabilities;
+  serverInfo: { name: string; version: string; title?: string } | null;
+  instructions?: string;
+}
+
+/**
+ * Params of the initialize request. No client capabilities are offered -
+ * roots, sampling and elicitation aren't supported.
+ */
+export function getInitializeParams(): Record<string, unknown> {
+  return {
+    protocolVersion: LATEST_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: CLIENT_INFO,
+  };
+}
+
+/**
+ * Read a server's initialize result. The server answers with the version it
+ * will speak, which has to be one we support too.
+ */
+export function parseInitializeResult(result: unknown): McpInitializeResult {
+  const value = (result || {}) as Partial<McpInitializeResult>;
+
+  if (!value.protocolVersion || !SUPPORTED_PROTOCOL_VERSIONS.includes(value.protocolVersion)) {
+    throw new Error(
+      `MCP server uses unsupported protocol version ${value.protocolVersion || '(none)'} ` +
+      `(supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})`
+    );
+  }
+
+  return {
+    protocolVersion: value.protocolVersion,
+    capabilities: value.capabilities || {},
+    serverInfo: value.serverInfo || null,
+    instructions: value.instructions,
+  };
+}
+
+/**
+ * Cursor of the next page of a paginated list, or undefined when done. A server
+ * that repeats a cursor, or pages past MAX_LIST_PAGES, is cut off there - the
+ * pages read so far are kept.
+ */
+export function getNextListCursor(method: string, nextCursor: unknown, seenCursors: Set<string>): string | undefined {
+  if (typeof nextCursor !== 'string' || !nextCursor) return undefined;
+
+  if (seenCursors.has(nextCursor)) {
+    console.warn(`[MCP] ${method} repeated cursor ${nextCursor}, stopping pagination`);
+    return undefined;
+  }
+  if (seenCursors.size + 1 >= MAX_LIST_PAGES) {
+    console.warn(`[MCP] ${method} returned more than ${MAX_LIST_PAGES} pages, stopping pagination`);
+    return undefined;
+  }
+
+  seenCursors.add(nextCursor);
+  return nextCursor;
+}
@@ -0,0 +1,405 @@
+/**
+ * Local stdio MCP servers
+ * Admin-defined servers are spawned and supervised by the Next.js server process
+ * and shared by every user who enables them.
+ *
+ * MCP_STDIO_CONFIG points at a JSON file in the usual mcpServers format:
+ *   { "mcpServers": { "files": { "name": "Files", "command": "npx", "args": [...], "env": {...} } } }
+ * Servers get only PATH, HOME, LANG and TMPDIR from our environment, plus their "env".
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { readFileSync } from 'fs';
+import { createInterface } from 'readline';
+import { z } from 'zod';
+import { updateStdioMcpConnections } from './storage';
+import { getInitializeParams, getNextListCursor, parseInitializeResult, type McpInitializeResult } from './mcp-protocol';
+
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { message?: string; code?: number };
+}
+
+const StdioServerConfigSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  command: z.string().min(1),
+  args: z.array(z.string()).default([]),
+  env: z.record(z.string(), z.string()).default({}),
+  timeoutSeconds: z.number().int().min(5).max(600).optional(),
+});
+
+const StdioConfigFileSchema = z.object({
+  mcpServers: z.record(z.string(), StdioServerConfigSchema),
+});
+
+export interface StdioMcpServerConfig extends z.infer<typeof StdioServerConfigSchema> {
+  id: string;
+  name: string;
+}
+
+interface PendingRequest {
+  resolve: (message: JsonRpcMessage) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: { progress: number; total?: number; message?: string }) => void;
+}
+
+// One supervised process per configured server
+interface StdioServerState {
+  config: StdioMcpServerConfig;
+  child: ChildProcessWithoutNullStreams | null;
+  ready: Promise<void> | null; // Resolves once the initialize handshake is done
+  initializeResult: McpInitializeResult | null;
+  pending: Map<number, PendingRequest>;
+  stderrTail: string;
+  startedAt: number;
+  restartAttempts: number;
+  restartTimer: ReturnType<typeof setTimeout> | null;
+  lastError: string | null;
+}
+
+const STDERR_TAIL_LENGTH = 2000;
+const MAX_RESTART_ATTEMPTS = 10; // After that the server is only started again on demand
+const MAX_RESTART_DELAY_MS = 60_000;
+const STABLE_UPTIME_MS = 60_000; // Running this long resets the restart backoff
+const INITIALIZE_TIMEOUT_MS = 30_000;
+
+// Survive hot reloads in development so processes aren't orphaned
+const globalForStdio = globalThis as unknown as {
+  stdioMcpServers: Map<string, StdioServerState> | undefined;
+  stdioMcpConfig: StdioMcpServerConfig[] | undefined;
+};
+
+if (!globalForStdio.stdioMcpServers) {
+  globalForStdio.stdioMcpServers = new Map();
+
+  // Don't leave servers running when the app shuts down
+  process.once('exit', () => {
+    for (const state of globalForStdio.stdioMcpServers?.values() ?? []) {
+      if (state.restartTimer) clearTimeout(state.restartTimer);
+      state.child?.kill();
+    }
+  });
+}
+
+const servers = globalForStdio.stdioMcpServers;
+
+let nextRequestId = 1;
+
+/**
+ * Servers the admin has made available, read once from MCP_STDIO_CONFIG
+ */
+export function getStdioMcpServers(): StdioMcpServerConfig[] {
+  if (globalForStdio.stdioMcpConfig) return globalForStdio.stdioMcpConfig;
+
+  let configs: StdioMcpServerConfig[] = [];
+  const configPath = process.env.MCP_STDIO_CONFIG;
+  if (configPath) {
+    try {
+      const parsed = StdioConfigFileSchema.parse(JSON.parse(readFileSync(configPath, 'utf8')));
+      configs = Object.entries(parsed.mcpServers).map(([id, config]) => ({ ...config, id, name: config.name || id }));
+    } catch (error) {
+      console.error(`[MCP stdio] Failed to load ${configPath}:`, error);
+    }
+  }
+
+  globalForStdio.stdioMcpConfig = configs;
+  return configs;
+}
+
+export function getStdioMcpServer(id: string): StdioMcpServerConfig | undefined {
+  return getStdioMcpServers().find((server) => server.id === id);
+}
+
+function send(state: StdioServerState, message: Omit<JsonRpcMessage, 'jsonrpc'>): void {
+  state.child?.stdin.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+}
+
+function handleMessage(state: StdioServerState, message: JsonRpcMessage): void {
+  if (message.method === 'notifications/progress') {
+    const params = message.params as { progressToken?: number; progress?: number; total?: number; message?: string };
+    const pending = params?.progressToken !== undefined ? state.pending.get(params.progressToken) : undefined;
+    pending?.onProgress?.({ progress: params.progress ?? 0, total: params.total, message: params.message });
+    return;
+  }
+
+  if (message.method && message.id !== undefined) {
+    // Server-initiated requests: answer pings, decline everything else
+    if (message.method === 'ping') {
+      send(state, { id: message.id, result: {} });
+    } else {
+      send(state, { id: message.id, error: { code: -32601, message: `Method not supported: ${message.method}` } });
+    }
+    return;
+  }
+
+  if (message.method === 'notifications/tools/list_changed') {
+    refreshTools(state.config.id);
+    return;
+  }
+
+  if (message.method) return; // Other notifications aren't used
+
+  const pending = typeof message.id === 'number' ? state.pending.get(message.id) : undefined;
+  if (pending) {
+    state.pending.delete(message.id as number);
+    pending.resolve(message);
+  }
+}
+
+function rawRequest(
+  state: StdioServerState,
+  method: string,
+  params: Record<string, unknown>,
+  onProgress?: PendingRequest['onProgress']
+): { id: number; response: Promise<JsonRpcMessage> } {
+  const id = nextRequestId++;
+  const response = new Promise<JsonRpcMessage>((resolve, reject) => {
+    state.pending.set(id, { resolve, reject, onProgress });
+  });
+  send(state, {
+    id,
+    method,
+    // The request id doubles as the progress token
+    params: onProgress ? { ...params, _meta: { progressToken: id } } : params,
+  });
+  return { id, response };
+}
+
+async function recordStatus(serverId: string, status: 'connected' | 'error', lastError: string | null): Promise<void> {
+  try {
+    // Crashes take connected users offline; a successful restart brings them back
+    await updateStdioMcpConnections(serverId, status === 'error' ? 'connected' : 'error', {
+      status,
+      lastError,
+      ...(status === 'connected' && { lastConnectedAt: new Date() }),
+    });
+  } catch (error) {
+    console.error('[MCP stdio] Failed to record server status:', error);
+  }
+}
+
+// Re-list the tools of a server that announced a change, for every connection using it
+async function refreshTools(serverId: string): Promise<void> {
+  try {
+    const tools = await listStdioTools(serverId, INITIALIZE_TIMEOUT_MS);
+    await updateStdioMcpConnections(serverId, 'connected', { availableTools: tools });
+  } catch (error) {
+    console.error(`[MCP stdio] Failed to refresh tools of ${serverId}:`, error);
+  }
+}
+
+function handleExit(state: StdioServerState, child: ChildProcessWithoutNullStreams, reason: string): void {
+  if (state.child !== child) return; // Already handled (error and exit both fire)
+  state.child = null;
+  state.ready = null;
+
+  const stderr = state.stderrTail.trim();
+  state.lastError = stderr ? `${reason}: ${stderr.slice(-500)}` : reason;
+  console.error(`[MCP stdio] ${state.config.id} ${state.lastError}`);
+
+  for (const pending of state.pending.values()) {
+    pending.reject(new Error(`MCP server exited - ${state.lastError}`));
+  }
+  state.pending.clear();
+  recordStatus(state.config.id, 'error', state.lastError);
+
+  // Restart with exponential backoff; a process that ran for a while starts over at 1s
+  if (Date.now() - state.startedAt > STABLE_UPTIME_MS) state.restartAttempts = 0;
+  if (state.restartAttempts >= MAX_RESTART_ATTEMPTS) {
+    state.restartAttempts = 0;
+    return;
+  }
+  const delay = Math.min(MAX_RESTART_DELAY_MS, 1000 * 2 ** state.restartAttempts);
+  state.restartAttempts++;
+  state.restartTimer = setTimeout(() => {
+    state.restartTimer = null;
+    start(state).catch(() => {
+      // handleExit has already scheduled the next attempt
+    });
+  }, delay);
+}
+
+// The only parts of our environment a server gets - the rest (database URL,
+// encryption key, API keys, SMTP credentials) stays with the app
+const INHERITED_ENV_VARS = ['PATH', 'HOME', 'LANG', 'TMPDIR'];
+
+function getChildEnv(configEnv: Record<string, string>): NodeJS.ProcessEnv {
+  const env: Record<string, string> = {};
+  for (const name of INHERITED_ENV_VARS) {
+    const value = process.env[name];
+    if (value !== undefined) env[name] = value;
+  }
+  return { ...env, ...configEnv } as NodeJS.ProcessEnv;
+}
+
+function start(state: StdioServerState): Promise<void> {
+  const { config } = state;
+  console.log(`[MCP stdio] Starting ${config.id}: ${config.command} ${config.args.join(' ')}`);
+
+  const child = spawn(config.command, config.args, {
+    env: getChildEnv(config.env),
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+  state.child = child;
+  state.stderrTail = '';
+  state.startedAt = Date.now();
+
+  createInterface({ input: child.stdout }).on('line', (line) => {
+    if (!line.trim()) return;
+    try {
+      const parsed = JSON.parse(line);
+      for (const message of Array.isArray(parsed) ? parsed : [parsed]) {
+        handleMessage(state, message);
+      }
+    } catch {
+      console.warn(`[MCP stdio] ${config.id} wrote non-JSON output:`, line.slice(0, 200));
+    }
+  });
+  child.stdin.on('error', () => {
+    // Writes after the process died - the exit handler reports it
+  });
+  child.stderr.on('data', (chunk: Buffer) => {
+    state.stderrTail = (state.stderrTail + chunk.toString()).slice(-STDERR_TAIL_LENGTH);
+  });
+  child.on('error', (error) => handleExit(state, child, `Failed to start: ${error.message}`));
+  child.on('exit', (code, signal) => handleExit(state, child, signal ? `Killed by ${signal}` : `Exited with code ${code}`));
+
+  state.ready = (async () => {
+    const { response } = rawRequest(state, 'initialize', getInitializeParams());
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('MCP server did not finish initializing')), INITIALIZE_TIMEOUT_MS);
+    });
+
+    try {
+      const result = await Promise.race([response, timeout]);
+      if (result.error) throw new Error(result.error.message || 'MCP initialize failed');
+      state.initializeResult = parseInitializeResult(result.result);
+      send(state, { method: 'notifications/initialized' });
+    } catch (error) {
+      child.kill();
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    state.lastError = null;
+    recordStatus(config.id, 'connected', null);
+  })();
+
+  // Failures are reported to whoever awaits ready; don't crash on an unobserved rejection
+  state.ready.catch(() => {});
+  return state.ready;
+}
+
+/**
+ * Running (and initialized) process for a server, started on first use
+ */
+async function ensureStarted(serverId: string): Promise<StdioServerState> {
+  const config = getStdioMcpServer(serverId);
+  if (!config) {
+    throw new Error(`Local MCP server "${serverId}" is not configured`);
+  }
+
+  let state = servers.get(serverId);
+  if (!state) {
+    state = {
+      config,
+      child: null,
+      ready: null,
+      initializeResult: null,
+      pending: new Map(),
+      stderrTail: '',
+      startedAt: 0,
+      restartAttempts: 0,
+      restartTimer: null,
+      lastError: null,
+    };
+    servers.set(serverId, state);
+  }
+
+  if (!state.ready) {
+    if (state.restartTimer) {
+      throw new Error(`MCP server is restarting after a crash - ${state.lastError}`);
+    }
+    start(state);
+  }
+
+  await state.ready;
+  return state;
+}
+
+/**
+ * Send a JSON-RPC request to a local server. Resolves with the raw response,
+ * so callers handle JSON-RPC errors the same way as for remote servers.
+ */
+export async function requestStdioMcp(
+  serverId: string,
+  method: string,
+  params: Record<string, unknown>,
+  options: {
+    timeoutMs: number;
+    signal?: AbortSignal;
+    onProgress?: PendingRequest['onProgress'];
+  }
+): Promise<JsonRpcMessage> {
+  const state = await ensureStarted(serverId);
+  const { id, response } = rawRequest(state, method, params, options.onProgress);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+  const stopped = new Promise<never>((_, reject) => {
+    // Cancelled by the caller or timed out - let the server stop too
+    const cancel = (reason: string) => {
+      state.pending.delete(id);
+      send(state, { method: 'notifications/cancelled', params: { requestId: id, reason } });
+      reject(new Error(reason === 'Request timed out' ? `Request timed out after ${options.timeoutMs / 1000}s` : 'Request cancelled'));
+    };
+    timer = setTimeout(() => cancel('Request timed out'), options.timeoutMs);
+    onAbort = () => cancel('Cancelled by user');
+    if (options.signal?.aborted) onAbort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([response, stopped]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) options.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Start (or reuse) a local server - the stdio counterpart of the initialize
+ * handshake with a remote server
+ */
+export async function initializeStdioMcpServer(serverId: string): Promise<McpInitializeResult> {
+  const state = await ensureStarted(serverId);
+  return state.initializeResult!;
+}
+
+async function listStdioTools(serverId: string, timeoutMs: number): Promise<
+  { name: string; description: string; inputSchema: Record<string, unknown> }[]
+> {
+  const tools: { name: string; description?: string; inputSchema?: Record<string, unknown> }[] = [];
+  const seenCursors = new Set<string>();
+  let cursor: string | undefined;
+  do {
+    const response = await requestStdioMcp(serverId, 'tools/list', cursor ? { cursor } : {}, { timeoutMs });
+    if (response.error) throw new Error(response.error.message || 'Failed to list tools');
+    const page = response.result as { tools?: typeof tools; nextCursor?: string } | undefined;
+    tools.push(...(page?.tools || []));
+    cursor = getNextListCursor('tools/list', page?.nextCursor, seenCursors);
+  } while (cursor);
+
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description || '',
+    inputSchema: tool.inputSchema || { type: 'object', properties: {} },
+  }));
+}
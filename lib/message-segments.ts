@@ -0,0 +1,136 @@
+// Message part segmentation shared by the chat view and the read-only share view
+
+import type { UIMessage } from "ai"
+import { extractToolParts, getToolProgress, type McpToolSource, type ToolPart } from "@/components/prompt-kit/tool"
+
+// Helper to extract reasoning parts from message
+// AI SDK sends reasoning with { type: 'reasoning', text: '...' }
+export function getReasoningParts(message: UIMessage): string[] {
+  const parts = Array.isArray(message.parts) ? message.parts : []
+  return parts
+    .filter((part) => part.type === "reasoning")
+    .map((part) => {
+      // AI SDK uses 'text' property for reasoning content
+      if ("text" in part && part.text) return part.text as string
+      // Fallback for 'reasoning' property (legacy)
+      if ("reasoning" in part && part.reasoning) return part.reasoning as string
+      return ""
+    })
+    .filter(Boolean)
+}
+
+// Segment message parts into ordered sections for proper rendering
+// Returns array of { type: 'text' | 'tool' | 'file', content: string | ToolPart }
+export type MessageSegment =
+  | { type: 'text'; content: string }
+  | { type: 'tool'; content: ToolPart }
+  | { type: 'tool-group'; content: ToolPart[] }
+  | { type: 'file'; content: { fileId: string; filename: string; mimeType?: string; sizeBytes?: number } }
+
+export function getOrderedMessageSegments(message: UIMessage): MessageSegment[] {
+  const parts = Array.isArray(message.parts) ? message.parts : []
+  const segments: MessageSegment[] = []
+  let currentText = ''
+  const toolProgress = getToolProgress(parts)
+  const mcpTools = (message.metadata as { mcpTools?: Record<string, McpToolSource> } | undefined)?.mcpTools
+
+  for (const part of parts) {
+    if (typeof part !== 'object' || part === null) continue
+
+    const p = part as Record<string, unknown>
+    const partType = p.type as string
+
+    if (!partType) continue
+
+    // Check if this is a tool part
+    const isToolPart = partType.startsWith('tool-') ||
+                       partType === 'tool-invocation' ||
+                       partType === 'tool-call' ||
+                       partType === 'tool-result'
+
+    if (partType === 'step-start') {
+      // Step boundary - flush accumulated text to preserve step interleaving
+      if (currentText.trim()) {
+        segments.push({ type: 'text', content: currentText.trim() })
+        currentText = ''
+      }
+    } else if (partType === 'text' && typeof p.text === 'string') {
+      // Accumulate text
+      currentText += (currentText ? '\n\n' : '') + p.text
+    } else if (partType === 'file-download') {
+      // File download part from DB-loaded messages
+      segments.push({
+        type: 'file',
+        content: {
+          fileId: p.fileId as string,
+          filename: p.filename as string || 'download',
+          mimeType: p.mimeType as string | undefined,
+          sizeBytes: p.sizeBytes as number | undefined,
+        },
+      })
+    } else if (partType === 'data-fileDownload') {
+      // File download part from SSE stream (AI SDK data chunk)
+      const fileData = p.data as Record<string, unknown> | undefined
+      if (fileData) {
+        segments.push({
+          type: 'file',
+          content: {
+            fileId: fileData.fileId as string,
+            filename: fileData.filename as string || 'download',
+            mimeType: fileData.mimeType as string | undefined,
+            sizeBytes: fileData.sizeBytes as number | undefined,
+          },
+        })
+      }
+    } else if (isToolPart) {
+      // Flush any accumulated text before tool
+      if (currentText.trim()) {
+        segments.push({ type: 'text', content: currentText.trim() })
+        currentText = ''
+      }
+      // Add tool segment
+      const toolParts = extractToolParts([part], mcpTools)
+      if (toolParts.length > 0) {
+        const toolPart = toolParts[0]
+        const progress = toolPart.state === 'input-available' && toolPart.toolCallId ? toolProgress[toolPart.toolCallId] : undefined
+        segments.push({ type: 'tool', content: progress ? { ...toolPart, progress } : toolPart })
+      }
+    }
+    // Skip reasoning parts - they're handled separately
+  }
+
+  // Flush any remaining text
+  if (currentText.trim()) {
+    segments.push({ type: 'text', content: currentText.trim() })
+  }
+
+  // Move file segments to the end so FileCards appear after all text content
+  const fileSegments = segments.filter(s => s.type === 'file')
+  const nonFileSegments = segments.filter(s => s.type !== 'file')
+  return [...nonFileSegments, ...fileSegments]
+}
+
+// Group consecutive tool segments into tool-group segments for compact rendering
+export function groupConsecutiveTools(segments: MessageSegment[]): MessageSegment[] {
+  const result: MessageSegment[] = []
+  let toolBuffer: ToolPart[] = []
+
+  const flushTools = () => {
+    if (toolBuffer.length > 0) {
+      result.push({ type: 'tool-group', content: [...toolBuffer] })
+    }
+    toolBuffer = []
+  }
+
+  for (const segment of segments) {
+    if (segment.type === 'tool') {
+      toolBuffer.push(segment.content as ToolPart)
+    } else {
+      flushTools()
+      result.push(segment)
+    }
+  }
+
+  flushTools()
+  return result
+}
@@ -0,0 +1,174 @@
+/**
+ * Model capability registry
+ * Context and output limits, thinking support and pricing of the Claude models
+ * offered in chat. Used by the chat route and by context-window fitting.
+ */
+
+export type ThinkingMode = 'adaptive' | 'manual' | 'none';
+
+/** USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite: number; // 5-minute cache
+  cacheRead: number;
+}
+
+export interface ModelCapabilities {
+  id: string;
+  name: string;
+  description: string;
+  contextWindowTokens: number;
+  /** Can use the 1M-token context window beta (CONTEXT_1M_BETA) */
+  supports1mContext: boolean;
+  maxOutputTokens: number;
+  /** adaptive: type "adaptive" + effort; manual: type "enabled" + budgetTokens */
+  thinking: ThinkingMode;
+  /** Highest effort used with adaptive thinking */
+  maxEffort?: 'max' | 'high';
+  vision: boolean;
+  pricing: ModelPricing;
+  /** Rates once a request's input goes over 200K tokens (1M context only) */
+  longContextPricing?: ModelPricing;
+}
+
+export const CONTEXT_1M_BETA = 'context-1m-2025-08-07';
+const EXTENDED_CONTEXT_WINDOW_TOKENS = 1_000_000;
+
+/** Most output reserved per chat response, whatever the model allows */
+const CHAT_MAX_OUTPUT_TOKENS = 65_536;
+
+export const DEFAULT_MODEL_ID = 'claude-sonnet-4-5-20250929';
+
+const HAIKU_4_5_MODEL_ID = 'claude-haiku-4-5-20251001';
+
+/** Summarizes history dropped from the context window (lib/history-summary.ts) */
+export const SUMMARY_MODEL_ID = HAIKU_4_5_MODEL_ID;
+
+const SONNET_PRICING: ModelPricing = { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 };
+const SONNET_LONG_CONTEXT_PRICING: ModelPricing = { input: 6, output: 22.5, cacheWrite: 7.5, cacheRead: 0.6 };
+const OPUS_PRICING: ModelPricing = { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 };
+
+// Newest first - the order models are listed in
+export const MODELS: ModelCapabilities[] = [
+  {
+    id: 'claude-opus-4-6',
+    name: 'Claude 4.6 Opus',
+    description: 'Most powerful model with adaptive thinking',
+    contextWindowTokens: 200_000,
+    supports1mContext: true,
+    maxOutputTokens: 128_000,
+    thinking: 'adaptive',
+    maxEffort: 'max',
+    vision: true,
+    pricing: OPUS_PRICING,
+    longContextPricing: { input: 10, output: 37.5, cacheWrite: 12.5, cacheRead: 1 },
+  },
+  {
+    id: 'claude-sonnet-4-6',
+    name: 'Claude 4.6 Sonnet',
+    description: 'Fast and intelligent with adaptive thinking',
+    contextWindowTokens: 200_000,
+    supports1mContext: true,
+    maxOutputTokens: 128_000,
+    thinking: 'adaptive',
+    maxEffort: 'high',
+    vision: true,
+    pricing: SONNET_PRICING,
+    longContextPricing: SONNET_LONG_CONTEXT_PRICING,
+  },
+  {
+    id: 'claude-sonnet-4-5-20250929',
+    name: 'Claude 4.5 Sonnet',
+    description: 'Most intelligent, best for complex tasks with extended thinking',
+    contextWindowTokens: 200_000,
+    supports1mContext: true,
+    maxOutputTokens: 64_000,
+    thinking: 'manual',
+    vision: true,
+    pricing: SONNET_PRICING,
+    longContextPricing: SONNET_LONG_CONTEXT_PRICING,
+  },
+  {
+    id: HAIKU_4_5_MODEL_ID,
+    name: 'Claude 4.5 Haiku',
+    description: 'Fast and efficient with thinking capabilities',
+    contextWindowTokens: 200_000,
+    supports1mContext: false,
+    maxOutputTokens: 64_000,
+    thinking: 'manual',
+    vision: true,
+    pricing: { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  },
+  {
+    id: 'claude-opus-4-5-20251101',
+    name: 'Claude 4.5 Opus',
+    description: 'Most capable model for complex reasoning and analysis',
+    contextWindowTokens: 200_000,
+    supports1mContext: false,
+    maxOutputTokens: 64_000,
+    thinking: 'manual',
+    vision: true,
+    pricing: OPUS_PRICING,
+  },
+  {
+    id: 'claude-opus-4-20250514',
+    name: 'Claude 4 Opus',
+    description: 'Advanced reasoning and deep analysis',
+    contextWindowTokens: 200_000,
+    supports1mContext: false,
+    maxOutputTokens: 32_000,
+    thinking: 'manual',
+    vision: true,
+    pricing: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  },
+  {
+    id: 'claude-sonnet-4-20250514',
+    name: 'Claude 4 Sonnet',
+    description: 'Balanced performance with reasoning support',
+    contextWindowTokens: 200_000,
+    supports1mContext: true,
+    maxOutputTokens: 64_000,
+    thinking: 'manual',
+    vision: true,
+    pricing: SONNET_PRICING,
+    longContextPricing: SONNET_LONG_CONTEXT_PRICING,
+  },
+];
+
+/**
+ * Capabilities of a model, or null for an id not in the registry
+ */
+export function getModelCapabilities(modelId: string): ModelCapabilities | null {
+  return MODELS.find((m) => m.id === modelId) ?? null;
+}
+
+/**
+ * Admin policy: set ANTHROPIC_ENABLE_1M_CONTEXT=true to use the 1M-token
+ * context window on models that support it (the organization needs access)
+ */
+function is1mContextEnabled(): boolean {
+  return process.env.ANTHROPIC_ENABLE_1M_CONTEXT === 'true';
+}
+
+/** What one chat request to a model may use */
+export interface ModelRequestLimits {
+  contextWindowTokens: number;
+  maxOutputTokens: number;
+  /** The request has to send the CONTEXT_1M_BETA header */
+  uses1mContext: boolean;
+}
+
+/**
+ * Context window and output reservation for a chat request. Unknown models
+ * get conservative limits.
+ */
+export function getModelRequestLimits(modelId: string): ModelRequestLimits {
+  const model = getModelCapabilities(modelId);
+  const uses1mContext = !!model?.supports1mContext && is1mContextEnabled();
+  return {
+    contextWindowTokens: uses1mContext ? EXTENDED_CONTEXT_WINDOW_TOKENS : model?.contextWindowTokens ?? 200_000,
+    maxOutputTokens: Math.min(model?.maxOutputTokens ?? 32_000, CHAT_MAX_OUTPUT_TOKENS),
+    uses1mContext,
+  };
+}
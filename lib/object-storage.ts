@@ -0,0 +1,108 @@
+/**
+ * Object storage for file bytes we keep ourselves
+ * The interface mirrors S3 (put/get/head/delete by key) so an S3-compatible
+ * adapter can replace the local one without touching callers.
+ *
+ * Configuration:
+ * - FILE_STORAGE_BACKEND: 'local' (default)
+ * - FILE_STORAGE_DIR: root directory for the local backend (default .storage/)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface ObjectMetadata {
+  contentType?: string;
+  contentLength: number;
+}
+
+export interface StoredObject extends ObjectMetadata {
+  body: Buffer;
+}
+
+export interface ObjectStorage {
+  putObject(key: string, body: Buffer, options?: { contentType?: string }): Promise<void>;
+  getObject(key: string): Promise<StoredObject | null>;
+  headObject(key: string): Promise<ObjectMetadata | null>;
+  deleteObject(key: string): Promise<void>;
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Local filesystem backend - each object is a file plus a `.meta.json` sidecar
+ */
+export function createLocalObjectStorage(rootDir: string): ObjectStorage {
+  const root = path.resolve(rootDir);
+
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    // Keys are S3-style paths; never let one escape the root
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return filePath;
+  };
+
+  const readMetadata = async (filePath: string): Promise<ObjectMetadata | null> => {
+    try {
+      const [stat, meta] = await Promise.all([
+        fs.stat(filePath),
+        fs.readFile(`${filePath}.meta.json`, 'utf-8').then(JSON.parse).catch(() => ({})),
+      ]);
+      return { contentType: meta.contentType, contentLength: stat.size };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  };
+
+  return {
+    async putObject(key, body, options) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body);
+      await fs.writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType: options?.contentType }));
+    },
+
+    async getObject(key) {
+      const filePath = resolveKey(key);
+      const metadata = await readMetadata(filePath);
+      if (!metadata) return null;
+      return { ...metadata, body: await fs.readFile(filePath) };
+    },
+
+    async headObject(key) {
+      return readMetadata(resolveKey(key));
+    },
+
+    async deleteObject(key) {
+      const filePath = resolveKey(key);
+      await Promise.all([
+        fs.rm(filePath, { force: true }),
+        fs.rm(`${filePath}.meta.json`, { force: true }),
+      ]);
+    },
+  };
+}
+
+let objectStorage: ObjectStorage | null = null;
+
+export function getObjectStorage(): ObjectStorage {
+  if (objectStorage) return objectStorage;
+
+  const backend = process.env.FILE_STORAGE_BACKEND || 'local';
+  switch (backend) {
+    case 'local':
+      objectStorage = createLocalObjectStorage(
+        process.env.FILE_STORAGE_DIR || path.join(process.cwd(), '.storage')
+      );
+      break;
+    default:
+      throw new Error(`Unknown FILE_STORAGE_BACKEND "${backend}" (expected local)`);
+  }
+
+  return objectStorage;
+}
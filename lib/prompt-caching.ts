@@ -0,0 +1,82 @@
+/**
+ * Anthropic prompt caching for chat requests
+ *
+ * The request prefix is tools -> system -> messages, and a cache breakpoint
+ * caches everything before it. Breakpoints go on the last function tool, the
+ * system prompt, and two places in the history: where the previous request
+ * ended (read back from the cache) and the last message (written for the next
+ * request). Anthropic allows four per request.
+ */
+
+import type { SystemModelMessage, ToolSet } from 'ai';
+import type { ModelMessage } from './context-window';
+
+const CACHE_CONTROL = { type: 'ephemeral' } as const;
+const CACHE_BREAKPOINT = { anthropic: { cacheControl: CACHE_CONTROL } };
+
+/** Cache read/write counts of a response, kept in Message.metadata */
+export interface PromptCacheUsage {
+  inputTokens: number; // Not read from or written to the cache
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * The system prompt as a message carrying a breakpoint
+ */
+export function cacheSystemPrompt(systemPrompt: string): SystemModelMessage {
+  return { role: 'system', content: systemPrompt, providerOptions: CACHE_BREAKPOINT };
+}
+
+/**
+ * Put a breakpoint on the last function tool, caching the whole tool list.
+ * Server tools (code execution, web search) can't carry one; without function
+ * tools the system prompt's breakpoint covers them.
+ */
+export function cacheTools(tools: ToolSet): ToolSet {
+  const functionToolNames = Object.keys(tools).filter((name) => tools[name].type !== 'provider');
+  const last = functionToolNames[functionToolNames.length - 1];
+  if (!last) return tools;
+  return { ...tools, [last]: { ...tools[last], providerOptions: CACHE_BREAKPOINT } };
+}
+
+/**
+ * Rolling breakpoints in the history: on the last message, and on the user
+ * message before the latest one - the previous request's last breakpoint,
+ * unless history was dropped since
+ */
+export function cacheHistory(messages: ModelMessage[]): ModelMessage[] {
+  if (messages.length === 0) return messages;
+
+  const userIndexes = messages.flatMap((m, i) => (m.role === 'user' ? [i] : []));
+  const breakpoints = new Set([messages.length - 1]);
+  if (userIndexes.length >= 2) breakpoints.add(userIndexes[userIndexes.length - 2]);
+
+  return messages.map((message, i) =>
+    breakpoints.has(i)
+      ? {
+          ...message,
+          providerOptions: {
+            ...message.providerOptions,
+            anthropic: { ...message.providerOptions?.anthropic, cacheControl: CACHE_CONTROL },
+          },
+        }
+      : message
+  );
+}
+
+/**
+ * Cache usage summed over every step of a response
+ */
+export function toPromptCacheUsage(usage: {
+  inputTokenDetails?: { noCacheTokens?: number; cacheReadTokens?: number; cacheWriteTokens?: number };
+  outputTokens?: number;
+}): PromptCacheUsage {
+  return {
+    inputTokens: usage.inputTokenDetails?.noCacheTokens ?? 0,
+    cacheReadTokens: usage.inputTokenDetails?.cacheReadTokens ?? 0,
+    cacheWriteTokens: usage.inputTokenDetails?.cacheWriteTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+  };
+}
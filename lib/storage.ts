@@ -2,13 +2,17 @@
 // Uses PostgreSQL with Prisma ORM
 
 import prisma from './db';
+import { Prisma } from './generated/prisma/client';
 import type {
   User,
   Conversation,
   Message,
   Artifact,
   McpConnection,
+  McpHealthCheck,
   Session,
+  PasswordResetToken,
+  File as FileRecord,
 } from './generated/prisma/client';
 
 // Re-export types for use in other modules
@@ -18,7 +22,10 @@ export type {
   Message,
   Artifact,
   McpConnection,
+  McpHealthCheck,
   Session,
+  PasswordResetToken,
+  FileRecord,
 };
 
 // ============================================
@@ -116,6 +123,56 @@ export async function cleanupExpiredSessions(): Promise<number> {
   return result.count;
 }
 
+// ============================================
+// Password Reset Token Operations
+// ============================================
+
+export async function createPasswordResetToken(data: {
+  email: string;
+  tokenHash: string;
+  expiresAt: Date;
+}): Promise<PasswordResetToken> {
+  return prisma.passwordResetToken.create({
+    data: {
+      email: data.email,
+      token: data.tokenHash,
+      expiresAt: data.expiresAt,
+    },
+  });
+}
+
+export async function getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | null> {
+  return prisma.passwordResetToken.findUnique({ where: { token: tokenHash } });
+}
+
+/**
+ * Mark a token as used. Returns false if it was already consumed,
+ * so concurrent confirmations can't both succeed.
+ */
+export async function consumePasswordResetToken(id: string): Promise<boolean> {
+  const result = await prisma.passwordResetToken.updateMany({
+    where: { id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return result.count === 1;
+}
+
+// Invalidate any outstanding tokens for an email (e.g. when a new one is issued)
+export async function invalidatePasswordResetTokens(email: string): Promise<number> {
+  const result = await prisma.passwordResetToken.updateMany({
+    where: { email, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return result.count;
+}
+
+export async function cleanupExpiredPasswordResetTokens(): Promise<number> {
+  const result = await prisma.passwordResetToken.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+  return result.count;
+}
+
 // ============================================
 // Conversation Operations
 // ============================================
@@ -125,17 +182,20 @@ export async function createConversation(data: {
   model?: string;
   userId: string;
 }): Promise<Conversation> {
-  return prisma.conversation.create({
+  const conversation = await prisma.conversation.create({
     data: {
       userId: data.userId,
       title: data.title || 'New Chat',
       model: data.model || 'claude-sonnet-4-5-20250929',
     },
   });
+  await indexConversationForSearch(conversation.id);
+  return conversation;
 }
 
+// Conversations come back with the messages of the active branch only
 export async function getConversation(id: string): Promise<(Conversation & { messages: Message[] }) | null> {
-  return prisma.conversation.findUnique({
+  const conversation = await prisma.conversation.findUnique({
     where: { id },
     include: {
       messages: {
@@ -143,6 +203,24 @@ export async function getConversation(id: string): Promise<(Conversation & { mes
       },
     },
   });
+  if (!conversation) return null;
+  return { ...conversation, messages: getActivePath(conversation.messages, conversation.activeLeafId) };
+}
+
+export async function getConversationByShareToken(
+  shareToken: string
+): Promise<(Conversation & { messages: Message[]; user: User }) | null> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { shareToken },
+    include: {
+      messages: {
+        orderBy: { createdAt: 'asc' },
+      },
+      user: true,
+    },
+  });
+  if (!conversation) return null;
+  return { ...conversation, messages: getActivePath(conversation.messages, conversation.activeLeafId) };
 }
 
 export async function getAllConversations(userId: string): Promise<Conversation[]> {
@@ -160,15 +238,66 @@ export async function updateConversation(
   data: Record<string, unknown>
 ): Promise<Conversation | null> {
   try {
-    return await prisma.conversation.update({
+    const conversation = await prisma.conversation.update({
       where: { id },
       data: data as Parameters<typeof prisma.conversation.update>[0]['data'],
     });
+    if (data.title !== undefined) await indexConversationForSearch(id);
+    return conversation;
   } catch {
     return null;
   }
 }
 
+/**
+ * The stored summary of history dropped from a conversation's context window,
+ * and saving a new one. Like the connector set, only the user's own conversation.
+ */
+export async function getConversationHistorySummary(id: string, userId: string): Promise<unknown> {
+  const conversation = await prisma.conversation.findFirst({
+    where: { id, userId },
+    select: { historySummary: true },
+  });
+  return conversation?.historySummary ?? null;
+}
+
+export async function setConversationHistorySummary(
+  id: string,
+  userId: string,
+  historySummary: object
+): Promise<void> {
+  await prisma.conversation.updateMany({
+    where: { id, userId },
+    data: { historySummary },
+  });
+}
+
+/**
+ * Whether a conversation exists and belongs to the user
+ */
+export async function isConversationOwner(id: string, userId: string): Promise<boolean> {
+  const conversation = await prisma.conversation.findFirst({
+    where: { id, userId },
+    select: { id: true },
+  });
+  return !!conversation;
+}
+
+/**
+ * Remember the connectors a conversation last used. Only updates the user's own
+ * conversation, so callers don't need to load it first.
+ */
+export async function setConversationMcpIds(
+  conversationId: string,
+  userId: string,
+  activeMcpIds: string[]
+): Promise<void> {
+  await prisma.conversation.updateMany({
+    where: { id: conversationId, userId },
+    data: { activeMcpIds },
+  });
+}
+
 export async function deleteConversation(id: string): Promise<boolean> {
   try {
     await prisma.conversation.delete({ where: { id } });
@@ -183,21 +312,92 @@ export async function deleteConversation(id: string): Promise<boolean> {
 // ============================================
 
 export interface MessageInput {
+  id?: string; // Client-generated UIMessage id, so the client and database agree on ids (ignored if taken)
+  parentId?: string | null; // Defaults to the end of the active branch
   role: 'user' | 'assistant' | 'tool';
   content: string;
   parts?: unknown[];
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Messages on the branch ending at `activeLeafId`, root first.
+ * Legacy conversations (no active leaf) are a flat list in creation order.
+ */
+export function getActivePath<T extends Pick<Message, 'id' | 'parentId' | 'createdAt'>>(
+  messages: T[],
+  activeLeafId: string | null
+): T[] {
+  if (!activeLeafId) return messages;
+
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  // A deleted leaf falls back to the newest message
+  let current: T | undefined = byId.get(activeLeafId) ?? messages[messages.length - 1];
+  const path: T[] = [];
+  const seen = new Set<string>();
+
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path.reverse();
+}
+
+/**
+ * Link a legacy (pre-branching) conversation's messages into a single chain.
+ * Returns the id of the last message, which becomes the active leaf.
+ */
+async function linkLegacyMessages(conversationId: string): Promise<string | null> {
+  const messages = await prisma.message.findMany({
+    where: { conversationId },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  });
+  if (messages.length === 0) return null;
+
+  await prisma.$transaction(
+    messages.slice(1).map((m, i) =>
+      prisma.message.update({ where: { id: m.id }, data: { parentId: messages[i].id } })
+    )
+  );
+  const leafId = messages[messages.length - 1].id;
+  await prisma.conversation.update({ where: { id: conversationId }, data: { activeLeafId: leafId } });
+  return leafId;
+}
+
 export async function addMessage(
   conversationId: string,
   data: MessageInput
 ): Promise<Message | null> {
   try {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: { activeLeafId: true },
+    });
+    const activeLeafId = conversation?.activeLeafId ?? await linkLegacyMessages(conversationId);
+
+    // null = new root (editing the first message). An unknown parent
+    // (e.g. a reply that failed to save) appends to the active branch instead.
+    const isInConversation = async (id: string | null | undefined) =>
+      !!id && !!(await prisma.message.findFirst({ where: { id, conversationId }, select: { id: true } }));
+    let parentId: string | null = null;
+    if (data.parentId !== null) {
+      if (await isInConversation(data.parentId)) parentId = data.parentId!;
+      else if (await isInConversation(activeLeafId)) parentId = activeLeafId;
+    }
+
+    // Ids are global keys - one the client picked that's already used, in any
+    // conversation, gets a server-generated id instead
+    const idTaken = !!data.id && !!(await prisma.message.findUnique({ where: { id: data.id }, select: { id: true } }));
+
     // Create message
     const message = await prisma.message.create({
       data: {
+        ...(data.id && !idTaken ? { id: data.id } : {}),
         conversationId,
+        parentId,
         role: data.role,
         content: data.content,
         parts: data.parts as object ?? null,
@@ -205,11 +405,12 @@ export async function addMessage(
       },
     });
 
-    // Update conversation's lastMessageAt (non-blocking)
-    prisma.conversation.update({
+    // The new message is now the end of the active branch
+    await prisma.conversation.update({
       where: { id: conversationId },
-      data: { lastMessageAt: new Date() },
-    }).catch(err => console.error('Error updating lastMessageAt:', err));
+      data: { lastMessageAt: new Date(), activeLeafId: message.id },
+    });
+    await indexMessageForSearch(message.id);
 
     return message;
   } catch (error) {
@@ -218,16 +419,98 @@ export async function addMessage(
   }
 }
 
+// A message by id, only if it's in the given conversation
+export async function getMessage(id: string, conversationId: string): Promise<Message | null> {
+  return prisma.message.findFirst({ where: { id, conversationId } });
+}
+
+// Messages on the conversation's active branch, oldest first
 export async function getMessages(conversationId: string): Promise<Message[]> {
-  return prisma.message.findMany({
+  const conversation = await getConversation(conversationId);
+  return conversation?.messages ?? [];
+}
+
+export interface MessageBranchInfo {
+  siblingIds: string[]; // All versions of this turn, oldest first
+  index: number; // Position of the message on the active branch within siblingIds
+}
+
+/**
+ * Sibling info for messages on a branch that have alternatives (edits or
+ * regenerated versions). Messages without siblings are omitted.
+ */
+export async function getMessageBranches(
+  conversationId: string,
+  pathMessages: Array<Pick<Message, 'id' | 'parentId'>>
+): Promise<Record<string, MessageBranchInfo>> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { activeLeafId: true },
+  });
+  if (!conversation?.activeLeafId || pathMessages.length === 0) return {};
+
+  const parentIds = pathMessages.map((m) => m.parentId).filter((id): id is string => !!id);
+  const siblings = await prisma.message.findMany({
+    where: {
+      conversationId,
+      OR: [{ parentId: { in: parentIds } }, { parentId: null }],
+    },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, parentId: true },
+  });
+
+  const branches: Record<string, MessageBranchInfo> = {};
+  for (const message of pathMessages) {
+    const siblingIds = siblings
+      .filter((s) => s.parentId === message.parentId)
+      .map((s) => s.id);
+    if (siblingIds.length > 1) {
+      branches[message.id] = { siblingIds, index: siblingIds.indexOf(message.id) };
+    }
+  }
+  return branches;
+}
+
+/**
+ * Make the branch through `messageId` active. Follows the most recent
+ * child at each step, so switching back to a branch restores its latest turn.
+ */
+export async function switchBranch(conversationId: string, messageId: string): Promise<boolean> {
+  const messages = await prisma.message.findMany({
     where: { conversationId },
     orderBy: { createdAt: 'asc' },
+    select: { id: true, parentId: true },
   });
+  if (!messages.some((m) => m.id === messageId)) return false;
+
+  // Branching needs parent links; give legacy conversations theirs first
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { activeLeafId: true },
+  });
+  if (!conversation?.activeLeafId) {
+    await linkLegacyMessages(conversationId);
+    return true;
+  }
+
+  let leafId = messageId;
+  for (;;) {
+    const children = messages.filter((m) => m.parentId === leafId);
+    if (children.length === 0) break;
+    leafId = children[children.length - 1].id;
+  }
+
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: { activeLeafId: leafId },
+  });
+  return true;
 }
 
 export async function clearMessages(conversationId: string): Promise<boolean> {
   try {
     await prisma.message.deleteMany({ where: { conversationId } });
+    await prisma.conversation.update({ where: { id: conversationId }, data: { activeLeafId: null } });
     return true;
   } catch {
     return false;
@@ -239,7 +522,7 @@ export async function updateMessage(
   data: { content?: string; parts?: unknown[]; metadata?: Record<string, unknown> }
 ): Promise<Message | null> {
   try {
-    return await prisma.message.update({
+    const message = await prisma.message.update({
       where: { id },
       data: {
         ...data,
@@ -248,6 +531,32 @@ export async function updateMessage(
         editedAt: new Date(),
       },
     });
+    if (data.content !== undefined) await indexMessageForSearch(id);
+    return message;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save an assistant message that was resumed after the user answered tool approvals.
+ * The whole turn is rewritten, but it isn't a user edit - editedAt stays unset.
+ */
+export async function saveContinuedMessage(
+  id: string,
+  data: { content: string; parts: unknown[]; metadata: Record<string, unknown> }
+): Promise<Message | null> {
+  try {
+    const message = await prisma.message.update({
+      where: { id },
+      data: {
+        content: data.content,
+        parts: data.parts as object,
+        metadata: data.metadata as object,
+      },
+    });
+    await indexMessageForSearch(id);
+    return message;
   } catch {
     return null;
   }
@@ -262,6 +571,128 @@ export async function deleteMessage(id: string): Promise<boolean> {
   }
 }
 
+// ============================================
+// Search Operations
+// ============================================
+// search_vector columns are an Unsupported type for Prisma, so they are
+// written and queried with raw SQL. Indexing failures never fail the write.
+
+async function indexMessageForSearch(id: string): Promise<void> {
+  try {
+    await prisma.$executeRaw`UPDATE messages SET search_vector = to_tsvector('english', content) WHERE id = ${id}`;
+  } catch (error) {
+    console.error('Error indexing message for search:', error);
+  }
+}
+
+async function indexConversationForSearch(id: string): Promise<void> {
+  try {
+    await prisma.$executeRaw`UPDATE conversations SET search_vector = to_tsvector('english', title) WHERE id = ${id}`;
+  } catch (error) {
+    console.error('Error indexing conversation for search:', error);
+  }
+}
+
+// Rows written before search existed are indexed once per process, on first search
+let searchBackfill: Promise<void> | null = null;
+
+function backfillSearchIndex(): Promise<void> {
+  searchBackfill ??= (async () => {
+    await prisma.$executeRaw`UPDATE messages SET search_vector = to_tsvector('english', content) WHERE search_vector IS NULL`;
+    await prisma.$executeRaw`UPDATE conversations SET search_vector = to_tsvector('english', title) WHERE search_vector IS NULL`;
+  })().catch((error) => {
+    searchBackfill = null;
+    throw error;
+  });
+  return searchBackfill;
+}
+
+export interface SearchFilters {
+  model?: string;
+  from?: Date;
+  to?: Date;
+  hasArtifacts?: boolean;
+  hasFiles?: boolean;
+  limit?: number;
+}
+
+export interface SearchResult {
+  conversationId: string;
+  messageId: string | null; // null = the conversation title matched
+  title: string;
+  model: string;
+  role: string | null;
+  snippet: string; // Matches wrapped in <mark></mark>; the rest is raw text, not HTML
+  createdAt: Date;
+  rank: number;
+}
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MinWords=8, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "';
+
+/**
+ * Full-text search over a user's message contents and conversation titles
+ * (Postgres websearch syntax: quoted phrases, OR, -exclusions)
+ */
+export async function searchConversations(
+  userId: string,
+  query: string,
+  filters: SearchFilters = {}
+): Promise<SearchResult[]> {
+  await backfillSearchIndex();
+
+  const messageConditions: Prisma.Sql[] = [];
+  const conversationConditions: Prisma.Sql[] = [];
+
+  if (filters.model) {
+    // Regenerated versions may use a different model than the conversation
+    messageConditions.push(Prisma.sql`COALESCE(m.metadata->>'model', c.model) = ${filters.model}`);
+    conversationConditions.push(Prisma.sql`c.model = ${filters.model}`);
+  }
+  if (filters.from) {
+    messageConditions.push(Prisma.sql`m.created_at >= ${filters.from}`);
+    conversationConditions.push(Prisma.sql`c.updated_at >= ${filters.from}`);
+  }
+  if (filters.to) {
+    messageConditions.push(Prisma.sql`m.created_at <= ${filters.to}`);
+    conversationConditions.push(Prisma.sql`c.updated_at <= ${filters.to}`);
+  }
+  if (filters.hasArtifacts) {
+    messageConditions.push(Prisma.sql`(m.content LIKE '%<antArtifact%' OR EXISTS (SELECT 1 FROM artifacts a WHERE a.message_id = m.id))`);
+    conversationConditions.push(Prisma.sql`(EXISTS (SELECT 1 FROM messages m2 WHERE m2.conversation_id = c.id AND m2.content LIKE '%<antArtifact%') OR EXISTS (SELECT 1 FROM artifacts a WHERE a.conversation_id = c.id))`);
+  }
+  if (filters.hasFiles) {
+    messageConditions.push(Prisma.sql`(m.parts @> '[{"type":"file"}]'::jsonb OR EXISTS (SELECT 1 FROM files f WHERE f.message_id = m.id))`);
+    conversationConditions.push(Prisma.sql`(EXISTS (SELECT 1 FROM messages m2 WHERE m2.conversation_id = c.id AND m2.parts @> '[{"type":"file"}]'::jsonb) OR EXISTS (SELECT 1 FROM files f WHERE f.conversation_id = c.id))`);
+  }
+
+  const and = (conditions: Prisma.Sql[]) =>
+    conditions.length > 0 ? Prisma.sql`AND ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+
+  return prisma.$queryRaw<SearchResult[]>`
+    WITH q AS (SELECT websearch_to_tsquery('english', ${query}) AS query)
+    SELECT * FROM (
+      SELECT c.id AS "conversationId", m.id AS "messageId", c.title, c.model, m.role,
+             ts_headline('english', m.content, q.query, ${HEADLINE_OPTIONS}) AS snippet,
+             m.created_at AS "createdAt",
+             ts_rank(m.search_vector, q.query) AS rank
+      FROM messages m
+      JOIN conversations c ON c.id = m.conversation_id
+      CROSS JOIN q
+      WHERE c.user_id = ${userId} AND m.search_vector @@ q.query ${and(messageConditions)}
+      UNION ALL
+      SELECT c.id, NULL, c.title, c.model, NULL,
+             ts_headline('english', c.title, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+             c.updated_at,
+             ts_rank(c.search_vector, q.query) * 2
+      FROM conversations c
+      CROSS JOIN q
+      WHERE c.user_id = ${userId} AND c.search_vector @@ q.query ${and(conversationConditions)}
+    ) results
+    ORDER BY rank DESC, "createdAt" DESC
+    LIMIT ${filters.limit ?? 30}
+  `;
+}
+
 // ============================================
 // Artifact Operations
 // ============================================
@@ -320,6 +751,85 @@ export async function deleteArtifact(id: string): Promise<boolean> {
   }
 }
 
+// ============================================
+// File Operations
+// ============================================
+
+/**
+ * Record ownership of Anthropic file ids. Ids that are already recorded keep
+ * their original owner - a later conversation can't claim someone else's file.
+ */
+export async function recordFiles(
+  files: Array<{ fileId: string; filename: string; mimeType?: string; sizeBytes?: number }>,
+  owner: { userId: string; conversationId?: string; messageId?: string; source?: 'generated' | 'upload' }
+): Promise<number> {
+  if (files.length === 0) return 0;
+  const result = await prisma.file.createMany({
+    data: files.map((file) => ({
+      fileId: file.fileId,
+      userId: owner.userId,
+      conversationId: owner.conversationId,
+      messageId: owner.messageId,
+      source: owner.source || 'generated',
+      filename: file.filename,
+      mimeType: file.mimeType,
+      sizeBytes: file.sizeBytes,
+    })),
+    skipDuplicates: true,
+  });
+  return result.count;
+}
+
+export async function getFileByFileId(fileId: string): Promise<FileRecord | null> {
+  return prisma.file.findUnique({ where: { fileId } });
+}
+
+export async function getUserFiles(
+  userId: string
+): Promise<Array<FileRecord & { conversation: { id: string; title: string } | null }>> {
+  return prisma.file.findMany({
+    where: { userId },
+    include: { conversation: { select: { id: true, title: true } } },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export async function updateFile(
+  fileId: string,
+  data: Partial<Pick<FileRecord, 'filename' | 'mimeType' | 'sizeBytes' | 'storageKey' | 'cachedAt'>>
+): Promise<FileRecord | null> {
+  try {
+    return await prisma.file.update({ where: { fileId }, data });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the file-download part for a file id in one of the user's conversations.
+ * Used to backfill ownership for files generated before they were recorded.
+ * Only assistant messages count - the server writes their parts, the client
+ * writes user messages.
+ */
+export async function findUserFileDownloadPart(
+  userId: string,
+  fileId: string
+): Promise<{ conversationId: string; messageId: string; part: Record<string, unknown> } | null> {
+  const message = await prisma.message.findFirst({
+    where: {
+      conversation: { userId },
+      role: 'assistant',
+      parts: { array_contains: [{ type: 'file-download', fileId }] },
+    },
+  });
+  if (!message || !Array.isArray(message.parts)) return null;
+
+  const part = (message.parts as Array<Record<string, unknown>>).find(
+    (p) => p?.type === 'file-download' && p.fileId === fileId
+  );
+  return part ? { conversationId: message.conversationId, messageId: message.id, part } : null;
+}
+
 // ============================================
 // MCP Connection Operations
 // ============================================
@@ -330,6 +840,9 @@ export async function createMcpConnection(data: {
   serverUrl: string;
   authType?: string;
   authCredentialsEncrypted?: string;
+  timeoutSeconds?: number;
+  transport?: string;
+  stdioServer?: string;
 }): Promise<McpConnection> {
   return prisma.mcpConnection.create({
     data: {
@@ -338,6 +851,9 @@ export async function createMcpConnection(data: {
       serverUrl: data.serverUrl,
       authType: data.authType || 'none',
       authCredentialsEncrypted: data.authCredentialsEncrypted,
+      timeoutSeconds: data.timeoutSeconds,
+      transport: data.transport || 'http',
+      stdioServer: data.stdioServer,
     },
   });
 }
@@ -367,6 +883,58 @@ export async function updateMcpConnection(
   }
 }
 
+/**
+ * Update every user's connection to an admin-defined stdio server that is in the given status
+ */
+export async function updateStdioMcpConnections(
+  stdioServer: string,
+  status: string,
+  data: Record<string, unknown>
+): Promise<void> {
+  await prisma.mcpConnection.updateMany({
+    where: { stdioServer, status },
+    data: data as Parameters<typeof prisma.mcpConnection.updateMany>[0]['data'],
+  });
+}
+
+/**
+ * Connections the health monitor checks - the ones users connected, including
+ * those currently failing. Disconnected ones and those waiting for OAuth are left alone.
+ */
+export async function getMcpConnectionsForHealthCheck(): Promise<McpConnection[]> {
+  return prisma.mcpConnection.findMany({
+    where: { status: { in: ['connected', 'error'] } },
+  });
+}
+
+// Health history kept per connection
+const MCP_HEALTH_HISTORY_LENGTH = 100;
+
+export async function recordMcpHealthCheck(
+  connectionId: string,
+  data: { status: string; latencyMs?: number; error?: string | null; toolCount?: number; toolsChanged?: boolean }
+): Promise<void> {
+  await prisma.mcpHealthCheck.create({ data: { connectionId, ...data } });
+
+  const stale = await prisma.mcpHealthCheck.findMany({
+    where: { connectionId },
+    orderBy: { checkedAt: 'desc' },
+    skip: MCP_HEALTH_HISTORY_LENGTH,
+    select: { id: true },
+  });
+  if (stale.length > 0) {
+    await prisma.mcpHealthCheck.deleteMany({ where: { id: { in: stale.map((check) => check.id) } } });
+  }
+}
+
+export async function getMcpHealthChecks(connectionId: string, limit = 50): Promise<McpHealthCheck[]> {
+  return prisma.mcpHealthCheck.findMany({
+    where: { connectionId },
+    orderBy: { checkedAt: 'desc' },
+    take: limit,
+  });
+}
+
 export async function deleteMcpConnection(id: string): Promise<boolean> {
   try {
     await prisma.mcpConnection.delete({ where: { id } });
@@ -390,6 +958,17 @@ export async function deleteMcpConnection(id: string): Promise<boolean> {
 export function toUIMessage(message: Message) {
   const storedParts = message.parts as Array<Record<string, unknown>> | null;
   const metadata = message.metadata as Record<string, unknown> | null;
+  // Only what the client needs - the model that produced each version, how the
+  // context window was used, which connectors were active, and which MCP server
+  // ran each tool call
+  const uiMetadata = typeof metadata?.model === 'string' || metadata?.mcpConnections || metadata?.mcpTools
+    ? {
+        ...(typeof metadata?.model === 'string' && { model: metadata.model }),
+        ...(metadata?.contextUsage ? { contextUsage: metadata.contextUsage } : {}),
+        ...(metadata?.mcpConnections ? { mcpConnections: metadata.mcpConnections } : {}),
+        ...(metadata?.mcpTools ? { mcpTools: metadata.mcpTools } : {}),
+      }
+    : undefined;
 
   // If no parts stored, create basic text part
   if (!storedParts || !Array.isArray(storedParts) || storedParts.length === 0) {
@@ -399,6 +978,7 @@ export function toUIMessage(message: Message) {
       content: message.content,
       createdAt: message.createdAt,
       parts: [{ type: 'text', text: message.content }],
+      metadata: uiMetadata,
     };
   }
 
@@ -428,6 +1008,7 @@ export function toUIMessage(message: Message) {
         input: part.input || part.args || {},
         output: part.output ?? part.result ?? undefined,
         state: part.state || 'output-available',
+        ...(part.approval ? { approval: part.approval } : {}),
       };
     }
 
@@ -449,6 +1030,7 @@ export function toUIMessage(message: Message) {
     content: message.content,
     createdAt: message.createdAt,
     parts,
+    metadata: uiMetadata,
   };
 }
 
@@ -465,6 +1047,8 @@ export function toConversationResponse(conversation: Conversation & { messages?:
     title: conversation.title,
     isPinned: conversation.isPinned,
     isShared: conversation.isShared,
+    shareToken: conversation.shareToken,
+    shareExpiresAt: conversation.shareExpiresAt?.toISOString() || null,
     model: conversation.model,
     createdAt: conversation.createdAt.toISOString(),
     updatedAt: conversation.updatedAt.toISOString(),
@@ -44,12 +44,31 @@ export function getSystemPrompt(): string {
   return BASE_PROMPT;
 }
 
+/**
+ * Append the user's saved custom instructions to a system prompt
+ */
+function withCustomInstructions(prompt: string, customInstructions?: string | null): string {
+  const instructions = customInstructions?.trim();
+  if (!instructions) return prompt;
+
+  return `${prompt}
+
+---
+
+## User Instructions
+
+The user has provided the following instructions. Follow them in every response unless they conflict with the guidance above.
+
+${instructions}`;
+}
+
 /**
  * Build a complete system prompt with dynamic tool descriptions
  */
 export function buildSystemPromptWithTools(
   availableTools: string[],
-  mcpToolDescriptions: { name: string; description: string }[] = []
+  mcpToolDescriptions: { name: string; description: string }[] = [],
+  customInstructions?: string | null
 ): string {
   const basePrompt = getSystemPrompt();
 
@@ -75,10 +94,10 @@ export function buildSystemPromptWithTools(
   }
 
   if (toolSections.length === 0) {
-    return basePrompt;
+    return withCustomInstructions(basePrompt, customInstructions);
   }
 
-  return `${basePrompt}
+  return withCustomInstructions(`${basePrompt}
 
 ---
 
@@ -86,5 +105,5 @@ export function buildSystemPromptWithTools(
 
 ${toolSections.join('\n')}
 
-Use tools proactively when they add value. For MCP tools, discover schema/capabilities first before querying — don't guess data, always fetch from connected systems.`;
+Use tools proactively when they add value. For MCP tools, discover schema/capabilities first before querying — don't guess data, always fetch from connected systems.`, customInstructions);
 }
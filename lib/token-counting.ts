@@ -0,0 +1,262 @@
+/**
+ * Token counting with Anthropic's count-tokens endpoint
+ * Counts are cached by a hash of what was counted, so earlier turns of a
+ * conversation are only counted once. When the endpoint can't be reached, the
+ * local estimator in lib/context-window.ts stands in.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { asSchema, type ToolSet } from 'ai';
+import crypto from 'crypto';
+import { getAnthropicFilesClient } from './anthropic-files';
+import {
+  estimateMessageTokens,
+  estimateTokens,
+  estimateToolTokens,
+  type ModelMessage,
+  type TokenCounter,
+  type ToolDefinition,
+} from './context-window';
+import type { User } from './generated/prisma/client';
+
+const CACHE_SIZE = 2000;
+const COUNT_TIMEOUT_MS = 5000;
+
+// Content hash -> token count; Map keeps insertion order, so the first key is the least recently used
+const cache = new Map<string, number>();
+
+function getCached(key: string): number | undefined {
+  const value = cache.get(key);
+  if (value !== undefined) {
+    cache.delete(key);
+    cache.set(key, value);
+  }
+  return value;
+}
+
+function setCached(key: string, value: number): void {
+  cache.set(key, value);
+  if (cache.size > CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// AI SDK model messages -> Anthropic messages (close enough to count)
+// ---------------------------------------------------------------------------
+
+function stringifyToolOutput(output: unknown): string {
+  if (output == null) return '';
+  if (typeof output === 'string') return output;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const out = output as any;
+  switch (out.type) {
+    case 'text':
+    case 'error-text':
+      return String(out.value ?? '');
+    case 'content':
+      return Array.isArray(out.value)
+        ? out.value.map((v: { type: string; text?: string }) => (v.type === 'text' ? v.text ?? '' : JSON.stringify(v))).join('\n')
+        : JSON.stringify(out.value ?? '');
+    default:
+      return JSON.stringify(out.value ?? output);
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function toFileBlock(part: any): Anthropic.ContentBlockParam {
+  const mediaType: string = part.mediaType ?? part.mimeType ?? 'image/png';
+  const data = part.data ?? part.image;
+  const dataUrl = typeof data === 'string' ? data.match(/^data:[^;,]*;base64,([\s\S]*)$/) : null;
+  const base64 = dataUrl ? dataUrl[1] : data instanceof Uint8Array ? Buffer.from(data).toString('base64') : null;
+  const url = typeof data === 'string' && /^https?:/.test(data) ? data : data instanceof URL ? data.toString() : null;
+
+  if (mediaType.startsWith('image/')) {
+    if (base64) {
+      return { type: 'image', source: { type: 'base64', media_type: mediaType as 'image/png', data: base64 } };
+    }
+    if (url) return { type: 'image', source: { type: 'url', url } };
+  }
+  if (mediaType === 'application/pdf') {
+    if (base64) return { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: base64 } };
+    if (url) return { type: 'document', source: { type: 'url', url } };
+  }
+  if (mediaType.startsWith('text/') && base64) {
+    return {
+      type: 'document',
+      source: { type: 'text', media_type: 'text/plain', data: Buffer.from(base64, 'base64').toString('utf-8') },
+    };
+  }
+  return { type: 'text', text: `[${part.filename || 'file'}]` };
+}
+
+function toContentBlocks(message: ModelMessage): Anthropic.ContentBlockParam[] {
+  if (typeof message.content === 'string') {
+    return message.content ? [{ type: 'text', text: message.content }] : [];
+  }
+  if (!Array.isArray(message.content)) return [];
+
+  const blocks: Anthropic.ContentBlockParam[] = [];
+  for (const part of message.content) {
+    if (!part || typeof part !== 'object') continue;
+    switch (part.type) {
+      case 'text':
+        if (part.text) blocks.push({ type: 'text', text: part.text });
+        break;
+      case 'reasoning':
+        // Thinking from earlier turns is removed by the API and doesn't take up context
+        break;
+      case 'tool-call':
+        // Server tools (code execution, web search) run inside the response - count them as text
+        if (part.providerExecuted) {
+          blocks.push({ type: 'text', text: JSON.stringify(part.input ?? {}) });
+        } else {
+          blocks.push({
+            type: 'tool_use',
+            id: part.toolCallId,
+            name: part.toolName,
+            input: typeof part.input === 'object' && part.input !== null ? part.input : {},
+          });
+        }
+        break;
+      case 'tool-result':
+        if (message.role === 'tool') {
+          blocks.push({ type: 'tool_result', tool_use_id: part.toolCallId, content: stringifyToolOutput(part.output ?? part.result) });
+        } else {
+          blocks.push({ type: 'text', text: stringifyToolOutput(part.output ?? part.result) });
+        }
+        break;
+      case 'image':
+      case 'file':
+        blocks.push(toFileBlock(part));
+        break;
+      default:
+        blocks.push({ type: 'text', text: JSON.stringify(part) });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Anthropic messages for model messages. Tool results become user messages and
+ * consecutive messages of the same role are merged, as the provider does.
+ */
+function toAnthropicMessages(messages: ModelMessage[]): Anthropic.MessageParam[] {
+  const result: Anthropic.MessageParam[] = [];
+  for (const message of messages) {
+    const role = message.role === 'assistant' ? 'assistant' : 'user';
+    const blocks = toContentBlocks(message);
+    if (blocks.length === 0) continue;
+
+    const previous = result[result.length - 1];
+    if (previous?.role === role) {
+      (previous.content as Anthropic.ContentBlockParam[]).push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  }
+  return result;
+}
+
+/**
+ * Definitions of the function tools in a tool set. Server tools (code execution,
+ * web search) are left out - their definitions aren't sent as JSON and the
+ * endpoint doesn't count them without their betas.
+ */
+export async function getToolDefinitions(tools: ToolSet): Promise<ToolDefinition[]> {
+  return Promise.all(
+    Object.entries(tools)
+      .filter(([, t]) => t.type !== 'provider')
+      .map(async ([name, t]) => ({
+        name,
+        description: t.description,
+        inputSchema: await asSchema(t.inputSchema).jsonSchema,
+      }))
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Counter
+// ---------------------------------------------------------------------------
+
+/**
+ * Counts tokens for one chat request with the user's API key. After the endpoint
+ * fails to respond, the rest of the request is estimated instead of waiting again.
+ */
+class AnthropicTokenCounter implements TokenCounter {
+  private offline = false;
+  private estimated = false;
+
+  constructor(
+    private client: Anthropic,
+    private model: string
+  ) {}
+
+  get source(): 'api' | 'estimate' {
+    return this.estimated ? 'estimate' : 'api';
+  }
+
+  async countSystem(systemPrompt: string, tools: ToolDefinition[] = []): Promise<number> {
+    // The endpoint needs a message; the placeholder costs a few tokens
+    return this.count(
+      {
+        system: systemPrompt,
+        messages: [{ role: 'user', content: '.' }],
+        ...(tools.length > 0 && {
+          tools: tools.map((t) => ({
+            name: t.name,
+            description: t.description,
+            input_schema: t.inputSchema as Anthropic.Tool.InputSchema,
+          })),
+        }),
+      },
+      () => estimateTokens(systemPrompt) + estimateToolTokens(tools)
+    );
+  }
+
+  async countMessages(messages: ModelMessage[]): Promise<number> {
+    const anthropicMessages = toAnthropicMessages(messages);
+    if (anthropicMessages.length === 0) return 0;
+    return this.count(
+      { messages: anthropicMessages },
+      () => messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0)
+    );
+  }
+
+  private async count(
+    request: Omit<Anthropic.MessageCountTokensParams, 'model'>,
+    estimate: () => number
+  ): Promise<number> {
+    const key = crypto.createHash('sha256').update(this.model).update(JSON.stringify(request)).digest('hex');
+    const cached = getCached(key);
+    if (cached !== undefined) return cached;
+
+    if (!this.offline) {
+      try {
+        const { input_tokens } = await this.client.messages.countTokens(
+          { ...request, model: this.model },
+          { timeout: COUNT_TIMEOUT_MS, maxRetries: 0 }
+        );
+        setCached(key, input_tokens);
+        return input_tokens;
+      } catch (error) {
+        // A rejected payload only affects this count; anything else means the endpoint is unavailable
+        if (!(error instanceof Anthropic.BadRequestError)) this.offline = true;
+        console.warn('[TokenCounting] count-tokens failed, estimating locally:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    this.estimated = true;
+    return estimate();
+  }
+}
+
+/**
+ * Token counter for a chat request, billed to the same API key as the request
+ */
+export function createTokenCounter(
+  user: Pick<User, 'id' | 'anthropicApiKeyEncrypted'>,
+  model: string
+): TokenCounter {
+  return new AnthropicTokenCounter(getAnthropicFilesClient(user), model);
+}
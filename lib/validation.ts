@@ -65,6 +65,10 @@ export const UserPreferencesSchema = z.object({
   messageDensity: z.enum(['compact', 'comfortable', 'spacious']).optional(),
 });
 
+export const CustomInstructionsSchema = z
+  .string()
+  .max(10000, 'Custom instructions must be less than 10000 characters');
+
 export const AwsCredentialsSchema = z.object({
   accessKeyId: z
     .string()
@@ -92,6 +96,27 @@ export const UpdateConversationSchema = z.object({
   model: z.string().max(100).optional(),
 });
 
+export const ShareConversationSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(365).optional().nullable(),
+});
+
+export const SwitchBranchSchema = z.object({
+  messageId: z.string().min(1, 'Message ID is required').max(100),
+});
+
+// Query-string booleans arrive as "true"/"false"
+const QueryBooleanSchema = z.enum(['true', 'false']).transform((v) => v === 'true');
+
+export const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required').max(200),
+  model: z.string().max(100).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  hasArtifacts: QueryBooleanSchema.optional(),
+  hasFiles: QueryBooleanSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
 // ============================================
 // Message Schemas
 // ============================================
@@ -117,10 +142,17 @@ export const MessageFeedbackSchema = z.object({
 
 export const McpAuthTypeSchema = z.enum(['none', 'api_key', 'oauth']);
 
+export const McpTimeoutSecondsSchema = z.number().int().min(5).max(600, 'Timeout must be at most 600 seconds');
+
+// allow: runs immediately, ask: the user approves each call, never: hidden from the model
+export const McpToolPolicySchema = z.enum(['allow', 'ask', 'never']);
+export const McpToolPoliciesSchema = z.record(z.string().max(200), McpToolPolicySchema);
+
 export const CreateMcpConnectionSchema = z.object({
   name: z.string().min(1).max(100, 'Name must be less than 100 characters'),
   serverUrl: z.string().url('Invalid server URL'),
   authType: McpAuthTypeSchema.optional().default('none'),
+  timeoutSeconds: McpTimeoutSecondsSchema.optional(),
   oauthClientId: z.string().max(500).optional(),
   oauthClientSecret: z.string().max(500).optional(),
   apiKey: z.string().max(500).optional(),
@@ -134,6 +166,17 @@ export const UpdateMcpConnectionSchema = z.object({
   lastError: z.string().max(1000).optional().nullable(),
   availableTools: z.array(z.unknown()).optional(),
   lastConnectedAt: z.date().optional(),
+  timeoutSeconds: McpTimeoutSecondsSchema.nullable().optional(),
+  toolPolicies: McpToolPoliciesSchema.optional(),
+});
+
+export const ReadMcpResourceSchema = z.object({
+  uri: z.string().min(1, 'Resource URI is required').max(2000),
+});
+
+export const GetMcpPromptSchema = z.object({
+  name: z.string().min(1, 'Prompt name is required').max(200),
+  arguments: z.record(z.string(), z.string().max(10000)).optional(),
 });
 
 // ============================================
@@ -142,9 +185,11 @@ export const UpdateMcpConnectionSchema = z.object({
 
 export const ChatRequestSchema = z.object({
   messages: z.array(z.object({
+    id: z.string().max(100).optional(),
     role: z.enum(['user', 'assistant', 'system']),
     content: z.string().optional(),
     parts: z.array(z.unknown()).optional(),
+    metadata: z.record(z.string(), z.unknown()).optional(),
   })).min(1),
   model: z.string().max(100).optional(),
   enableReasoning: z.boolean().optional(),
@@ -197,8 +242,14 @@ export type UserPreferencesInput = z.infer<typeof UserPreferencesSchema>;
 export type AwsCredentialsInput = z.infer<typeof AwsCredentialsSchema>;
 export type CreateConversationInput = z.infer<typeof CreateConversationSchema>;
 export type UpdateConversationInput = z.infer<typeof UpdateConversationSchema>;
+export type ShareConversationInput = z.infer<typeof ShareConversationSchema>;
+export type SwitchBranchInput = z.infer<typeof SwitchBranchSchema>;
+export type SearchQueryInput = z.infer<typeof SearchQuerySchema>;
 export type CreateMessageInput = z.infer<typeof CreateMessageSchema>;
 export type MessageFeedbackInput = z.infer<typeof MessageFeedbackSchema>;
 export type CreateMcpConnectionInput = z.infer<typeof CreateMcpConnectionSchema>;
 export type UpdateMcpConnectionInput = z.infer<typeof UpdateMcpConnectionSchema>;
+export type ReadMcpResourceInput = z.infer<typeof ReadMcpResourceSchema>;
+export type GetMcpPromptInput = z.infer<typeof GetMcpPromptSchema>;
 export type ChatRequestInput = z.infer<typeof ChatRequestSchema>;
+export type McpToolPolicy = z.infer<typeof McpToolPolicySchema>;
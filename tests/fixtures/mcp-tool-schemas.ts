@@ -0,0 +1,443 @@
+/**
+ * Input schemas of real MCP server tools, as their servers announce them in
+ * tools/list, with arguments each schema should accept and reject.
+ * Covers the generators MCP servers commonly use: zod-to-json-schema (TypeScript
+ * SDK servers), Pydantic (Python SDK / FastMCP servers) and hand-written schemas.
+ */
+
+import type { McpTool } from '@/lib/mcp-client';
+
+export interface McpToolSchemaCase {
+  server: string;
+  tool: McpTool;
+  valid: Record<string, unknown>[];
+  invalid: Record<string, unknown>[];
+}
+
+const DRAFT_07 = 'http://json-schema.org/draft-07/schema#';
+
+export const MCP_TOOL_SCHEMAS: McpToolSchemaCase[] = [
+  {
+    server: '@modelcontextprotocol/server-filesystem',
+    tool: {
+      name: 'read_text_file',
+      description: 'Read the complete contents of a file from the file system as text.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          tail: { type: 'number', description: 'If provided, returns only the last N lines of the file' },
+          head: { type: 'number', description: 'If provided, returns only the first N lines of the file' },
+        },
+        required: ['path'],
+        additionalProperties: false,
+        $schema: DRAFT_07,
+      },
+    },
+    valid: [{ path: '/tmp/notes.txt' }, { path: '/tmp/notes.txt', head: 10 }],
+    invalid: [{}, { path: 42 }, { path: '/tmp/notes.txt', tail: 'ten' }, { path: '/tmp/notes.txt', lines: 5 }],
+  },
+  {
+    server: '@modelcontextprotocol/server-filesystem',
+    tool: {
+      name: 'edit_file',
+      description: 'Make line-based edits to a text file.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          edits: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                oldText: { type: 'string', description: 'Text to search for - must match exactly' },
+                newText: { type: 'string', description: 'Text to replace with' },
+              },
+              required: ['oldText', 'newText'],
+              additionalProperties: false,
+            },
+          },
+          dryRun: { type: 'boolean', default: false, description: 'Preview changes using git-style diff format' },
+        },
+        required: ['path', 'edits'],
+        additionalProperties: false,
+        $schema: DRAFT_07,
+      },
+    },
+    valid: [
+      { path: 'src/app.ts', edits: [{ oldText: 'foo', newText: 'bar' }] },
+      { path: 'src/app.ts', edits: [], dryRun: true },
+    ],
+    invalid: [
+      { path: 'src/app.ts', edits: [{ oldText: 'foo' }] },
+      { path: 'src/app.ts', edits: 'foo -> bar' },
+      { path: 'src/app.ts', edits: [{ oldText: 'foo', newText: 'bar' }], dryRun: 'yes' },
+    ],
+  },
+  {
+    server: '@modelcontextprotocol/server-github',
+    tool: {
+      name: 'create_issue',
+      description: 'Create a new issue in a GitHub repository',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          owner: { type: 'string' },
+          repo: { type: 'string' },
+          title: { type: 'string' },
+          body: { type: 'string' },
+          assignees: { type: 'array', items: { type: 'string' } },
+          milestone: { type: 'number' },
+          labels: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['owner', 'repo', 'title'],
+        additionalProperties: false,
+        $schema: DRAFT_07,
+      },
+    },
+    valid: [
+      { owner: 'octocat', repo: 'hello-world', title: 'Bug' },
+      { owner: 'octocat', repo: 'hello-world', title: 'Bug', labels: ['bug'], assignees: ['octocat'], milestone: 3 },
+    ],
+    invalid: [
+      { owner: 'octocat', repo: 'hello-world' },
+      { owner: 'octocat', repo: 'hello-world', title: 'Bug', assignees: 'octocat' },
+      { owner: 'octocat', repo: 'hello-world', title: 'Bug', labels: [1, 2] },
+    ],
+  },
+  {
+    server: 'github/github-mcp-server',
+    tool: {
+      name: 'search_repositories',
+      description: 'Search for GitHub repositories',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Search query' },
+          page: { type: 'number', description: 'Page number for pagination (min 1)', minimum: 1 },
+          perPage: { type: 'number', description: 'Results per page for pagination (min 1, max 100)', minimum: 1, maximum: 100 },
+        },
+        required: ['query'],
+      },
+    },
+    valid: [{ query: 'mcp' }, { query: 'mcp', page: 2, perPage: 100 }],
+    invalid: [{ query: 'mcp', perPage: 500 }, { query: 'mcp', page: 0 }, { page: 1 }],
+  },
+  {
+    server: 'mcp-server-fetch',
+    tool: {
+      name: 'fetch',
+      description: 'Fetches a URL from the internet and optionally extracts its contents as markdown.',
+      inputSchema: {
+        description: 'Parameters for fetching a URL.',
+        properties: {
+          url: { description: 'URL to fetch', format: 'uri', minLength: 1, title: 'Url', type: 'string' },
+          max_length: {
+            default: 5000,
+            description: 'Maximum number of characters to return.',
+            exclusiveMaximum: 1000000,
+            exclusiveMinimum: 0,
+            title: 'Max Length',
+            type: 'integer',
+          },
+          start_index: {
+            default: 0,
+            description: 'On return output starting at this character index.',
+            minimum: 0,
+            title: 'Start Index',
+            type: 'integer',
+          },
+          raw: { default: false, description: 'Get the actual HTML content, without simplification.', title: 'Raw', type: 'boolean' },
+        },
+        required: ['url'],
+        title: 'Fetch',
+        type: 'object',
+      },
+    },
+    valid: [{ url: 'https://example.com' }, { url: 'https://example.com', max_length: 20000, start_index: 5000, raw: true }],
+    invalid: [
+      { url: '' },
+      { url: 'https://example.com', max_length: 1.5 },
+      { url: 'https://example.com', max_length: 0 },
+      { url: 'https://example.com', start_index: -1 },
+    ],
+  },
+  {
+    server: 'mcp-server-git',
+    tool: {
+      name: 'git_log',
+      description: 'Shows the commit logs',
+      inputSchema: {
+        properties: {
+          repo_path: { title: 'Repo Path', type: 'string' },
+          max_count: { default: 10, title: 'Max Count', type: 'integer' },
+          start_timestamp: {
+            anyOf: [{ type: 'string' }, { type: 'null' }],
+            default: null,
+            description: "Start timestamp for filtering commits. Accepts: ISO 8601 format (e.g., '2024-01-15T14:30:25'), relative dates (e.g., '2 weeks ago', 'yesterday'), or absolute dates (e.g., '2024-01-15', 'Jan 15 2024')",
+            title: 'Start Timestamp',
+          },
+          end_timestamp: {
+            anyOf: [{ type: 'string' }, { type: 'null' }],
+            default: null,
+            title: 'End Timestamp',
+          },
+        },
+        required: ['repo_path'],
+        title: 'GitLog',
+        type: 'object',
+      },
+    },
+    valid: [
+      { repo_path: '/repo' },
+      { repo_path: '/repo', max_count: 5, start_timestamp: '2 weeks ago', end_timestamp: null },
+    ],
+    invalid: [{ repo_path: '/repo', max_count: 2.5 }, { repo_path: '/repo', start_timestamp: 1705329025 }],
+  },
+  {
+    server: 'mcp-server-time',
+    tool: {
+      name: 'convert_time',
+      description: 'Convert time between timezones',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          source_timezone: { type: 'string', description: "Source IANA timezone name (e.g., 'America/New_York', 'Europe/London')." },
+          time: { type: 'string', description: 'Time to convert in 24-hour format (HH:MM)' },
+          target_timezone: { type: 'string', description: "Target IANA timezone name (e.g., 'Asia/Tokyo', 'America/San_Francisco')." },
+        },
+        required: ['source_timezone', 'time', 'target_timezone'],
+      },
+    },
+    valid: [{ source_timezone: 'Europe/London', time: '16:30', target_timezone: 'Asia/Tokyo' }],
+    invalid: [{ source_timezone: 'Europe/London', time: '16:30' }],
+  },
+  {
+    server: '@modelcontextprotocol/server-memory',
+    tool: {
+      name: 'create_entities',
+      description: 'Create multiple new entities in the knowledge graph',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          entities: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string', description: 'The name of the entity' },
+                entityType: { type: 'string', description: 'The type of the entity' },
+                observations: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'An array of observation contents associated with the entity',
+                },
+              },
+              required: ['name', 'entityType', 'observations'],
+            },
+          },
+        },
+        required: ['entities'],
+      },
+    },
+    valid: [{ entities: [{ name: 'Ada', entityType: 'person', observations: ['Wrote the first program'] }] }],
+    invalid: [
+      { entities: [{ name: 'Ada', entityType: 'person' }] },
+      { entities: [{ name: 'Ada', entityType: 'person', observations: 'Wrote the first program' }] },
+      { entities: { name: 'Ada' } },
+    ],
+  },
+  {
+    server: '@modelcontextprotocol/server-sequential-thinking',
+    tool: {
+      name: 'sequentialthinking',
+      description: 'A detailed tool for dynamic and reflective problem-solving through thoughts.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          thought: { type: 'string', description: 'Your current thinking step' },
+          nextThoughtNeeded: { type: 'boolean', description: 'Whether another thought step is needed' },
+          thoughtNumber: { type: 'integer', description: 'Current thought number', minimum: 1 },
+          totalThoughts: { type: 'integer', description: 'Estimated total thoughts needed', minimum: 1 },
+          isRevision: { type: 'boolean', description: 'Whether this revises previous thinking' },
+          revisesThought: { type: 'integer', description: 'Which thought is being reconsidered', minimum: 1 },
+          branchFromThought: { type: 'integer', description: 'Branching point thought number', minimum: 1 },
+          branchId: { type: 'string', description: 'Branch identifier' },
+          needsMoreThoughts: { type: 'boolean', description: 'If more thoughts are needed' },
+        },
+        required: ['thought', 'nextThoughtNeeded', 'thoughtNumber', 'totalThoughts'],
+      },
+    },
+    valid: [
+      { thought: 'Start with the constraints', nextThoughtNeeded: true, thoughtNumber: 1, totalThoughts: 3 },
+      { thought: 'Reconsider', nextThoughtNeeded: false, thoughtNumber: 3, totalThoughts: 3, isRevision: true, revisesThought: 1 },
+    ],
+    invalid: [
+      { thought: 'Start', nextThoughtNeeded: true, thoughtNumber: 0, totalThoughts: 3 },
+      { thought: 'Start', nextThoughtNeeded: true, thoughtNumber: 1.5, totalThoughts: 3 },
+      { thought: 'Start', thoughtNumber: 1, totalThoughts: 3 },
+    ],
+  },
+  {
+    server: '@modelcontextprotocol/server-puppeteer',
+    tool: {
+      name: 'puppeteer_navigate',
+      description: 'Navigate to a URL',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', description: 'URL to navigate to' },
+          launchOptions: {
+            type: 'object',
+            description: "PuppeteerJS LaunchOptions. Default null. If changed and not null, browser restarts. Example: { headless: true, args: ['--no-sandbox'] }",
+          },
+          allowDangerous: {
+            type: 'boolean',
+            description: 'Allow dangerous LaunchOptions that reduce security. When false, dangerous args like --no-sandbox will throw errors. Default false.',
+          },
+        },
+        required: ['url'],
+      },
+    },
+    valid: [{ url: 'https://example.com' }, { url: 'https://example.com', launchOptions: { headless: true, args: ['--no-sandbox'] } }],
+    invalid: [{ url: 'https://example.com', launchOptions: '--headless' }],
+  },
+  {
+    server: '@modelcontextprotocol/server-everything',
+    tool: {
+      name: 'printEnv',
+      description: 'Prints all environment variables, helpful for debugging MCP server configuration',
+      inputSchema: { type: 'object', properties: {}, $schema: DRAFT_07 },
+    },
+    valid: [{}],
+    invalid: [],
+  },
+  {
+    server: 'FastMCP (Pydantic models)',
+    tool: {
+      name: 'create_tasks',
+      description: 'Create tasks in the tracker',
+      inputSchema: {
+        $defs: {
+          Priority: { enum: ['low', 'medium', 'high'], title: 'Priority', type: 'string' },
+          Task: {
+            properties: {
+              title: { title: 'Title', type: 'string' },
+              priority: { $ref: '#/$defs/Priority', default: 'medium' },
+              due: { anyOf: [{ format: 'date', type: 'string' }, { type: 'null' }], default: null, title: 'Due' },
+            },
+            required: ['title'],
+            title: 'Task',
+            type: 'object',
+          },
+        },
+        properties: {
+          tasks: { items: { $ref: '#/$defs/Task' }, title: 'Tasks', type: 'array' },
+        },
+        required: ['tasks'],
+        title: 'create_tasksArguments',
+        type: 'object',
+      },
+    },
+    valid: [
+      { tasks: [{ title: 'Write docs' }] },
+      { tasks: [{ title: 'Ship', priority: 'high', due: '2025-01-31' }, { title: 'Rest', due: null }] },
+    ],
+    invalid: [
+      { tasks: [{ title: 'Ship', priority: 'urgent' }] },
+      { tasks: [{ priority: 'low' }] },
+      { tasks: 'Write docs' },
+    ],
+  },
+  {
+    server: 'zod-to-json-schema (draft-07 definitions)',
+    tool: {
+      name: 'route_distance',
+      description: 'Distance between two points',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          from: { $ref: '#/definitions/point' },
+          to: { $ref: '#/definitions/point' },
+          unit: { type: 'string', enum: ['km', 'mi'], default: 'km' },
+        },
+        required: ['from', 'to'],
+        additionalProperties: false,
+        definitions: {
+          point: {
+            type: 'object',
+            properties: {
+              lat: { type: 'number', minimum: -90, maximum: 90 },
+              lng: { type: 'number', minimum: -180, maximum: 180 },
+            },
+            required: ['lat', 'lng'],
+            additionalProperties: false,
+          },
+        },
+        $schema: DRAFT_07,
+      },
+    },
+    valid: [{ from: { lat: 51.5, lng: -0.12 }, to: { lat: 48.85, lng: 2.35 }, unit: 'mi' }],
+    invalid: [
+      { from: { lat: 91, lng: 0 }, to: { lat: 0, lng: 0 } },
+      { from: { lat: 0 }, to: { lat: 0, lng: 0 } },
+      { from: { lat: 0, lng: 0 }, to: { lat: 0, lng: 0 }, unit: 'nm' },
+    ],
+  },
+  {
+    server: 'Hand-written (oneOf with const discriminators)',
+    tool: {
+      name: 'summarize',
+      description: 'Summarize a document from a URL or from text',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          source: {
+            oneOf: [
+              {
+                type: 'object',
+                properties: { type: { const: 'url' }, url: { type: 'string' } },
+                required: ['type', 'url'],
+              },
+              {
+                type: 'object',
+                properties: { type: { const: 'text' }, text: { type: 'string', maxLength: 100000 } },
+                required: ['type', 'text'],
+              },
+            ],
+          },
+          sentences: { type: 'integer', minimum: 1, maximum: 10, default: 3 },
+        },
+        required: ['source'],
+      },
+    },
+    valid: [
+      { source: { type: 'url', url: 'https://example.com/report.pdf' } },
+      { source: { type: 'text', text: 'A long report' }, sentences: 5 },
+    ],
+    invalid: [
+      { source: { type: 'file', path: '/tmp/report.pdf' } },
+      { source: { type: 'url' } },
+      { source: { type: 'text', text: 'A long report' }, sentences: 11 },
+    ],
+  },
+];
+
+/**
+ * Schemas Zod can't express - arguments aren't validated locally and go to the
+ * server as the model wrote them
+ */
+export const UNVALIDATED_MCP_TOOL_SCHEMAS: McpTool[] = [
+  {
+    name: 'create_event',
+    description: 'Create a calendar event',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        event: { $ref: 'https://schemas.example.com/calendar/event.json' },
+      },
+      required: ['event'],
+    },
+  },
+];
@@ -0,0 +1,293 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { McpClient, McpRequestError, readSseMessages } from '@/lib/mcp-client';
+import { getMcpAccessToken } from '@/lib/mcp-oauth';
+import { MAX_LIST_PAGES } from '@/lib/mcp-protocol';
+import type { McpConnection } from '@/lib/generated/prisma/client';
+import { startMockMcpServer, type MockMcpServer, type MockMcpServerOptions } from './mock-mcp-server';
+
+// Connections live in memory instead of the database
+const connections = vi.hoisted(() => new Map<string, McpConnection>());
+
+vi.mock('@/lib/storage', () => ({
+  getMcpConnection: async (id: string) => connections.get(id) ?? null,
+  updateMcpConnection: async (id: string, data: Partial<McpConnection>) => {
+    const connection = connections.get(id);
+    if (!connection) return null;
+    const updated = { ...connection, ...data };
+    connections.set(id, updated);
+    return updated;
+  },
+}));
+
+// Stored OAuth tokens go stale; a forced refresh gets the one the server accepts
+vi.mock('@/lib/mcp-oauth', () => ({
+  McpAuthorizationError: class McpAuthorizationError extends Error {},
+  getMcpAccessToken: vi.fn(async (_connection: unknown, options: { forceRefresh?: boolean } = {}) =>
+    options.forceRefresh ? 'fresh-token' : 'stale-token'
+  ),
+}));
+
+let server: MockMcpServer | null = null;
+
+async function connect(
+  serverOptions: MockMcpServerOptions = {},
+  connectionOverrides: Partial<McpConnection> = {}
+): Promise<McpClient> {
+  server = await startMockMcpServer(serverOptions);
+  const now = new Date();
+  connections.set('conn-1', {
+    id: 'conn-1',
+    userId: 'user-1',
+    name: 'Mock',
+    serverUrl: server.url,
+    transport: 'http',
+    stdioServer: null,
+    authType: 'none',
+    authCredentialsEncrypted: null,
+    availableTools: [],
+    toolPolicies: {},
+    isActive: true,
+    status: 'connected',
+    lastError: null,
+    sessionId: null,
+    protocolVersion: null,
+    serverCapabilities: null,
+    timeoutSeconds: 5,
+    oauthTokensEncrypted: null,
+    oauthTokenExpiresAt: null,
+    oauthPendingEncrypted: null,
+    createdAt: now,
+    updatedAt: now,
+    lastConnectedAt: null,
+    ...connectionOverrides,
+  });
+  return McpClient.forConnection('conn-1');
+}
+
+const requestedMethods = () => server!.requests.map((r) => r.message.method);
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+  connections.clear();
+  vi.restoreAllMocks();
+});
+
+describe('McpClient.initialize', () => {
+  it('negotiates the protocol version and keeps the session', async () => {
+    const client = await connect({ protocolVersion: '2024-11-05', capabilities: { tools: {}, prompts: {} } });
+
+    const result = await client.initialize();
+
+    expect(result.protocolVersion).toBe('2024-11-05');
+    expect(result.serverInfo?.name).toBe('mock-mcp-server');
+    expect(server!.requests[0].message.params?.protocolVersion).toBe('2025-11-25');
+
+    const connection = connections.get('conn-1')!;
+    expect(connection.sessionId).toEqual(expect.any(String));
+    expect(connection.protocolVersion).toBe('2024-11-05');
+    expect(connection.serverCapabilities).toEqual({ tools: {}, prompts: {} });
+
+    // The initialized notification already belongs to the new session
+    const initialized = server!.requests[1];
+    expect(initialized.message.method).toBe('notifications/initialized');
+    expect(initialized.sessionId).toBe(connection.sessionId);
+    expect(initialized.protocolVersion).toBe('2024-11-05');
+  });
+
+  it('rejects a protocol version it does not support', async () => {
+    const client = await connect({ protocolVersion: '2023-01-01' });
+
+    await expect(client.initialize()).rejects.toThrow(McpRequestError);
+    expect(requestedMethods()).toEqual(['initialize']);
+  });
+
+  it('only offers capabilities the server announced', async () => {
+    const client = await connect({ capabilities: { tools: {} } });
+    await client.initialize();
+
+    expect(client.hasCapability('tools')).toBe(true);
+    expect(client.hasCapability('prompts')).toBe(false);
+    expect(await client.listPrompts()).toEqual([]);
+    expect(requestedMethods()).not.toContain('prompts/list');
+  });
+});
+
+describe('McpClient.request', () => {
+  it('starts a new session when the server drops the old one', async () => {
+    const client = await connect();
+    await client.initialize();
+    const oldSessionId = connections.get('conn-1')!.sessionId;
+
+    server!.expireSessions();
+    await client.ping();
+
+    expect(requestedMethods()).toEqual([
+      'initialize',
+      'notifications/initialized',
+      'ping', // 404 - session not found
+      'initialize',
+      'notifications/initialized',
+      'ping',
+    ]);
+    const newSessionId = connections.get('conn-1')!.sessionId;
+    expect(newSessionId).not.toBe(oldSessionId);
+    expect(server!.requests[5].sessionId).toBe(newSessionId);
+  });
+
+  it('refreshes a rejected OAuth token once and retries', async () => {
+    const client = await connect({ accessToken: 'stale-token' }, { authType: 'oauth' });
+    await client.initialize();
+
+    server!.setAccessToken('fresh-token');
+    await client.ping();
+
+    const pings = server!.requests.filter((r) => r.message.method === 'ping');
+    expect(pings.map((r) => r.authorization)).toEqual(['Bearer stale-token', 'Bearer fresh-token']);
+    expect(getMcpAccessToken).toHaveBeenCalledWith(expect.anything(), { forceRefresh: true });
+  });
+
+  it('gives up when the refreshed token is rejected too', async () => {
+    const client = await connect({ accessToken: 'stale-token' }, { authType: 'oauth' });
+    await client.initialize();
+
+    server!.setAccessToken('revoked');
+
+    await expect(client.ping()).rejects.toThrow('HTTP Error 401');
+    expect(requestedMethods().filter((m) => m === 'ping')).toHaveLength(2);
+  });
+
+  it('reads the response and progress from an event stream', async () => {
+    const client = await connect({ sse: true });
+    await client.initialize();
+    const onProgress = vi.fn();
+
+    const result = await client.callTool('echo', { text: 'hi' }, { onProgress });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'echo: {"text":"hi"}' }]);
+    expect(onProgress).toHaveBeenCalledWith({ progress: 1, total: 2, message: 'Halfway' });
+  });
+});
+
+describe('McpClient list methods', () => {
+  const tools = Array.from({ length: 5 }, (_, i) => ({
+    name: `tool_${i}`,
+    description: `Tool ${i}`,
+    inputSchema: { type: 'object', properties: {} },
+  }));
+
+  it('follows nextCursor through every page', async () => {
+    const client = await connect({ tools, pageSize: 2 });
+    await client.initialize();
+
+    expect(await client.listTools()).toEqual(tools);
+
+    const listRequests = server!.requests.filter((r) => r.message.method === 'tools/list');
+    expect(listRequests.map((r) => r.message.params?.cursor)).toEqual([undefined, '2', '4']);
+  });
+
+  it('stops when the server repeats a cursor', async () => {
+    const client = await connect({ tools, nextCursor: (cursor) => (cursor ? 'b' : 'a') });
+    await client.initialize();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await client.listTools()).toHaveLength(3);
+
+    const listRequests = server!.requests.filter((r) => r.message.method === 'tools/list');
+    expect(listRequests.map((r) => r.message.params?.cursor)).toEqual([undefined, 'a', 'b']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('repeated cursor b'));
+  });
+
+  it('stops after MAX_LIST_PAGES pages', async () => {
+    const client = await connect({ tools, nextCursor: (cursor) => String(Number(cursor ?? 0) + 1) });
+    await client.initialize();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await client.listTools()).toHaveLength(MAX_LIST_PAGES);
+    expect(server!.requests.filter((r) => r.message.method === 'tools/list')).toHaveLength(MAX_LIST_PAGES);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining(`more than ${MAX_LIST_PAGES} pages`));
+  });
+
+  it('treats a method the server does not implement as an empty list', async () => {
+    const client = await connect({ capabilities: { tools: {}, prompts: {} } });
+    await client.initialize();
+
+    expect(await client.listPrompts()).toEqual([]);
+    expect(requestedMethods()).toContain('prompts/list');
+  });
+});
+
+describe('readSseMessages', () => {
+  function streamOf(chunks: string[], onCancel?: () => void): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    return new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+        if (!onCancel) controller.close();
+      },
+      cancel: onCancel,
+    });
+  }
+
+  async function readAll(body: ReadableStream<Uint8Array>) {
+    const messages = [];
+    for await (const message of readSseMessages(body)) messages.push(message);
+    return messages;
+  }
+
+  it('parses events split across chunks', async () => {
+    const messages = await readAll(streamOf([
+      'event: message\nda',
+      'ta: {"jsonrpc":"2.0","id":1,',
+      '"result":{}}\n',
+      '\n',
+    ]));
+
+    expect(messages).toEqual([{ jsonrpc: '2.0', id: 1, result: {} }]);
+  });
+
+  it('joins multi-line data and handles CRLF line endings', async () => {
+    const messages = await readAll(streamOf([
+      'id: 7\r\ndata: {"jsonrpc":"2.0",\r\ndata: "id":2,"result":{"ok":true}}\r\n\r\n',
+    ]));
+
+    expect(messages).toEqual([{ jsonrpc: '2.0', id: 2, result: { ok: true } }]);
+  });
+
+  it('skips comments, [DONE] and non-JSON events and flattens batches', async () => {
+    const messages = await readAll(streamOf([
+      ': keep-alive\n\n',
+      'data: not json\n\n',
+      'data: [{"jsonrpc":"2.0","method":"notifications/message"},{"jsonrpc":"2.0","id":3,"result":{}}]\n\n',
+      'data: [DONE]\n\n',
+    ]));
+
+    expect(messages).toEqual([
+      { jsonrpc: '2.0', method: 'notifications/message' },
+      { jsonrpc: '2.0', id: 3, result: {} },
+    ]);
+  });
+
+  it('yields a final event without a trailing blank line', async () => {
+    const messages = await readAll(streamOf(['data: {"jsonrpc":"2.0","id":4,"result":{}}']));
+
+    expect(messages).toEqual([{ jsonrpc: '2.0', id: 4, result: {} }]);
+  });
+
+  it('cancels a stream the server keeps open once the caller stops reading', async () => {
+    const onCancel = vi.fn();
+    const body = streamOf(['data: {"jsonrpc":"2.0","id":5,"result":{}}\n\n'], onCancel);
+
+    for await (const message of readSseMessages(body)) {
+      expect(message.id).toBe(5);
+      break;
+    }
+
+    expect(onCancel).toHaveBeenCalled();
+  });
+});
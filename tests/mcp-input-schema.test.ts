@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildInputSchema } from '@/lib/mcp-client';
+import { MCP_TOOL_SCHEMAS, UNVALIDATED_MCP_TOOL_SCHEMAS } from './fixtures/mcp-tool-schemas';
+
+// mcp-client reaches the database through storage; schemas never do
+vi.mock('@/lib/storage', () => ({}));
+
+async function validate(schema: ReturnType<typeof buildInputSchema>, value: unknown) {
+  if (!schema.validate) throw new Error('Schema has no validator');
+  return schema.validate(value);
+}
+
+describe('buildInputSchema', () => {
+  describe.each(MCP_TOOL_SCHEMAS)('$server $tool.name', ({ tool, valid, invalid }) => {
+    it('sends the server schema to the model unchanged', () => {
+      expect(buildInputSchema(tool).jsonSchema).toEqual({ ...tool.inputSchema, type: 'object' });
+    });
+
+    it.each(valid.map((value) => [JSON.stringify(value), value]))('accepts %s', async (_, value) => {
+      const result = await validate(buildInputSchema(tool), value);
+      expect(result.success, result.success ? undefined : String(result.error)).toBe(true);
+    });
+
+    it.each(invalid.map((value) => [JSON.stringify(value), value]))('rejects %s', async (_, value) => {
+      const result = await validate(buildInputSchema(tool), value);
+      expect(result.success).toBe(false);
+    });
+  });
+
+  it('makes the root an object when the server leaves out the type', () => {
+    const schema = buildInputSchema({ name: 'ping', inputSchema: { properties: {} } });
+    expect(schema.jsonSchema).toEqual({ type: 'object', properties: {} });
+  });
+
+  it('keeps schemas Zod cannot express and leaves validation to the server', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    for (const tool of UNVALIDATED_MCP_TOOL_SCHEMAS) {
+      const schema = buildInputSchema(tool);
+      expect(schema.jsonSchema).toEqual(tool.inputSchema);
+      expect(schema.validate).toBeUndefined();
+    }
+    expect(warn).toHaveBeenCalledTimes(UNVALIDATED_MCP_TOOL_SCHEMAS.length);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import crypto from 'crypto';
+import { McpClient } from '@/lib/mcp-client';
+import { encrypt } from '@/lib/encryption';
+import type { McpConnection } from '@/lib/generated/prisma/client';
+import { startMockMcpServer, type MockMcpServer } from './mock-mcp-server';
+
+// Connections live in memory instead of the database; tokens are refreshed for real
+const connections = vi.hoisted(() => new Map<string, McpConnection>());
+
+vi.mock('@/lib/storage', () => ({
+  getMcpConnection: async (id: string) => connections.get(id) ?? null,
+  updateMcpConnection: async (id: string, data: Partial<McpConnection>) => {
+    const connection = connections.get(id);
+    if (!connection) return null;
+    const updated = { ...connection, ...data };
+    connections.set(id, updated);
+    return updated;
+  },
+}));
+
+let server: MockMcpServer | null = null;
+
+beforeEach(() => {
+  vi.stubEnv('KEY_ENCRYPTION_SECRET', crypto.randomBytes(32).toString('hex'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+  connections.clear();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('McpClient with an expiring OAuth token', () => {
+  it('refreshes once and uses the rotated tokens for later requests', async () => {
+    const tools = Array.from({ length: 3 }, (_, i) => ({
+      name: `tool_${i}`,
+      description: `Tool ${i}`,
+      inputSchema: { type: 'object', properties: {} },
+    }));
+    server = await startMockMcpServer({
+      tools,
+      pageSize: 1,
+      stateless: true,
+      accessToken: 'access-0',
+      refreshToken: 'refresh-0',
+    });
+
+    const now = new Date();
+    connections.set('conn-1', {
+      id: 'conn-1',
+      userId: 'user-1',
+      name: 'Mock',
+      serverUrl: server.url,
+      transport: 'http',
+      stdioServer: null,
+      authType: 'oauth',
+      authCredentialsEncrypted: encrypt(JSON.stringify({ clientId: 'client-1' })),
+      availableTools: [],
+      toolPolicies: {},
+      isActive: true,
+      status: 'connected',
+      lastError: null,
+      sessionId: null,
+      protocolVersion: null,
+      serverCapabilities: null,
+      timeoutSeconds: 5,
+      oauthTokensEncrypted: encrypt(JSON.stringify({
+        tokenEndpoint: server.tokenUrl,
+        authMethod: 'none',
+        resource: server.url,
+        accessToken: 'access-0',
+        refreshToken: 'refresh-0',
+        tokenType: 'Bearer',
+      })),
+      // Inside the refresh margin - the first request refreshes
+      oauthTokenExpiresAt: new Date(Date.now() + 10_000),
+      oauthPendingEncrypted: null,
+      createdAt: now,
+      updatedAt: now,
+      lastConnectedAt: null,
+    });
+
+    // What the health check does: ping, then every page of tools/list
+    const client = await McpClient.forConnection('conn-1');
+    await client.ping();
+    expect(await client.listTools()).toEqual(tools);
+
+    expect(server.refreshGrants).toEqual(['refresh-0']);
+    expect(server.requests.map((r) => r.authorization)).toEqual(Array(4).fill('Bearer access-1'));
+
+    const connection = connections.get('conn-1')!;
+    expect(connection.status).toBe('connected');
+    expect(connection.isActive).toBe(true);
+  });
+});
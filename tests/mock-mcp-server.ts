@@ -0,0 +1,188 @@
+/**
+ * Mock Streamable HTTP MCP server for client tests
+ * Speaks enough of the protocol for McpClient: the initialize handshake with
+ * sessions, bearer token checks, paginated tools/list, tools/call with progress,
+ * and plain JSON or event-stream replies. Every request is recorded.
+ * An OAuth token endpoint at /token refreshes tokens, rotating the refresh token
+ * like OAuth 2.1 servers do for public clients.
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import type { McpTool } from '@/lib/mcp-client';
+import type { McpServerCapabilities } from '@/lib/mcp-protocol';
+import type { JsonRpcMessage } from '@/lib/mcp-stdio';
+
+export interface MockMcpServerOptions {
+  tools?: McpTool[];
+  pageSize?: number; // tools/list page size, all tools on one page when unset
+  protocolVersion?: string; // Answered to initialize, whatever the client offered
+  capabilities?: McpServerCapabilities;
+  accessToken?: string; // Required as a bearer token when set
+  refreshToken?: string; // Each refresh replaces it - an old one is rejected
+  sse?: boolean; // Reply with text/event-stream instead of JSON
+  stateless?: boolean; // No sessions - requests don't need initialize first
+  nextCursor?: (cursor: string | undefined) => string | undefined; // Overrides tools/list paging (misbehaving servers)
+}
+
+export interface RecordedMcpRequest {
+  message: JsonRpcMessage;
+  sessionId: string | null;
+  protocolVersion: string | null;
+  authorization: string | null;
+}
+
+export interface MockMcpServer {
+  url: string;
+  tokenUrl: string;
+  requests: RecordedMcpRequest[];
+  refreshGrants: string[]; // Refresh tokens presented to the token endpoint, in order
+  /** Forget every session - the next request with one gets a 404 */
+  expireSessions(): void;
+  setAccessToken(token: string): void;
+  close(): Promise<void>;
+}
+
+const METHOD_NOT_FOUND = -32601;
+
+export async function startMockMcpServer(options: MockMcpServerOptions = {}): Promise<MockMcpServer> {
+  const tools = options.tools ?? [];
+  const sessions = new Set<string>();
+  const requests: RecordedMcpRequest[] = [];
+  const refreshGrants: string[] = [];
+  let accessToken = options.accessToken;
+  let refreshToken = options.refreshToken;
+
+  const handleTokenRequest = (body: string, res: http.ServerResponse) => {
+    const params = new URLSearchParams(body);
+    const presented = params.get('refresh_token') ?? '';
+    refreshGrants.push(presented);
+
+    if (params.get('grant_type') !== 'refresh_token' || !refreshToken || presented !== refreshToken) {
+      res.writeHead(400, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'invalid_grant' }));
+      return;
+    }
+
+    accessToken = `access-${refreshGrants.length}`;
+    refreshToken = `refresh-${refreshGrants.length}`;
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: 3600,
+      refresh_token: refreshToken,
+    }));
+  };
+
+  const handle = (message: JsonRpcMessage): { result?: unknown; error?: { code: number; message: string } } => {
+    switch (message.method) {
+      case 'ping':
+        return { result: {} };
+      case 'tools/list': {
+        const start = Number(message.params?.cursor ?? 0);
+        const end = options.pageSize ? start + options.pageSize : tools.length;
+        if (options.nextCursor) {
+          const nextCursor = options.nextCursor(message.params?.cursor as string | undefined);
+          return { result: { tools: tools.slice(0, 1), ...(nextCursor && { nextCursor }) } };
+        }
+        return {
+          result: {
+            tools: tools.slice(start, end),
+            ...(end < tools.length && { nextCursor: String(end) }),
+          },
+        };
+      }
+      case 'tools/call':
+        return {
+          result: { content: [{ type: 'text', text: `${message.params?.name}: ${JSON.stringify(message.params?.arguments)}` }] },
+        };
+      default:
+        return { error: { code: METHOD_NOT_FOUND, message: `Method not found: ${message.method}` } };
+    }
+  };
+
+  const server = http.createServer(async (req, res) => {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+
+    if (req.url === '/token') {
+      handleTokenRequest(body, res);
+      return;
+    }
+
+    const message = JSON.parse(body) as JsonRpcMessage;
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    requests.push({
+      message,
+      sessionId: sessionId ?? null,
+      protocolVersion: (req.headers['mcp-protocol-version'] as string | undefined) ?? null,
+      authorization: req.headers.authorization ?? null,
+    });
+
+    if (accessToken && req.headers.authorization !== `Bearer ${accessToken}`) {
+      res.writeHead(401, { 'Content-Type': 'text/plain' }).end('Unauthorized');
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    let reply: Record<string, unknown>;
+
+    if (message.method === 'initialize') {
+      const newSessionId = crypto.randomUUID();
+      sessions.add(newSessionId);
+      headers['Mcp-Session-Id'] = newSessionId;
+      reply = {
+        result: {
+          protocolVersion: options.protocolVersion ?? '2025-06-18',
+          capabilities: options.capabilities ?? { tools: {} },
+          serverInfo: { name: 'mock-mcp-server', version: '1.0.0' },
+        },
+      };
+    } else if (!options.stateless && (!sessionId || !sessions.has(sessionId))) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Session not found');
+      return;
+    } else if (message.id === undefined) {
+      res.writeHead(202).end(); // Notification accepted
+      return;
+    } else {
+      reply = handle(message);
+    }
+
+    const response = { jsonrpc: '2.0', id: message.id, ...reply };
+
+    if (!options.sse) {
+      res.writeHead(200, { ...headers, 'Content-Type': 'application/json' }).end(JSON.stringify(response));
+      return;
+    }
+
+    res.writeHead(200, { ...headers, 'Content-Type': 'text/event-stream' });
+    const progressToken = (message.params?._meta as { progressToken?: unknown } | undefined)?.progressToken;
+    if (progressToken !== undefined) {
+      res.write(`event: message\ndata: ${JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken, progress: 1, total: 2, message: 'Halfway' },
+      })}\n\n`);
+    }
+    res.end(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    tokenUrl: `http://127.0.0.1:${port}/token`,
+    requests,
+    refreshGrants,
+    expireSessions: () => sessions.clear(),
+    setAccessToken: (token) => {
+      accessToken = token;
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close((error) => (error ? reject(error) : resolve()));
+    }),
+  };
+}